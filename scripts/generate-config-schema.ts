@@ -0,0 +1,24 @@
+/**
+ * Write the JSON schemas of the project configuration, contributed to the
+ * editor with `jsonValidation`
+ * Usage: bun scripts/generate-config-schema.ts
+ */
+
+import { writeFileSync } from 'node:fs'
+import * as path from 'node:path'
+import {
+        PACKAGE_JSON_SCHEMA,
+        PROJECT_CONFIG_SCHEMA,
+} from '../src/config/config-schema'
+
+const schemasDir = path.join(import.meta.dir, '..', 'schemas')
+
+const write = (fileName: string, schema: object) => {
+        writeFileSync(
+                path.join(schemasDir, fileName),
+                `${JSON.stringify(schema, null, 8)}\n`,
+        )
+}
+
+write('reactrefactorrc.schema.json', PROJECT_CONFIG_SCHEMA)
+write('package-json.schema.json', PACKAGE_JSON_SCHEMA)
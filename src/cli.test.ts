@@ -0,0 +1,92 @@
+import { afterAll, describe, expect, spyOn, test } from 'bun:test'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { run } from './cli'
+import { ErrorCode } from './types'
+
+const directory = mkdtempSync(path.join(os.tmpdir(), 'cli-'))
+
+const code = `import React from 'react'
+
+export function App({ user }) {
+  return <div><h1>{user.name}</h1></div>
+}
+`
+
+/**
+ * Run the command line on a new file, capturing its output
+ */
+async function runOnFile(args: string[]) {
+        const fileName = path.join(directory, 'App.jsx')
+        writeFileSync(fileName, code)
+        const stdout = spyOn(process.stdout, 'write').mockReturnValue(true)
+        const stderr = spyOn(process.stderr, 'write').mockReturnValue(true)
+        try {
+                const exitCode = await run([...args, '--file', fileName])
+                return {
+                        exitCode,
+                        stdout: stdout.mock.calls
+                                .map(([text]) => text)
+                                .join(''),
+                        stderr: stderr.mock.calls
+                                .map(([text]) => text)
+                                .join(''),
+                        output: readFileSync(fileName, 'utf8'),
+                }
+        } finally {
+                stdout.mockRestore()
+                stderr.mockRestore()
+        }
+}
+
+describe('react-refactor', () => {
+        afterAll(() => rmSync(directory, { recursive: true, force: true }))
+
+        test('extracts the JSX in a line and column range', async () => {
+                const { exitCode, output } = await runOnFile([
+                        'extract',
+                        '--range',
+                        '4:15-4:35',
+                        '--name',
+                        'title',
+                ])
+
+                expect(exitCode).toBe(0)
+                expect(output).toContain('function Title(props) {')
+                expect(output).toContain(
+                        '<div><Title name={user.name}></Title></div>',
+                )
+        })
+
+        test('prints a unified diff without writing with --dry-run', async () => {
+                const { exitCode, stdout, output } = await runOnFile([
+                        'extract',
+                        '--range',
+                        '4:15-4:35',
+                        '--name',
+                        'Title',
+                        '--dry-run',
+                ])
+
+                expect(exitCode).toBe(0)
+                expect(output).toBe(code)
+                expect(stdout).toContain('+++ b/')
+                expect(stdout).toContain(
+                        '+  return <div><Title name={user.name}></Title></div>',
+                )
+        })
+
+        test('reports invalid arguments with their error code', async () => {
+                const { exitCode, stderr } = await runOnFile([
+                        'extract',
+                        '--range',
+                        '4:15-4:35',
+                ])
+
+                expect(exitCode).toBe(1)
+                expect(stderr).toBe(
+                        `${ErrorCode.INVALID_ARGUMENT}: --name is required to extract a component\n`,
+                )
+        })
+})
@@ -0,0 +1,278 @@
+/**
+ * Command Line Interface - Run refactorings on files from scripts
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import * as path from 'node:path'
+import { parseArgs } from 'node:util'
+import { LinesAndColumns } from 'lines-and-columns'
+import { loadProjectConfig } from './config/project-config'
+import { createEngine, DEFAULT_ENGINE_OPTIONS } from './core/engine'
+import { createUnifiedDiff } from './lib/diff'
+import { resolveParserPlugins } from './lib/parser-plugins'
+import type {
+        ComponentType,
+        EngineOptions,
+        EngineResult,
+        RefactoringType,
+        TextRange,
+} from './types'
+import { ErrorCode, RefactoringError } from './types'
+import { normalizeComponentName } from './utils'
+
+const USAGE = `Usage: react-refactor <command> --file <path> --range <range> [options]
+
+Commands:
+  extract          Extract the JSX in the range to a new component
+  convert-class    Convert the class component in the range to a function component
+  inline           Inline the component used by the element in the range
+
+Options:
+  --file <path>      File to refactor
+  --range <range>    1-based line:column range, e.g. 12:4-30:10, or a position
+  --name <name>      Name of the extracted component
+  --type <type>      Extracted component type: function, arrowFunction or class
+  --delete-unused    Delete the inlined component when it has no usages left
+  --dry-run          Print a unified diff instead of writing the files
+  --help             Show this help
+`
+
+/**
+ * Refactoring run by each command
+ */
+const COMMANDS: Record<string, RefactoringType> = {
+        extract: 'extract',
+        'convert-class': 'convertClassToFunction',
+        inline: 'inline',
+}
+
+const COMPONENT_TYPES: ComponentType[] = ['function', 'arrowFunction', 'class']
+
+/**
+ * Run the command line and resolve to the process exit code
+ */
+export async function run(argv: string[]): Promise<number> {
+        try {
+                const { values, positionals } = parseArgs({
+                        args: argv,
+                        allowPositionals: true,
+                        options: {
+                                file: { type: 'string' },
+                                range: { type: 'string' },
+                                name: { type: 'string' },
+                                type: { type: 'string' },
+                                'delete-unused': { type: 'boolean' },
+                                'dry-run': { type: 'boolean' },
+                                help: { type: 'boolean' },
+                        },
+                })
+                const [command] = positionals
+                if (values.help || !command) {
+                        process.stdout.write(USAGE)
+                        return values.help ? 0 : 1
+                }
+
+                const type = COMMANDS[command]
+                if (!type) {
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_ARGUMENT,
+                                `Unknown command: ${command}`,
+                        )
+                }
+                if (!values.file || !values.range) {
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_ARGUMENT,
+                                '--file and --range are required',
+                        )
+                }
+                const componentType = values.type as ComponentType | undefined
+                if (componentType && !COMPONENT_TYPES.includes(componentType)) {
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_ARGUMENT,
+                                `Invalid --type: ${componentType}`,
+                        )
+                }
+                if (type === 'extract' && !values.name) {
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_ARGUMENT,
+                                '--name is required to extract a component',
+                        )
+                }
+
+                const fileName = path.resolve(values.file)
+                const code = readSourceFile(fileName)
+                const { start, end } = parseRange(code, values.range)
+                const options: EngineOptions = {
+                        ...DEFAULT_ENGINE_OPTIONS,
+                        ...loadProjectConfig(path.dirname(fileName)),
+                }
+                if (componentType && componentType !== 'class') {
+                        options.functionType = componentType
+                }
+
+                const { babelPlugins, ...refactoringOptions } = options
+                const engine = createEngine(
+                        resolveParserPlugins(babelPlugins, { fileName, code }),
+                )
+                const result = await engine.run(type, {
+                        name: values.name
+                                ? normalizeComponentName(values.name)
+                                : '',
+                        code,
+                        start,
+                        end,
+                        produceClass: componentType === 'class',
+                        fileName,
+                        options: refactoringOptions,
+                })
+                reportIssues(fileName, code, result)
+
+                const removable = result.removableDeclaration
+                if (removable && values['delete-unused']) {
+                        result.edits.push(
+                                ...removable.ranges.map((range) => ({
+                                        range,
+                                        newText: '',
+                                })),
+                        )
+                        engine.validate(code, result.edits, fileName)
+                }
+
+                const files = [
+                        {
+                                fileName,
+                                oldText: code,
+                                newText: engine.applyEdits(code, result.edits),
+                        },
+                ]
+                if (result.newFile) {
+                        files.push({
+                                fileName: result.newFile.fileName,
+                                oldText: '',
+                                newText: result.newFile.content,
+                        })
+                }
+
+                if (values['dry-run']) {
+                        files.forEach((file) => {
+                                const name = path
+                                        .relative(process.cwd(), file.fileName)
+                                        .split(path.sep)
+                                        .join('/')
+                                process.stdout.write(
+                                        createUnifiedDiff(
+                                                file.oldText
+                                                        ? `a/${name}`
+                                                        : '/dev/null',
+                                                `b/${name}`,
+                                                file.oldText,
+                                                file.newText,
+                                        ),
+                                )
+                        })
+                } else {
+                        files.forEach((file) => {
+                                mkdirSync(path.dirname(file.fileName), {
+                                        recursive: true,
+                                })
+                                writeFileSync(file.fileName, file.newText)
+                        })
+                }
+                return 0
+        } catch (error) {
+                process.stderr.write(`${formatError(error)}\n`)
+                return 1
+        }
+}
+
+/**
+ * Read the file to refactor
+ */
+function readSourceFile(fileName: string): string {
+        try {
+                return readFileSync(fileName, 'utf8')
+        } catch (error) {
+                throw new RefactoringError(
+                        ErrorCode.FILE_SYSTEM_ERROR,
+                        `Can not read ${fileName}`,
+                        error instanceof Error ? error : undefined,
+                )
+        }
+}
+
+/**
+ * Convert a 1-based `line:column[-line:column]` range to offsets
+ */
+function parseRange(code: string, value: string): TextRange {
+        const lines = new LinesAndColumns(code)
+        const [start, end = start] = value.split('-').map((position) => {
+                const [line, column] = position.split(':').map(Number)
+                const index =
+                        line > 0 && column > 0
+                                ? lines.indexForLocation({
+                                          line: line - 1,
+                                          column: column - 1,
+                                  })
+                                : null
+                if (index === null) {
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_ARGUMENT,
+                                `Invalid --range position: ${position}`,
+                        )
+                }
+                return index
+        })
+        return { start, end }
+}
+
+/**
+ * Print the constructs a refactoring can not handle, and fail
+ */
+function reportIssues(
+        fileName: string,
+        code: string,
+        result: EngineResult,
+): void {
+        const issues = result.issues ?? []
+        if (!issues.length) {
+                return
+        }
+
+        const lines = new LinesAndColumns(code)
+        issues.forEach((issue) => {
+                const location = lines.locationForIndex(issue.range.start)
+                process.stderr.write(
+                        `${fileName}:${(location?.line ?? 0) + 1}:${(location?.column ?? 0) + 1}: ${issue.message}\n`,
+                )
+        })
+        throw new RefactoringError(
+                ErrorCode.UNSUPPORTED_CONSTRUCT,
+                `${issues.length} construct(s) can not be converted`,
+        )
+}
+
+/**
+ * Describe an error with its code name and location
+ */
+function formatError(error: unknown): string {
+        if (error instanceof RefactoringError) {
+                const location = error.location
+                        ? ` (${error.location.fileName ?? ''}:${error.location.line}:${error.location.column})`
+                        : ''
+                const cause = error.originalError
+                        ? `: ${error.originalError.message}`
+                        : ''
+                return `${error.code}: ${error.message}${location}${cause}`
+        }
+        if (error instanceof Error && 'code' in error) {
+                // Argument errors thrown by parseArgs
+                return `${ErrorCode.INVALID_ARGUMENT}: ${error.message}`
+        }
+        return `${ErrorCode.EXTRACTION_ERROR}: ${error instanceof Error ? error.message : String(error)}`
+}
+
+if (require.main === module) {
+        run(process.argv.slice(2)).then((exitCode) => {
+                process.exitCode = exitCode
+        })
+}
@@ -0,0 +1,60 @@
+/**
+ * Config Commands - Command handlers showing the effective configuration
+ */
+
+import type * as vscode from 'vscode'
+import type { ConfigService } from '../config'
+import type { IVSCodeService } from '../types'
+
+/**
+ * Register config commands
+ */
+export function registerConfigCommands(
+        context: vscode.ExtensionContext,
+        configService: ConfigService,
+        vscodeService: IVSCodeService,
+): void {
+        // Register show parser options command
+        context.subscriptions.push(
+                vscodeService.registerCommand(
+                        'extension.react-refactor.showParserOptions',
+                        async () => {
+                                const document =
+                                        vscodeService.getActiveEditor()
+                                                ?.document
+                                const { sourceType } =
+                                        configService.getParserOptions(document)
+                                const content = {
+                                        file: document?.isUntitled
+                                                ? document.uri.toString()
+                                                : document?.fileName,
+                                        languageId: document?.languageId,
+                                        sourceType,
+                                        plugins: configService.getParserPlugins(
+                                                document,
+                                        ),
+                                }
+                                try {
+                                        await vscodeService.showTextDocument(
+                                                await vscodeService.openUntitledDocument(
+                                                        JSON.stringify(
+                                                                content,
+                                                                null,
+                                                                2,
+                                                        ),
+                                                        'json',
+                                                ),
+                                        )
+                                } catch (error) {
+                                        const errorMessage =
+                                                error instanceof Error
+                                                        ? error.message
+                                                        : 'Unknown error occurred'
+                                        vscodeService.showErrorMessage(
+                                                `Failed to show the parser options: ${errorMessage}`,
+                                        )
+                                }
+                        },
+                ),
+        )
+}
@@ -0,0 +1,47 @@
+/**
+ * Debug Commands - Command handlers inspecting the extension state
+ */
+
+import type * as vscode from 'vscode'
+import type { IVSCodeService } from '../types'
+import type { EngineWorkerClient } from '../worker/worker-client'
+
+/**
+ * Register debug commands
+ */
+export function registerDebugCommands(
+        context: vscode.ExtensionContext,
+        engineWorker: EngineWorkerClient,
+        vscodeService: IVSCodeService,
+): void {
+        // Register show AST cache statistics command
+        context.subscriptions.push(
+                vscodeService.registerCommand(
+                        'extension.react-refactor.showAstCacheStats',
+                        async () => {
+                                try {
+                                        const { hits, misses, size } =
+                                                await engineWorker.call(
+                                                        'getCacheStats',
+                                                        [],
+                                                )
+                                        const lookups = hits + misses
+                                        const hitRate = lookups
+                                                ? ` (${Math.round((hits / lookups) * 100)}% hit rate)`
+                                                : ''
+                                        vscodeService.showInformationMessage(
+                                                `AST cache: ${hits} hits, ${misses} misses${hitRate}, ${size} documents cached`,
+                                        )
+                                } catch (error) {
+                                        const errorMessage =
+                                                error instanceof Error
+                                                        ? error.message
+                                                        : 'Unknown error occurred'
+                                        vscodeService.showErrorMessage(
+                                                `Failed to show the AST cache statistics: ${errorMessage}`,
+                                        )
+                                }
+                        },
+                ),
+        )
+}
@@ -4,7 +4,18 @@
 
 import type * as vscode from 'vscode'
 import type { RefactoringService } from '../services/refactoring-service'
-import type { IVSCodeService } from '../types'
+import type { IVSCodeService, TextRange } from '../types'
+
+/**
+ * Range passed by a code action expanding the selection, ignoring the
+ * arguments of other callers
+ */
+function toTextRange(arg: unknown): TextRange | undefined {
+	const range = arg as Partial<TextRange> | undefined
+	return typeof range?.start === 'number' && typeof range.end === 'number'
+		? { start: range.start, end: range.end }
+		: undefined
+}
 
 /**
  * Register extract commands
@@ -18,10 +29,11 @@ export function registerExtractCommands(
 	context.subscriptions.push(
 		vscodeService.registerCommand(
 			'extension.react-refactor.extractToFunction',
-			async () => {
+			async (range?: unknown) => {
 				try {
 					await refactoringService.extractToComponent(
 						false,
+						toTextRange(range),
 					)
 				} catch (error) {
 					const errorMessage =
@@ -40,10 +52,11 @@ export function registerExtractCommands(
 	context.subscriptions.push(
 		vscodeService.registerCommand(
 			'extension.react-refactor.extractToClass',
-			async () => {
+			async (range?: unknown) => {
 				try {
 					await refactoringService.extractToComponent(
 						true,
+						toTextRange(range),
 					)
 				} catch (error) {
 					const errorMessage =
@@ -57,4 +70,190 @@ export function registerExtractCommands(
 			},
 		),
 	)
+
+	// Register extract to file command
+	context.subscriptions.push(
+		vscodeService.registerCommand(
+			'extension.react-refactor.extractToFile',
+			async (range?: unknown) => {
+				try {
+					await refactoringService.extractToFile(toTextRange(range))
+				} catch (error) {
+					const errorMessage =
+						error instanceof Error
+							? error.message
+							: 'Unknown error occurred'
+					vscodeService.showErrorMessage(
+						`Failed to extract component to file: ${errorMessage}`,
+					)
+				}
+			},
+		),
+	)
+
+	// Register extract to custom hook command
+	context.subscriptions.push(
+		vscodeService.registerCommand(
+			'extension.react-refactor.extractToHook',
+			async () => {
+				try {
+					await refactoringService.extractToHook()
+				} catch (error) {
+					const errorMessage =
+						error instanceof Error
+							? error.message
+							: 'Unknown error occurred'
+					vscodeService.showErrorMessage(
+						`Failed to extract custom hook: ${errorMessage}`,
+					)
+				}
+			},
+		),
+	)
+
+	// Register extract list item command
+	context.subscriptions.push(
+		vscodeService.registerCommand(
+			'extension.react-refactor.extractMapItem',
+			async () => {
+				try {
+					await refactoringService.extractMapItem()
+				} catch (error) {
+					const errorMessage =
+						error instanceof Error
+							? error.message
+							: 'Unknown error occurred'
+					vscodeService.showErrorMessage(
+						`Failed to extract list item component: ${errorMessage}`,
+					)
+				}
+			},
+		),
+	)
+
+	// Register extract wrapper command
+	context.subscriptions.push(
+		vscodeService.registerCommand(
+			'extension.react-refactor.extractWrapper',
+			async (range?: unknown) => {
+				try {
+					await refactoringService.extractWrapper(toTextRange(range))
+				} catch (error) {
+					const errorMessage =
+						error instanceof Error
+							? error.message
+							: 'Unknown error occurred'
+					vscodeService.showErrorMessage(
+						`Failed to extract wrapper component: ${errorMessage}`,
+					)
+				}
+			},
+		),
+	)
+
+	// Register inline component command
+	context.subscriptions.push(
+		vscodeService.registerCommand(
+			'extension.react-refactor.inlineComponent',
+			async () => {
+				try {
+					await refactoringService.inlineComponent()
+				} catch (error) {
+					const errorMessage =
+						error instanceof Error
+							? error.message
+							: 'Unknown error occurred'
+					vscodeService.showErrorMessage(
+						`Failed to inline component: ${errorMessage}`,
+					)
+				}
+			},
+		),
+	)
+
+	// Register convert class component command
+	context.subscriptions.push(
+		vscodeService.registerCommand(
+			'extension.react-refactor.convertClassToFunction',
+			async () => {
+				try {
+					await refactoringService.convertClassToFunction()
+				} catch (error) {
+					const errorMessage =
+						error instanceof Error
+							? error.message
+							: 'Unknown error occurred'
+					vscodeService.showErrorMessage(
+						`Failed to convert class component: ${errorMessage}`,
+					)
+				}
+			},
+		),
+	)
+
+	// Register convert to function declaration command
+	context.subscriptions.push(
+		vscodeService.registerCommand(
+			'extension.react-refactor.convertToFunction',
+			async () => {
+				try {
+					await refactoringService.convertComponentType(
+						'function',
+					)
+				} catch (error) {
+					const errorMessage =
+						error instanceof Error
+							? error.message
+							: 'Unknown error occurred'
+					vscodeService.showErrorMessage(
+						`Failed to convert component: ${errorMessage}`,
+					)
+				}
+			},
+		),
+	)
+
+	// Register convert to arrow function command
+	context.subscriptions.push(
+		vscodeService.registerCommand(
+			'extension.react-refactor.convertToArrowFunction',
+			async () => {
+				try {
+					await refactoringService.convertComponentType(
+						'arrowFunction',
+					)
+				} catch (error) {
+					const errorMessage =
+						error instanceof Error
+							? error.message
+							: 'Unknown error occurred'
+					vscodeService.showErrorMessage(
+						`Failed to convert component: ${errorMessage}`,
+					)
+				}
+			},
+		),
+	)
+
+	// Register convert to class command
+	context.subscriptions.push(
+		vscodeService.registerCommand(
+			'extension.react-refactor.convertToClass',
+			async () => {
+				try {
+					await refactoringService.convertComponentType(
+						'class',
+					)
+				} catch (error) {
+					const errorMessage =
+						error instanceof Error
+							? error.message
+							: 'Unknown error occurred'
+					vscodeService.showErrorMessage(
+						`Failed to convert component: ${errorMessage}`,
+					)
+				}
+			},
+		),
+	)
 }
@@ -0,0 +1,40 @@
+import { describe, expect, test } from 'bun:test'
+import { validateConfig } from './config-schema'
+
+describe('validateConfig', () => {
+        test('accepts a valid configuration', () => {
+                expect(
+                        validateConfig({
+                                functionType: 'arrowFunction',
+                                babelPlugins: ['jsx', 'typescript'],
+                        }),
+                ).toEqual([])
+        })
+
+        test('reports invalid values and unknown options at their path', () => {
+                expect(
+                        validateConfig({
+                                fragmentSyntax: 'short',
+                                propsTyping: 'types',
+                                babelPlugins: ['jsx', 1],
+                                indent: 2,
+                        }),
+                ).toEqual([
+                        {
+                                path: ['propsTyping'],
+                                message: 'Expected one of "interface", "none"',
+                        },
+                        {
+                                path: ['babelPlugins', '1'],
+                                message: 'Expected string but got integer',
+                        },
+                        {
+                                path: ['indent'],
+                                message: expect.stringMatching(
+                                        /^Unknown option 'indent', expected one of functionType, /,
+                                ),
+                                unknownProperty: true,
+                        },
+                ])
+        })
+})
@@ -0,0 +1,187 @@
+/**
+ * Project Configuration Schema - JSON schema of `.reactrefactorrc.json` and its validation
+ */
+
+/**
+ * Subset of JSON schema used to describe the project configuration
+ */
+export interface JsonSchema {
+        $schema?: string
+        $id?: string
+        $ref?: string
+        title?: string
+        description?: string
+        type?: string | string[]
+        enum?: string[]
+        items?: JsonSchema
+        properties?: Record<string, JsonSchema>
+        additionalProperties?: boolean
+        default?: unknown
+}
+
+/**
+ * Problem of a configuration value, at the path of its property
+ */
+export interface ConfigProblem {
+        path: string[]
+        message: string
+        /** The property itself is unknown, rather than its value invalid */
+        unknownProperty?: boolean
+}
+
+/**
+ * Schema of the project configuration
+ */
+export const PROJECT_CONFIG_SCHEMA: JsonSchema = {
+        $schema: 'http://json-schema.org/draft-07/schema#',
+        title: 'React Refactor project configuration',
+        type: 'object',
+        properties: {
+                $schema: {
+                        type: 'string',
+                },
+                functionType: {
+                        description:
+                                'Form of the extracted function components',
+                        type: 'string',
+                        enum: ['function', 'arrowFunction'],
+                        default: 'function',
+                },
+                fragmentSyntax: {
+                        description:
+                                'Fragment wrapping sibling JSX nodes: `<>…</>` or `<React.Fragment>…</React.Fragment>`',
+                        type: 'string',
+                        enum: ['short', 'long'],
+                        default: 'short',
+                },
+                propsTyping: {
+                        description:
+                                'Generate a props interface in TypeScript files, or leave the props untyped',
+                        type: 'string',
+                        enum: ['interface', 'none'],
+                        default: 'interface',
+                },
+                fileNaming: {
+                        description:
+                                'Name of the files of components extracted to a new file',
+                        type: 'string',
+                        enum: ['PascalCase', 'camelCase', 'kebab-case'],
+                        default: 'PascalCase',
+                },
+                templatesDirectory: {
+                        description:
+                                'Directory of the component template files, like `arrowFunction.tsx.template`',
+                        type: 'string',
+                        default: '.react-refactor/templates',
+                },
+                babelPlugins: {
+                        description:
+                                'Plugins of @babel/parser, as a list or a comma separated string',
+                        type: ['array', 'string'],
+                        items: { type: 'string' },
+                },
+        },
+        additionalProperties: false,
+}
+
+/**
+ * Schema of the `reactRefactor` key of package.json
+ */
+export const PACKAGE_JSON_SCHEMA: JsonSchema = {
+        $schema: 'http://json-schema.org/draft-07/schema#',
+        type: 'object',
+        properties: {
+                reactRefactor: {
+                        $ref: './reactrefactorrc.schema.json',
+                },
+        },
+}
+
+/**
+ * JSON schema type of a value
+ */
+const getType = (value: unknown): string => {
+        if (value === null) {
+                return 'null'
+        }
+        if (Array.isArray(value)) {
+                return 'array'
+        }
+        if (Number.isInteger(value)) {
+                return 'integer'
+        }
+        return typeof value
+}
+
+/**
+ * Check a value against a schema
+ * @param value
+ * @param schema
+ * @param path path of the value in the configuration
+ */
+export function validateConfig(
+        value: unknown,
+        schema: JsonSchema = PROJECT_CONFIG_SCHEMA,
+        path: string[] = [],
+): ConfigProblem[] {
+        const type = getType(value)
+        const types = schema.type && [schema.type].flat()
+        if (
+                types &&
+                !types.includes(type) &&
+                !(type === 'integer' && types.includes('number'))
+        ) {
+                return [
+                        {
+                                path,
+                                message: `Expected ${types.join(' or ')} but got ${type}`,
+                        },
+                ]
+        }
+        if (schema.enum && !schema.enum.includes(value as string)) {
+                return [
+                        {
+                                path,
+                                message: `Expected one of ${schema.enum
+                                        .map((option) => JSON.stringify(option))
+                                        .join(', ')}`,
+                        },
+                ]
+        }
+
+        if (type === 'array' && schema.items) {
+                const items = schema.items
+                return (value as unknown[]).flatMap((item, index) =>
+                        validateConfig(item, items, [...path, String(index)]),
+                )
+        }
+        if (type === 'object' && schema.properties) {
+                const properties = schema.properties
+                const knownOptions = Object.keys(properties)
+                        .filter((name) => name !== '$schema')
+                        .join(', ')
+                return Object.entries(value as Record<string, unknown>).flatMap(
+                        ([key, propertyValue]): ConfigProblem[] => {
+                                const propertySchema = properties[key]
+                                if (propertySchema) {
+                                        return validateConfig(
+                                                propertyValue,
+                                                propertySchema,
+                                                [...path, key],
+                                        )
+                                }
+                                if (schema.additionalProperties === false) {
+                                        return [
+                                                {
+                                                        path: [...path, key],
+                                                        message: `Unknown option '${key}', expected one of ${knownOptions}`,
+                                                        unknownProperty: true,
+                                                },
+                                        ]
+                                }
+                                return []
+                        },
+                )
+        }
+        return []
+}
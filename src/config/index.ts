@@ -1,50 +1,188 @@
 /**
- * Configuration Management - VSCode settings management
+ * Configuration Management - VSCode settings merged with the project configuration
  */
 
+import { readFileSync } from 'node:fs'
+import * as path from 'node:path'
+import { LinesAndColumns } from 'lines-and-columns'
 import * as vscode from 'vscode'
+import { DEFAULT_ENGINE_OPTIONS, parseBabelPlugins } from '../core/engine'
+import {
+	detectParserPlugins,
+	findSyntaxConfig,
+	type SyntaxConfig,
+} from '../lib/parser-plugins'
+import type { EngineOptions, ParserOptions } from '../types'
+import {
+	findProjectConfig,
+	PROJECT_CONFIG_FILE,
+	type ProjectConfig,
+	readProjectConfig,
+} from './project-config'
 
 /**
  * Configuration keys
  */
 export const ConfigKeys = {
 	FunctionType: 'vscodeReactRefactor.functionType',
+	FragmentSyntax: 'vscodeReactRefactor.fragmentSyntax',
+	PropsTyping: 'vscodeReactRefactor.propsTyping',
+	FileNaming: 'vscodeReactRefactor.fileNaming',
+	TemplatesDirectory: 'vscodeReactRefactor.templatesDirectory',
 	BabelPlugins: 'vscodeReactRefactor.babelPlugins',
 	EnableDebug: 'vscodeReactRefactor.enableDebug',
 } as const
 
 /**
- * Configuration service for managing VSCode settings
+ * Files holding a project configuration
  */
-export class ConfigService {
-	private readonly config: vscode.WorkspaceConfiguration
+const PROJECT_CONFIG_GLOB = `**/{${PROJECT_CONFIG_FILE},package.json}`
+
+/**
+ * Files deciding the parser plugins of a document
+ */
+const SYNTAX_CONFIG_GLOB =
+	'**/{tsconfig*.json,.flowconfig,babel.config.*,.babelrc,.babelrc.*}'
+
+/**
+ * Configuration service for managing VSCode settings and the project
+ * configuration files, reloaded when they change
+ */
+export class ConfigService implements vscode.Disposable {
+	private readonly projectConfigs = new Map<string, ProjectConfig>()
+	// The nearest configurations of each directory, found once until a
+	// configuration file is created, changed or deleted
+	private readonly projectConfigPaths = new Map<string, string | undefined>()
+	private readonly syntaxConfigs = new Map<string, SyntaxConfig>()
+	private readonly diagnostics =
+		vscode.languages.createDiagnosticCollection('react-refactor-config')
+	private readonly disposables: vscode.Disposable[] = []
 
 	constructor() {
-		this.config = vscode.workspace.getConfiguration()
+		const watcher =
+			vscode.workspace.createFileSystemWatcher(PROJECT_CONFIG_GLOB)
+		const syntaxWatcher =
+			vscode.workspace.createFileSystemWatcher(SYNTAX_CONFIG_GLOB)
+		const clearSyntaxConfigs = () => this.syntaxConfigs.clear()
+		this.disposables.push(
+			this.diagnostics,
+			watcher,
+			watcher.onDidCreate((uri) => this.reload(uri)),
+			watcher.onDidChange((uri) => this.reload(uri)),
+			watcher.onDidDelete((uri) => this.forget(uri)),
+			syntaxWatcher,
+			syntaxWatcher.onDidCreate(clearSyntaxConfigs),
+			syntaxWatcher.onDidChange(clearSyntaxConfigs),
+			syntaxWatcher.onDidDelete(clearSyntaxConfigs),
+		)
 	}
 
 	/**
-	 * Get function type setting
+	 * Get the options of a file: the user and workspace settings, overridden
+	 * by the nearest project configuration so the whole team gets the same
+	 * output
 	 */
-	getFunctionType(): 'function' | 'arrowFunction' {
-		return this.config.get(ConfigKeys.FunctionType, 'function')
+	getOptions(fileName?: string): EngineOptions {
+		const config = vscode.workspace.getConfiguration(
+			undefined,
+			fileName ? vscode.Uri.file(fileName) : undefined,
+		)
+		const settings: EngineOptions = {
+			functionType: config.get(
+				ConfigKeys.FunctionType,
+				DEFAULT_ENGINE_OPTIONS.functionType,
+			),
+			fragmentSyntax: config.get(
+				ConfigKeys.FragmentSyntax,
+				DEFAULT_ENGINE_OPTIONS.fragmentSyntax,
+			),
+			propsTyping: config.get(
+				ConfigKeys.PropsTyping,
+				DEFAULT_ENGINE_OPTIONS.propsTyping,
+			),
+			fileNaming: config.get(
+				ConfigKeys.FileNaming,
+				DEFAULT_ENGINE_OPTIONS.fileNaming,
+			),
+			templatesDirectory: config.get(
+				ConfigKeys.TemplatesDirectory,
+				DEFAULT_ENGINE_OPTIONS.templatesDirectory,
+			),
+			babelPlugins: parseBabelPlugins(
+				config.get(ConfigKeys.BabelPlugins, ''),
+			),
+		}
+
+		const projectConfig =
+			fileName && path.isAbsolute(fileName)
+				? this.getProjectConfig(path.dirname(fileName))
+				: undefined
+		return { ...settings, ...projectConfig?.options }
 	}
 
 	/**
-	 * Get Babel plugins setting
+	 * Get the parser options of a document: the configured Babel plugins, or
+	 * the ones detected from its language and the nearest TypeScript, Babel
+	 * and Flow configurations
 	 */
-	getBabelPlugins(): string {
-		return this.config.get(
-			ConfigKeys.BabelPlugins,
-			'objectRestSpread, classProperties, typescript, jsx',
-		)
+	getParserOptions(document?: vscode.TextDocument): ParserOptions {
+		return {
+			plugins: Object.keys(this.getParserPlugins(document)),
+			sourceType: 'module',
+		}
+	}
+
+	/**
+	 * Get the Babel plugins of a document, with where each one comes from
+	 */
+	getParserPlugins(document?: vscode.TextDocument): Record<string, string> {
+		const fileName =
+			document && !document.isUntitled ? document.fileName : undefined
+		const { babelPlugins } = this.getOptions(fileName)
+		if (babelPlugins.length) {
+			const projectConfig =
+				fileName && path.isAbsolute(fileName)
+					? this.getProjectConfig(path.dirname(fileName))
+					: undefined
+			const source = projectConfig?.options.babelPlugins
+				? projectConfig.fileName
+				: ConfigKeys.BabelPlugins
+			return Object.fromEntries(
+				babelPlugins.map((plugin) => [plugin, source]),
+			)
+		}
+		return detectParserPlugins(
+			{
+				fileName,
+				languageId: document?.languageId,
+				code: document && this.getFirstLine(document),
+			},
+			fileName && path.isAbsolute(fileName)
+				? this.getSyntaxConfig(path.dirname(fileName))
+				: undefined,
+		).reasons
 	}
 
 	/**
 	 * Get debug enabled setting
 	 */
 	isDebugEnabled(): boolean {
-		return this.config.get(ConfigKeys.EnableDebug, false)
+		return vscode.workspace
+			.getConfiguration()
+			.get(ConfigKeys.EnableDebug, false)
+	}
+
+	/**
+	 * Validate the project configuration files of the workspace
+	 */
+	async validateWorkspace(): Promise<void> {
+		const uris = await vscode.workspace.findFiles(
+			PROJECT_CONFIG_GLOB,
+			'**/node_modules/**',
+		)
+		uris.forEach((uri) => {
+			this.reload(uri)
+		})
 	}
 
 	/**
@@ -64,4 +202,114 @@ export class ConfigService {
 	): vscode.Disposable {
 		return vscode.workspace.onDidChangeConfiguration(callback)
 	}
+
+	dispose(): void {
+		this.disposables.forEach((disposable) => {
+			disposable.dispose()
+		})
+	}
+
+	/**
+	 * Get the nearest project configuration, loaded once until it changes
+	 */
+	private getProjectConfig(fromDir: string): ProjectConfig | undefined {
+		if (!this.projectConfigPaths.has(fromDir)) {
+			this.projectConfigPaths.set(fromDir, findProjectConfig(fromDir))
+		}
+		const configPath = this.projectConfigPaths.get(fromDir)
+		if (!configPath) {
+			return undefined
+		}
+		return (
+			this.projectConfigs.get(configPath) ??
+			this.load(vscode.Uri.file(configPath))
+		)
+	}
+
+	/**
+	 * Get the configuration files deciding the parser plugins of the
+	 * documents of a directory
+	 */
+	private getSyntaxConfig(dir: string): SyntaxConfig {
+		let config = this.syntaxConfigs.get(dir)
+		if (!config) {
+			config = findSyntaxConfig(dir)
+			this.syntaxConfigs.set(dir, config)
+		}
+		return config
+	}
+
+	/**
+	 * First non-blank line of a document, the only one holding a @flow
+	 * pragma, read without copying the whole text
+	 */
+	private getFirstLine(document: vscode.TextDocument): string {
+		for (let line = 0; line < document.lineCount; line++) {
+			const { text, isEmptyOrWhitespace } = document.lineAt(line)
+			if (!isEmptyOrWhitespace) {
+				return text
+			}
+		}
+		return ''
+	}
+
+	/**
+	 * Read a project configuration file and report its problems
+	 */
+	private load(uri: vscode.Uri): ProjectConfig | undefined {
+		let text: string
+		try {
+			text = readFileSync(uri.fsPath, 'utf8')
+		} catch {
+			this.forget(uri)
+			return undefined
+		}
+
+		const projectConfig = readProjectConfig(uri.fsPath, text)
+		this.projectConfigs.set(uri.fsPath, projectConfig)
+
+		const lines = new LinesAndColumns(text)
+		const toPosition = (offset: number): vscode.Position => {
+			const location = lines.locationForIndex(
+				Math.min(offset, text.length),
+			)
+			return new vscode.Position(
+				location?.line ?? 0,
+				location?.column ?? 0,
+			)
+		}
+		this.diagnostics.set(
+			uri,
+			projectConfig.problems.map(({ message, range }) => {
+				const diagnostic = new vscode.Diagnostic(
+					new vscode.Range(
+						toPosition(range.start),
+						toPosition(range.end),
+					),
+					message,
+					vscode.DiagnosticSeverity.Error,
+				)
+				diagnostic.source = 'react-refactor'
+				return diagnostic
+			}),
+		)
+		return projectConfig
+	}
+
+	/**
+	 * Reload a project configuration file after a change
+	 */
+	private reload(uri: vscode.Uri): void {
+		if (uri.fsPath.split(path.sep).includes('node_modules')) {
+			return
+		}
+		this.forget(uri)
+		this.load(uri)
+	}
+
+	private forget(uri: vscode.Uri): void {
+		this.projectConfigs.delete(uri.fsPath)
+		this.projectConfigPaths.clear()
+		this.diagnostics.delete(uri)
+	}
 }
@@ -0,0 +1,163 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { ErrorCode } from '../types'
+import {
+        findProjectConfig,
+        loadProjectConfig,
+        PROJECT_CONFIG_FILE,
+        readProjectConfig,
+        toEngineOptions,
+} from './project-config'
+
+const project = mkdtempSync(path.join(os.tmpdir(), 'project-config-'))
+afterAll(() => rmSync(project, { recursive: true, force: true }))
+
+function writeProject(name: string, files: Record<string, string>) {
+        const directory = path.join(project, name)
+        for (const [fileName, content] of Object.entries(files)) {
+                mkdirSync(path.dirname(path.join(directory, fileName)), {
+                        recursive: true,
+                })
+                writeFileSync(path.join(directory, fileName), content)
+        }
+        return directory
+}
+
+describe('findProjectConfig', () => {
+        test('finds the nearest configuration file or package.json key', () => {
+                const directory = writeProject('find', {
+                        'package.json': '{ "reactRefactor": {} }',
+                        'lib/package.json': '{ "name": "lib" }',
+                        [`app/${PROJECT_CONFIG_FILE}`]: '{}',
+                        'app/src/index.jsx': '',
+                })
+
+                expect(findProjectConfig(path.join(directory, 'app/src'))).toBe(
+                        path.join(directory, 'app', PROJECT_CONFIG_FILE),
+                )
+                expect(findProjectConfig(path.join(directory, 'lib'))).toBe(
+                        path.join(directory, 'package.json'),
+                )
+        })
+})
+
+describe('readProjectConfig', () => {
+        test('drops the invalid options and locates their problems', () => {
+                const text = `{
+  "functionType": "arrow",
+  "fragmentSyntax": "long",
+  "indent": 2
+}`
+                const { options, problems } = readProjectConfig(
+                        PROJECT_CONFIG_FILE,
+                        text,
+                )
+
+                expect(options).toEqual({ fragmentSyntax: 'long' })
+                expect(
+                        problems.map(({ message, range }) => [
+                                message,
+                                text.slice(range.start, range.end),
+                        ]),
+                ).toEqual([
+                        [
+                                'Expected one of "function", "arrowFunction"',
+                                '"arrow"',
+                        ],
+                        [
+                                expect.stringMatching(
+                                        /^Unknown option 'indent'/,
+                                ),
+                                '"indent"',
+                        ],
+                ])
+        })
+
+        test('reads the reactRefactor key of package.json', () => {
+                const text = `{
+  "name": "app",
+  "reactRefactor": { "babelPlugins": ["jsx", 2] }
+}`
+                const { problems } = readProjectConfig('package.json', text)
+
+                expect(
+                        problems.map(({ range }) =>
+                                text.slice(range.start, range.end),
+                        ),
+                ).toEqual(['2'])
+                expect(
+                        readProjectConfig('package.json', '{ "name": "app" }'),
+                ).toEqual({
+                        fileName: 'package.json',
+                        options: {},
+                        problems: [],
+                })
+        })
+
+        test('reports a syntax error at its offset', () => {
+                const text = '{ "functionType": }'
+                const { options, problems } = readProjectConfig(
+                        PROJECT_CONFIG_FILE,
+                        text,
+                )
+
+                expect(options).toEqual({})
+                expect(problems.map(({ range }) => range.start)).toEqual([
+                        text.indexOf('}'),
+                ])
+        })
+})
+
+describe('loadProjectConfig', () => {
+        test('loads the options of a valid configuration', () => {
+                const directory = writeProject('valid', {
+                        [PROJECT_CONFIG_FILE]:
+                                '{ "functionType": "arrowFunction", "babelPlugins": "jsx, flow" }',
+                })
+
+                expect(loadProjectConfig(directory)).toEqual({
+                        functionType: 'arrowFunction',
+                        babelPlugins: ['jsx', 'flow'],
+                })
+        })
+
+        test('throws at the location of the first problem', () => {
+                const directory = writeProject('invalid', {
+                        [PROJECT_CONFIG_FILE]: '{\n  "propsTyping": true\n}',
+                })
+
+                expect(() => loadProjectConfig(directory)).toThrow(
+                        expect.objectContaining({
+                                code: ErrorCode.INVALID_CONFIG,
+                                message: `Invalid ${PROJECT_CONFIG_FILE}: Expected string but got boolean`,
+                                location: {
+                                        fileName: path.join(
+                                                directory,
+                                                PROJECT_CONFIG_FILE,
+                                        ),
+                                        line: 2,
+                                        column: 18,
+                                },
+                        }),
+                )
+        })
+})
+
+describe('toEngineOptions', () => {
+        test('keeps the known options', () => {
+                expect(
+                        toEngineOptions({
+                                fileNaming: 'kebab-case',
+                                templatesDirectory: 'templates',
+                                babelPlugins: ['jsx'],
+                                other: true,
+                        }),
+                ).toEqual({
+                        fileNaming: 'kebab-case',
+                        templatesDirectory: 'templates',
+                        babelPlugins: ['jsx'],
+                })
+        })
+})
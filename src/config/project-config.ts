@@ -0,0 +1,242 @@
+/**
+ * Project Configuration - Options committed with the project in `.reactrefactorrc.json`
+ * or the `reactRefactor` key of package.json
+ */
+
+import { existsSync, readFileSync } from 'node:fs'
+import * as path from 'node:path'
+import { LinesAndColumns } from 'lines-and-columns'
+import { parseBabelPlugins } from '../core/engine'
+import {
+        findJsonProperty,
+        type JsonNode,
+        JsonSyntaxError,
+        parseJson,
+} from '../lib/json'
+import type { EngineOptions, TextRange } from '../types'
+import { ErrorCode, RefactoringError } from '../types'
+import { validateConfig } from './config-schema'
+
+/**
+ * Name of the project configuration file
+ */
+export const PROJECT_CONFIG_FILE = '.reactrefactorrc.json'
+
+/**
+ * Key of the project configuration in package.json
+ */
+export const PACKAGE_JSON_KEY = 'reactRefactor'
+
+/**
+ * Problem of a project configuration file, at a range of its text
+ */
+export interface ProjectConfigProblem {
+        message: string
+        range: TextRange
+}
+
+/**
+ * Options read from a project configuration file, without the invalid ones
+ */
+export interface ProjectConfig {
+        fileName: string
+        options: Partial<EngineOptions>
+        problems: ProjectConfigProblem[]
+}
+
+/**
+ * Find the nearest project configuration, from a directory up to the root:
+ * a `.reactrefactorrc.json` file, or a package.json with a `reactRefactor` key
+ */
+export function findProjectConfig(fromDir: string): string | undefined {
+        let dir = path.resolve(fromDir)
+        while (true) {
+                const configPath = path.join(dir, PROJECT_CONFIG_FILE)
+                if (existsSync(configPath)) {
+                        return configPath
+                }
+                const packagePath = path.join(dir, 'package.json')
+                if (existsSync(packagePath) && hasPackageConfig(packagePath)) {
+                        return packagePath
+                }
+                const parent = path.dirname(dir)
+                if (parent === dir) {
+                        return undefined
+                }
+                dir = parent
+        }
+}
+
+/**
+ * Read and validate a project configuration file
+ * @param fileName
+ * @param text content of the file, read from disk by default
+ */
+export function readProjectConfig(
+        fileName: string,
+        text: string = readFileSync(fileName, 'utf8'),
+): ProjectConfig {
+        let root: JsonNode
+        try {
+                root = parseJson(text)
+        } catch (error) {
+                if (!(error instanceof JsonSyntaxError)) {
+                        throw error
+                }
+                return {
+                        fileName,
+                        options: {},
+                        problems: [
+                                {
+                                        message: error.message,
+                                        range: {
+                                                start: error.offset,
+                                                end: error.offset + 1,
+                                        },
+                                },
+                        ],
+                }
+        }
+
+        const configNode =
+                path.basename(fileName) === 'package.json'
+                        ? findJsonProperty(root, PACKAGE_JSON_KEY)?.node
+                        : root
+        if (!configNode) {
+                return { fileName, options: {}, problems: [] }
+        }
+
+        const problems = validateConfig(configNode.value)
+        const config = { ...(configNode.value as Record<string, unknown>) }
+        problems.forEach(({ path: [key] }) => {
+                if (key !== undefined) {
+                        delete config[key]
+                }
+        })
+        return {
+                fileName,
+                options: problems.some(({ path }) => !path.length)
+                        ? {}
+                        : toEngineOptions(config),
+                problems: problems.map((problem) => ({
+                        message: problem.message,
+                        range: locateProblem(
+                                configNode,
+                                problem.path,
+                                problem.unknownProperty,
+                        ),
+                })),
+        }
+}
+
+/**
+ * Load the options of the nearest project configuration, which must be
+ * valid
+ */
+export function loadProjectConfig(fromDir: string): Partial<EngineOptions> {
+        const configPath = findProjectConfig(fromDir)
+        if (!configPath) {
+                return {}
+        }
+
+        let text: string
+        try {
+                text = readFileSync(configPath, 'utf8')
+        } catch (error) {
+                throw new RefactoringError(
+                        ErrorCode.INVALID_CONFIG,
+                        `Cannot read ${configPath}`,
+                        error instanceof Error ? error : undefined,
+                )
+        }
+
+        const { options, problems } = readProjectConfig(configPath, text)
+        const [problem] = problems
+        if (problem) {
+                const location = new LinesAndColumns(text).locationForIndex(
+                        problem.range.start,
+                )
+                throw new RefactoringError(
+                        ErrorCode.INVALID_CONFIG,
+                        `Invalid ${path.basename(configPath)}: ${problem.message}`,
+                        undefined,
+                        location
+                                ? {
+                                          fileName: configPath,
+                                          line: location.line + 1,
+                                          column: location.column + 1,
+                                  }
+                                : undefined,
+                )
+        }
+        return options
+}
+
+/**
+ * Read the known engine options of a configuration object
+ */
+export function toEngineOptions(
+        config: Record<string, unknown>,
+): Partial<EngineOptions> {
+        const options: Partial<EngineOptions> = {}
+        if (config.functionType !== undefined) {
+                options.functionType =
+                        config.functionType as EngineOptions['functionType']
+        }
+        if (config.fragmentSyntax !== undefined) {
+                options.fragmentSyntax =
+                        config.fragmentSyntax as EngineOptions['fragmentSyntax']
+        }
+        if (config.propsTyping !== undefined) {
+                options.propsTyping =
+                        config.propsTyping as EngineOptions['propsTyping']
+        }
+        if (config.fileNaming !== undefined) {
+                options.fileNaming =
+                        config.fileNaming as EngineOptions['fileNaming']
+        }
+        if (typeof config.templatesDirectory === 'string') {
+                options.templatesDirectory = config.templatesDirectory
+        }
+        if (typeof config.babelPlugins === 'string') {
+                options.babelPlugins = parseBabelPlugins(config.babelPlugins)
+        } else if (Array.isArray(config.babelPlugins)) {
+                options.babelPlugins = config.babelPlugins.map(String)
+        }
+        return options
+}
+
+/**
+ * Check whether a package.json has a `reactRefactor` key
+ */
+function hasPackageConfig(packagePath: string): boolean {
+        try {
+                const manifest = JSON.parse(readFileSync(packagePath, 'utf8'))
+                return manifest?.[PACKAGE_JSON_KEY] !== undefined
+        } catch {
+                return false
+        }
+}
+
+/**
+ * Range of the value at a path of the configuration, or of its key when
+ * the key is the problem
+ */
+function locateProblem(
+        configNode: JsonNode,
+        problemPath: string[],
+        onKey = false,
+): TextRange {
+        let node = configNode
+        let keyRange: TextRange | undefined
+        for (const segment of problemPath) {
+                const property = findJsonProperty(node, segment)
+                const child = property?.node ?? node.items?.[Number(segment)]
+                if (!child) {
+                        break
+                }
+                keyRange = property?.keyRange
+                node = child
+        }
+        return onKey && keyRange ? keyRange : node.range
+}
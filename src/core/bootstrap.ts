@@ -2,17 +2,15 @@
  * Bootstrap - Initialize dependency injection container
  */
 
-import { ComponentGeneratorFactory } from '../core/factories/component-generator-factory'
-import {
-        ExtractToComponentStrategy,
-        ExtractToFileStrategy,
-} from '../core/strategies/refactoring-strategy'
-import { BabelService } from '../services/abstractions/babel-service'
+import * as path from 'node:path'
+import { ConfigService } from '../config'
+import { registerEngineServices } from '../core/engine'
 import { VSCodeService } from '../services/abstractions/vscode-service'
-import { ASTService } from '../services/ast-service'
 import { RefactoringService } from '../services/refactoring-service'
 import type { IServiceContainer } from '../types'
+import { EngineWorkerClient } from '../worker/worker-client'
 import { ServiceContainer, ServiceKeys } from './di/container'
+import type { RefactoringEngine } from './engine'
 
 /**
  * Initialize and configure the dependency injection container
@@ -27,87 +25,45 @@ export function bootstrap(): IServiceContainer {
         container.registerSingleton(ServiceKeys.VSCodeService, () => {
                 return new VSCodeService()
         })
+        const vscodeService = container.get<VSCodeService>(
+                ServiceKeys.VSCodeService,
+        )
 
-        // Register Babel service (singleton)
-        container.registerSingleton(ServiceKeys.BabelService, () => {
-                return new BabelService()
-        })
-
-        // Register AST service (singleton)
-        container.registerSingleton(ServiceKeys.ASTService, () => {
-                const babelService = container.get<
-                        import('../services/abstractions/babel-service').BabelService
-                >(ServiceKeys.BabelService)
-                return new ASTService(babelService)
+        // Register config service (singleton)
+        container.registerSingleton(ServiceKeys.ConfigService, () => {
+                return new ConfigService()
         })
+        const configService = container.get<ConfigService>(
+                ServiceKeys.ConfigService,
+        )
 
-        // Register component generator factory (singleton)
-        container.registerSingleton(
-                ServiceKeys.ComponentGeneratorFactory,
-                () => {
-                        return new ComponentGeneratorFactory()
-                },
+        // Register the engine, parsing with the Babel plugins of the active
+        // document
+        registerEngineServices(container, () =>
+                configService.getParserOptions(
+                        vscodeService.getActiveEditor()?.document,
+                ),
         )
 
-        // Register refactoring strategies
-        container.register(`${ServiceKeys.RefactoringStrategy}.extract`, () => {
-                const astService = container.get<
-                        import('../services/ast-service').ASTService
-                >(ServiceKeys.ASTService)
-                const componentFactory = container.get<
-                        import('../core/factories/component-generator-factory').ComponentGeneratorFactory
-                >(ServiceKeys.ComponentGeneratorFactory)
-                const vscodeService = container.get<
-                        import('../services/abstractions/vscode-service').VSCodeService
-                >(ServiceKeys.VSCodeService)
-                return new ExtractToComponentStrategy(
-                        astService,
-                        componentFactory,
-                        vscodeService,
-                )
+        // Register the worker parsing documents off the extension host thread
+        container.registerSingleton(ServiceKeys.EngineWorker, () => {
+                return new EngineWorkerClient(path.join(__dirname, 'worker.js'))
         })
-
-        container.register(
-                `${ServiceKeys.RefactoringStrategy}.extractToFile`,
-                () => {
-                        const astService = container.get<
-                                import('../services/ast-service').ASTService
-                        >(ServiceKeys.ASTService)
-                        const componentFactory = container.get<
-                                import('../core/factories/component-generator-factory').ComponentGeneratorFactory
-                        >(ServiceKeys.ComponentGeneratorFactory)
-                        const vscodeService = container.get<
-                                import('../services/abstractions/vscode-service').VSCodeService
-                        >(ServiceKeys.VSCodeService)
-                        return new ExtractToFileStrategy(
-                                astService,
-                                componentFactory,
-                                vscodeService,
-                        )
-                },
+        const engineWorker = container.get<EngineWorkerClient>(
+                ServiceKeys.EngineWorker,
         )
 
         // Register refactoring service (singleton)
         container.registerSingleton('refactoring.service', () => {
-                const vscodeService = container.get<
-                        import('../services/abstractions/vscode-service').VSCodeService
-                >(ServiceKeys.VSCodeService)
-                const astService = container.get<
-                        import('../services/ast-service').ASTService
-                >(ServiceKeys.ASTService)
-                const extractStrategy =
-                        container.get<ExtractToComponentStrategy>(
-                                `${ServiceKeys.RefactoringStrategy}.extract`,
-                        )
-                const extractToFileStrategy =
-                        container.get<ExtractToFileStrategy>(
-                                ServiceKeys.RefactoringStrategy +
-                                        '.extractToFile',
-                        )
-                return new RefactoringService(vscodeService, astService, [
-                        extractStrategy,
-                        extractToFileStrategy,
-                ])
+                const engine = container.get<RefactoringEngine>(
+                        ServiceKeys.RefactoringEngine,
+                )
+                return new RefactoringService(
+                        vscodeService,
+                        engine,
+                        configService,
+                        engineWorker,
+                )
         })
 
         return container
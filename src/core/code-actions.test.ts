@@ -0,0 +1,143 @@
+import { describe, expect, test } from 'bun:test'
+import type { RefactoringAvailability } from '../types'
+import {
+        CONVERT_COMPONENT_ACTIONS,
+        getRefactoringActions,
+        NO_CURSOR_TARGETS,
+        REFACTORING_ACTIONS,
+} from './code-actions'
+
+/**
+ * Availability of the selections starting and ending at a tag
+ */
+const availability: RefactoringAvailability = {
+        isCodeActionAvailable: (code) => /^<[\s\S]*>$/.test(code.trim()),
+        isHookExtractionAvailable: (code) => /\buse[A-Z]\w*\(/.test(code),
+}
+
+function getActions(code: string, text: string, targets = NO_CURSOR_TARGETS) {
+        const start = code.indexOf(text)
+        return getRefactoringActions(
+                availability,
+                targets,
+                code,
+                start,
+                start + text.length,
+        )
+}
+
+describe('getRefactoringActions', () => {
+        const code = `const App = ({ items }) => {
+  const [open] = useState(false)
+  return <ul className="list">{items.map((item) => <li>{item}</li>)}</ul>
+}
+`
+
+        test('offers the extractions of selected JSX with their kinds', () => {
+                expect(
+                        getActions(code, '<li>{item}</li>').map(
+                                ({ kind }) => kind,
+                        ),
+                ).toEqual([
+                        'refactor.extract.component.function',
+                        'refactor.extract.component.class',
+                        'refactor.extract.component.file',
+                        'refactor.extract.component.wrapper',
+                ])
+                expect(
+                        getActions(code, 'const [open] = useState(false)'),
+                ).toEqual([REFACTORING_ACTIONS.extractToHook])
+        })
+
+        test('offers the refactorings of the cursor targets', () => {
+                expect(
+                        getActions(code, '', {
+                                componentTag: true,
+                                mapCallback: true,
+                                componentType: 'arrowFunction',
+                        }),
+                ).toEqual([
+                        REFACTORING_ACTIONS.inlineComponent,
+                        REFACTORING_ACTIONS.extractMapItem,
+                        CONVERT_COMPONENT_ACTIONS.function,
+                        CONVERT_COMPONENT_ACTIONS.class,
+                ])
+                expect(
+                        getActions(code, '', {
+                                ...NO_CURSOR_TARGETS,
+                                componentType: 'class',
+                        }),
+                ).toEqual([
+                        REFACTORING_ACTIONS.convertClassToFunction,
+                        CONVERT_COMPONENT_ACTIONS.arrowFunction,
+                ])
+        })
+
+        test('extracts the JSX a selection or cursor expands to', () => {
+                const start = code.indexOf('{item}')
+                const expansion = {
+                        range: { start: start - 4, end: start + 11 },
+                        label: '<li>',
+                }
+                const actions = getRefactoringActions(
+                        availability,
+                        NO_CURSOR_TARGETS,
+                        code,
+                        start,
+                        start,
+                        expansion,
+                )
+
+                expect(actions.map(({ title }) => title)).toEqual([
+                        'Extract <li> to Functional Component',
+                        'Extract <li> to Class Component',
+                        'Extract <li> to New File',
+                        'Extract <li> as Wrapper (Keep Children)',
+                ])
+                expect(
+                        actions.every(({ range }) => range === expansion.range),
+                ).toBe(true)
+                expect(
+                        getRefactoringActions(
+                                availability,
+                                NO_CURSOR_TARGETS,
+                                code,
+                                start,
+                                start + 3,
+                                expansion,
+                        ),
+                ).toEqual(actions)
+        })
+
+        test('disables the extractions of incomplete JSX with a reason', () => {
+                const reasonOf = (text: string) =>
+                        getActions(code, text).map(({ disabled }) => disabled)
+
+                expect(reasonOf('return <ul className="list">')).toEqual(
+                        Array(4).fill(
+                                'The selection must start at the opening tag of a JSX element',
+                        ),
+                )
+                expect(reasonOf('<li>{item}</li>)')).toEqual(
+                        Array(4).fill(
+                                'The selection must end at the closing tag of a JSX element',
+                        ),
+                )
+                expect(
+                        reasonOf(
+                                '<ul className="list">{items.map((item) => <li>{item}</li>)}',
+                        ),
+                ).toEqual(
+                        Array(4).fill(
+                                'The selection must cover whole JSX elements, with their closing tags',
+                        ),
+                )
+                expect(reasonOf('const App')).toEqual([])
+                expect(
+                        getActions(
+                                'const a: Array<string> = []',
+                                'Array<string>',
+                        ),
+                ).toEqual([])
+        })
+})
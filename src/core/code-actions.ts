@@ -0,0 +1,203 @@
+/**
+ * Code Actions - Refactorings offered for a selection, shared by the editor integrations
+ */
+
+import type {
+        ComponentType,
+        CursorTargets,
+        JSXSelection,
+        RefactoringAction,
+        RefactoringAvailability,
+} from '../types'
+
+const COMMAND_PREFIX = 'extension.react-refactor.'
+
+/**
+ * Refactorings offered as code actions, besides component conversions
+ */
+export const REFACTORING_ACTIONS: Record<
+        | 'inlineComponent'
+        | 'extractMapItem'
+        | 'convertClassToFunction'
+        | 'extractToFunction'
+        | 'extractToClass'
+        | 'extractToFile'
+        | 'extractWrapper'
+        | 'extractToHook',
+        RefactoringAction
+> = {
+        inlineComponent: {
+                command: `${COMMAND_PREFIX}inlineComponent`,
+                title: 'Inline Component',
+                kind: 'refactor.inline.component',
+        },
+        extractMapItem: {
+                command: `${COMMAND_PREFIX}extractMapItem`,
+                title: 'Extract List Item Component',
+                kind: 'refactor.extract.component.listItem',
+        },
+        convertClassToFunction: {
+                command: `${COMMAND_PREFIX}convertClassToFunction`,
+                title: 'Convert to Function Component',
+                kind: 'refactor.rewrite.component.classToFunction',
+        },
+        extractToFunction: {
+                command: `${COMMAND_PREFIX}extractToFunction`,
+                title: 'Extract JSX to Functional Component',
+                kind: 'refactor.extract.component.function',
+        },
+        extractToClass: {
+                command: `${COMMAND_PREFIX}extractToClass`,
+                title: 'Extract JSX to Class Component',
+                kind: 'refactor.extract.component.class',
+        },
+        extractToFile: {
+                command: `${COMMAND_PREFIX}extractToFile`,
+                title: 'Extract JSX to New File',
+                kind: 'refactor.extract.component.file',
+        },
+        extractWrapper: {
+                command: `${COMMAND_PREFIX}extractWrapper`,
+                title: 'Extract as Wrapper (Keep Children)',
+                kind: 'refactor.extract.component.wrapper',
+        },
+        extractToHook: {
+                command: `${COMMAND_PREFIX}extractToHook`,
+                title: 'Extract to Custom Hook',
+                kind: 'refactor.extract.hook',
+        },
+}
+
+/**
+ * Code actions converting a component to each form
+ */
+export const CONVERT_COMPONENT_ACTIONS: Record<
+        ComponentType,
+        RefactoringAction
+> = {
+        function: {
+                command: `${COMMAND_PREFIX}convertToFunction`,
+                title: 'Convert to Function Declaration',
+                kind: 'refactor.rewrite.component.function',
+        },
+        arrowFunction: {
+                command: `${COMMAND_PREFIX}convertToArrowFunction`,
+                title: 'Convert to Arrow Function',
+                kind: 'refactor.rewrite.component.arrowFunction',
+        },
+        class: {
+                command: `${COMMAND_PREFIX}convertToClass`,
+                title: 'Convert to Class Component',
+                kind: 'refactor.rewrite.component.class',
+        },
+}
+
+/**
+ * Targets of a cursor whose document does not parse
+ */
+export const NO_CURSOR_TARGETS: CursorTargets = {
+        componentTag: false,
+        mapCallback: false,
+}
+
+/**
+ * Refactorings available for the selection between two offsets of the code,
+ * extracting the JSX the selection expands to when it is not extractable
+ * @param targets refactoring targets at the selection start
+ */
+export function getRefactoringActions(
+        availability: RefactoringAvailability,
+        targets: CursorTargets,
+        code: string,
+        start: number,
+        end: number,
+        expansion?: JSXSelection,
+): RefactoringAction[] {
+        const actions: RefactoringAction[] = []
+        if (targets.componentTag) {
+                actions.push(REFACTORING_ACTIONS.inlineComponent)
+        }
+
+        if (targets.mapCallback) {
+                actions.push(REFACTORING_ACTIONS.extractMapItem)
+        }
+
+        const { componentType } = targets
+        if (componentType === 'class') {
+                // Class components become functions with hooks
+                actions.push(REFACTORING_ACTIONS.convertClassToFunction)
+                actions.push(CONVERT_COMPONENT_ACTIONS.arrowFunction)
+        } else if (componentType) {
+                Object.entries(CONVERT_COMPONENT_ACTIONS).forEach(
+                        ([type, action]) => {
+                                if (type !== componentType) {
+                                        actions.push(action)
+                                }
+                        },
+                )
+        }
+
+        const extractActions = [
+                REFACTORING_ACTIONS.extractToFunction,
+                REFACTORING_ACTIONS.extractToClass,
+                REFACTORING_ACTIONS.extractToFile,
+                REFACTORING_ACTIONS.extractWrapper,
+        ]
+        const expandedActions = expansion
+                ? extractActions.map((action) => ({
+                          ...action,
+                          title: action.title.replace(
+                                  /^Extract( JSX)?/,
+                                  `Extract ${expansion.label}`,
+                          ),
+                          range: expansion.range,
+                  }))
+                : []
+        if (start === end) {
+                actions.push(...expandedActions)
+                return actions
+        }
+
+        const selectedText = code.slice(start, end)
+        if (availability.isCodeActionAvailable(selectedText)) {
+                actions.push(...extractActions)
+        } else if (expansion) {
+                actions.push(...expandedActions)
+        } else {
+                // Explain why a selection that looks like JSX is not offered
+                const reason = getIncompleteJSXReason(selectedText)
+                if (reason) {
+                        actions.push(
+                                ...extractActions.map((action) => ({
+                                        ...action,
+                                        disabled: reason,
+                                })),
+                        )
+                }
+        }
+
+        if (availability.isHookExtractionAvailable(selectedText)) {
+                actions.push(REFACTORING_ACTIONS.extractToHook)
+        }
+
+        return actions
+}
+
+/**
+ * Why a selection looking like JSX can not be extracted, or undefined when
+ * it does not look like JSX
+ */
+function getIncompleteJSXReason(text: string): string | undefined {
+        const trimmed = text.trim()
+        // Tags in expression position, not type arguments like `Array<string>`
+        if (!/(^|[\s(){}=?:,>])<\/?[A-Za-z>]/.test(trimmed)) {
+                return undefined
+        }
+        if (!trimmed.startsWith('<') && !trimmed.startsWith('{')) {
+                return 'The selection must start at the opening tag of a JSX element'
+        }
+        if (!trimmed.endsWith('>') && !trimmed.endsWith('}')) {
+                return 'The selection must end at the closing tag of a JSX element'
+        }
+        return 'The selection must cover whole JSX elements, with their closing tags'
+}
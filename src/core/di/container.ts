@@ -88,9 +88,13 @@ export class ServiceContainer implements IServiceContainer {
  */
 export const ServiceKeys = {
         VSCodeService: 'vscode.service',
+        ConfigService: 'config.service',
         BabelService: 'babel.service',
         ASTService: 'ast.service',
+        TypeService: 'type.service',
         ComponentGeneratorFactory: 'component.generator.factory',
         RefactoringStrategy: 'refactoring.strategy',
+        RefactoringEngine: 'refactoring.engine',
+        EngineWorker: 'engine.worker',
         Container: 'container',
 } as const
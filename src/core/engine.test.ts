@@ -0,0 +1,193 @@
+import { describe, expect, test } from 'bun:test'
+import type { ExtractionContext, RefactoringType } from '../types'
+import { ErrorCode } from '../types'
+import { createEngine, DEFAULT_ENGINE_OPTIONS, extract } from './engine'
+
+const { babelPlugins: _, ...defaults } = DEFAULT_ENGINE_OPTIONS
+
+/**
+ * Untyped props, so that no TypeScript program is created
+ */
+const options = { ...defaults, propsTyping: 'none' as const }
+
+const engine = createEngine()
+
+function select(code: string, text: string) {
+        const start = code.indexOf(text)
+        if (start < 0) throw new Error(`'${text}' is not in the code`)
+        return { start, end: start + text.length }
+}
+
+async function refactor(
+        type: RefactoringType,
+        code: string,
+        range: { start: number; end: number },
+        context: Partial<ExtractionContext> = {},
+) {
+        const result = await engine.run(type, {
+                name: 'Component',
+                code,
+                ...range,
+                produceClass: false,
+                options,
+                ...context,
+        })
+        return { ...result, output: engine.applyEdits(code, result.edits) }
+}
+
+describe('RefactoringEngine', () => {
+        test('extracts through the public extract function', async () => {
+                const code = 'const App = () => <main><h1>Hi</h1></main>\n'
+                const result = await extract(
+                        code,
+                        select(code, '<h1>Hi</h1>'),
+                        {
+                                name: 'Heading',
+                                fileName: 'App.jsx',
+                        },
+                )
+
+                const output = engine.applyEdits(code, result.edits)
+                expect(output).toContain('function Heading() {')
+                expect(output).toContain(
+                        'const App = () => <main><Heading></Heading></main>',
+                )
+        })
+
+        test('separates an inserted component by single blank lines', async () => {
+                const code = `import React from 'react'
+
+export function App({ user }) {
+  return <h1>{user.name}</h1>
+}
+`
+                const { output } = await refactor(
+                        'extract',
+                        code,
+                        select(code, '<h1>{user.name}</h1>'),
+                        { name: 'Title' },
+                )
+
+                expect(output).toBe(`import React from 'react'
+
+function Title(props) {
+  return (
+    <h1>{props.name}</h1>
+  );
+}
+
+export function App({ user }) {
+  return <Title name={user.name}></Title>
+}
+`)
+        })
+
+        test('adds blank lines around a component inserted between lines', async () => {
+                const code = `import React from 'react'
+export const App = ({ user }) => <h1>{user.name}</h1>
+`
+                const { output } = await refactor(
+                        'extract',
+                        code,
+                        select(code, '<h1>{user.name}</h1>'),
+                        { name: 'Title' },
+                )
+
+                expect(output).toBe(`import React from 'react'
+
+function Title(props) {
+    return (
+        <h1>{props.name}</h1>
+    );
+}
+
+export const App = ({ user }) => <Title name={user.name}></Title>
+`)
+        })
+})
+
+describe('getEditedRanges', () => {
+        test('locates the inserted text in the edited code', () => {
+                const code = 'const a = 1\nconst b = 2\n'
+                const edits = [
+                        {
+                                range: select(code, '2'),
+                                newText: 'a + 1',
+                        },
+                        {
+                                range: { start: 0, end: 0 },
+                                newText: '// Values\n',
+                        },
+                        {
+                                range: select(code, 'const a = 1\n'),
+                                newText: '',
+                        },
+                ]
+                const output = engine.applyEdits(code, edits)
+
+                expect(output).toBe('// Values\nconst b = a + 1\n')
+                expect(
+                        engine
+                                .getEditedRanges(edits)
+                                .map(({ start, end }) =>
+                                        output.slice(start, end),
+                                ),
+                ).toEqual(['// Values\n', 'a + 1'])
+        })
+})
+
+describe('validate', () => {
+        const code = `import { Badge } from './Badge'
+
+export const App = ({ user }) => <Badge user={user} />
+`
+        const replace = (text: string, newText: string) => [
+                { range: select(code, text), newText },
+        ]
+
+        test('rejects edits producing code that does not parse', () => {
+                expect(() =>
+                        engine.validate(
+                                code,
+                                replace('<Badge user={user} />', '<Badge>'),
+                                'App.jsx',
+                        ),
+                ).toThrow(
+                        expect.objectContaining({
+                                code: ErrorCode.INVALID_OUTPUT,
+                                location: expect.objectContaining({
+                                        fileName: 'App.jsx',
+                                        line: 3,
+                                }),
+                        }),
+                )
+        })
+
+        test('rejects edits leaving a name undefined', () => {
+                expect(() =>
+                        engine.validate(
+                                code,
+                                replace(
+                                        "import { Badge } from './Badge'\n",
+                                        '',
+                                ),
+                        ),
+                ).toThrow("The refactoring would leave 'Badge' undefined")
+        })
+
+        test('accepts names unbound before the edits and type names', () => {
+                const typed = `export const App = ({ user }: Props) => {
+  console.log(user)
+  return <p>{user.name}</p>
+}
+`
+                expect(() =>
+                        engine.validate(typed, [
+                                {
+                                        range: select(typed, 'Props'),
+                                        newText: '{ user: User }',
+                                },
+                        ]),
+                ).not.toThrow()
+        })
+})
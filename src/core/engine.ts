@@ -0,0 +1,522 @@
+/**
+ * Refactoring Engine - Run refactorings on source text, independently of the editor
+ */
+
+import { ComponentGeneratorFactory } from '../core/factories/component-generator-factory'
+import { ConvertClassToFunctionStrategy } from '../core/strategies/convert-class-strategy'
+import { ConvertComponentTypeStrategy } from '../core/strategies/convert-component-type-strategy'
+import { ExtractMapItemStrategy } from '../core/strategies/extract-map-item-strategy'
+import { InlineComponentStrategy } from '../core/strategies/inline-component-strategy'
+import {
+        ExtractToComponentStrategy,
+        ExtractToFileStrategy,
+        ExtractToHookStrategy,
+} from '../core/strategies/refactoring-strategy'
+import {
+        detectParserPlugins,
+        resolveParserPlugins,
+} from '../lib/parser-plugins'
+import { DEFAULT_TEMPLATES_DIRECTORY } from '../lib/templates'
+import { BabelService } from '../services/abstractions/babel-service'
+import { ASTService } from '../services/ast-service'
+import { TypeService } from '../services/type-service'
+import type {
+        EngineOptions,
+        EngineResult,
+        ExtractionContext,
+        ExtractOptions,
+        IASTService,
+        IRefactoringStrategy,
+        IServiceContainer,
+        NewFile,
+        ParserOptions,
+        RefactoringType,
+        RefactorResult,
+        TextEdit,
+        TextRange,
+} from '../types'
+import { ErrorCode, RefactoringError } from '../types'
+import { ServiceContainer, ServiceKeys } from './di/container'
+
+/**
+ * Options used when the host does not provide them
+ */
+export const DEFAULT_ENGINE_OPTIONS: EngineOptions = {
+        functionType: 'function',
+        fragmentSyntax: 'short',
+        propsTyping: 'interface',
+        fileNaming: 'PascalCase',
+        templatesDirectory: DEFAULT_TEMPLATES_DIRECTORY,
+        babelPlugins: [],
+}
+
+/**
+ * Split a comma separated list of Babel parser plugins
+ */
+export const parseBabelPlugins = (value: string): string[] =>
+        value
+                .split(',')
+                .map((plugin) => plugin.trim())
+                .filter((plugin) => !!plugin)
+
+/**
+ * Refactoring engine running strategies and validating their output
+ */
+export class RefactoringEngine {
+        constructor(
+                private readonly astService: IASTService,
+                private readonly strategies: IRefactoringStrategy[],
+        ) {}
+
+        /**
+         * Run a refactoring and return all of its edits to the source document
+         *
+         * A refactoring reporting issues returns them without edits, as its
+         * output is incomplete.
+         */
+        async run(
+                type: RefactoringType,
+                context: ExtractionContext,
+        ): Promise<EngineResult> {
+                const result = await this.getStrategy(type).execute(context)
+                if (result.issues?.length) {
+                        return {
+                                ...result,
+                                edits: [],
+                                props: result.props ?? [],
+                        }
+                }
+
+                const edits = this.getSourceEdits(context, result)
+                this.validate(
+                        context.code,
+                        edits,
+                        context.fileName,
+                        result.newFile,
+                )
+
+                return {
+                        ...result,
+                        edits,
+                        props: result.props ?? [],
+                }
+        }
+
+        /**
+         * Check that the edited code and new file parse, and do not reference
+         * names that were bound before the refactoring
+         */
+        validate(
+                code: string,
+                edits: TextEdit[],
+                fileName?: string,
+                newFile?: NewFile,
+        ): void {
+                const knownUnbound = new Set(
+                        this.astService
+                                .findUnboundIdentifiers(
+                                        this.astService.codeToAst(code),
+                                )
+                                .map((node) => node.name),
+                )
+
+                const outputs = [
+                        { fileName, code: this.applyEdits(code, edits) },
+                ]
+                if (newFile) {
+                        outputs.push({
+                                fileName: newFile.fileName,
+                                code: newFile.content,
+                        })
+                }
+
+                outputs.forEach((output) => {
+                        let ast: ReturnType<IASTService['codeToAst']>
+                        try {
+                                ast = this.astService.codeToAst(output.code)
+                        } catch (error) {
+                                const loc = (
+                                        (error as RefactoringError)
+                                                .originalError as {
+                                                loc?: {
+                                                        line: number
+                                                        column: number
+                                                }
+                                        }
+                                )?.loc
+                                throw new RefactoringError(
+                                        ErrorCode.INVALID_OUTPUT,
+                                        `The refactoring would produce code that does not parse${this.formatLocation(loc)}`,
+                                        error instanceof Error
+                                                ? error
+                                                : undefined,
+                                        loc && {
+                                                fileName: output.fileName,
+                                                line: loc.line,
+                                                column: loc.column + 1,
+                                        },
+                                )
+                        }
+
+                        const unbound = this.astService
+                                .findUnboundIdentifiers(ast)
+                                .find((node) => !knownUnbound.has(node.name))
+                        if (unbound) {
+                                const loc = unbound.loc?.start
+                                throw new RefactoringError(
+                                        ErrorCode.INVALID_OUTPUT,
+                                        `The refactoring would leave '${unbound.name}' undefined${this.formatLocation(loc)}`,
+                                        undefined,
+                                        loc && {
+                                                fileName: output.fileName,
+                                                line: loc.line,
+                                                column: loc.column + 1,
+                                        },
+                                )
+                        }
+                })
+        }
+
+        /**
+         * Apply offset based edits to a text, keeping the order of edits
+         * inserted at the same offset
+         */
+        applyEdits(code: string, edits: TextEdit[]): string {
+                return edits
+                        .map((edit, index) => ({ edit, index }))
+                        .sort(
+                                (a, b) =>
+                                        b.edit.range.start -
+                                                a.edit.range.start ||
+                                        b.index - a.index,
+                        )
+                        .reduce(
+                                (text, { edit }) =>
+                                        text.slice(0, edit.range.start) +
+                                        edit.newText +
+                                        text.slice(edit.range.end),
+                                code,
+                        )
+        }
+
+        /**
+         * Ranges of the text inserted by the edits, in the edited code
+         */
+        getEditedRanges(edits: TextEdit[]): TextRange[] {
+                let shift = 0
+                return edits
+                        .map((edit, index) => ({ edit, index }))
+                        .sort(
+                                (a, b) =>
+                                        a.edit.range.start -
+                                                b.edit.range.start ||
+                                        a.index - b.index,
+                        )
+                        .map(({ edit: { range, newText } }) => {
+                                const start = range.start + shift
+                                shift +=
+                                        newText.length -
+                                        (range.end - range.start)
+                                return { start, end: start + newText.length }
+                        })
+                        .filter(({ start, end }) => end > start)
+        }
+
+        /**
+         * Edits to the source document of a refactoring result: the
+         * replacement of the selection, the inserted component and any
+         * additional edit
+         */
+        private getSourceEdits(
+                context: ExtractionContext,
+                result: RefactorResult,
+        ): TextEdit[] {
+                // Additional edits, like imports, come before a component
+                // inserted at the same offset
+                const sourceEdits: TextEdit[] = [
+                        {
+                                range: result.replaceRange ?? {
+                                        start: context.start,
+                                        end: context.end,
+                                },
+                                newText: result.replaceJSXCode,
+                                label: 'Replace selected JSX with the component',
+                        },
+                        ...(result.edits ?? []),
+                ]
+                if (result.componentCode && !result.newFile) {
+                        // Insert on its own lines, before the line of insertAt,
+                        // separated from the code around by a single blank line
+                        const insertAt =
+                                context.code.lastIndexOf(
+                                        '\n',
+                                        result.insertAt - 1,
+                                ) + 1
+                        const declarations = [
+                                result.propsInterface,
+                                result.componentCode,
+                        ]
+                                .map((code) => code?.trim())
+                                .filter(Boolean)
+                                .join('\n\n')
+                        const before = context.code.slice(0, insertAt)
+                        const after = context.code.slice(insertAt)
+                        const blankBefore =
+                                !before.trim() || /\n[ \t]*\n$/.test(before)
+                        const blankAfter = /^[ \t]*(\n|$)/.test(after)
+                        sourceEdits.push({
+                                range: { start: insertAt, end: insertAt },
+                                newText: `${blankBefore ? '' : '\n'}${declarations}\n${blankAfter ? '' : '\n'}`,
+                                label: 'Insert extracted component',
+                        })
+                }
+                return sourceEdits
+        }
+
+        /**
+         * Describe a parser location in an error message
+         */
+        private formatLocation(loc?: { line: number; column: number }): string {
+                return loc
+                        ? ` (line ${loc.line}, column ${loc.column + 1})`
+                        : ''
+        }
+
+        /**
+         * Get the strategy handling a refactoring type
+         */
+        private getStrategy(type: RefactoringType): IRefactoringStrategy {
+                const strategy = this.strategies.find((s) => s.canHandle(type))
+                if (!strategy) {
+                        throw new RefactoringError(
+                                ErrorCode.EXTRACTION_ERROR,
+                                `No strategy found for type: ${type}`,
+                        )
+                }
+                return strategy
+        }
+}
+
+/**
+ * Register the editor independent services, strategies and the engine
+ */
+export function registerEngineServices(
+        container: IServiceContainer,
+        getParserOptions: () => ParserOptions,
+): void {
+        // Register Babel service (singleton)
+        container.registerSingleton(ServiceKeys.BabelService, () => {
+                return new BabelService(getParserOptions)
+        })
+
+        // Register AST service (singleton)
+        container.registerSingleton(ServiceKeys.ASTService, () => {
+                const babelService = container.get<BabelService>(
+                        ServiceKeys.BabelService,
+                )
+                return new ASTService(babelService)
+        })
+
+        // Register type service (singleton)
+        container.registerSingleton(ServiceKeys.TypeService, () => {
+                return new TypeService()
+        })
+
+        // Register component generator factory (singleton)
+        container.registerSingleton(
+                ServiceKeys.ComponentGeneratorFactory,
+                () => {
+                        return new ComponentGeneratorFactory()
+                },
+        )
+
+        // Register refactoring strategies
+        container.register(`${ServiceKeys.RefactoringStrategy}.extract`, () => {
+                const astService = container.get<ASTService>(
+                        ServiceKeys.ASTService,
+                )
+                const componentFactory =
+                        container.get<ComponentGeneratorFactory>(
+                                ServiceKeys.ComponentGeneratorFactory,
+                        )
+                const typeService = container.get<TypeService>(
+                        ServiceKeys.TypeService,
+                )
+                return new ExtractToComponentStrategy(
+                        astService,
+                        componentFactory,
+                        typeService,
+                )
+        })
+
+        container.register(
+                `${ServiceKeys.RefactoringStrategy}.extractToFile`,
+                () => {
+                        const astService = container.get<ASTService>(
+                                ServiceKeys.ASTService,
+                        )
+                        const componentFactory =
+                                container.get<ComponentGeneratorFactory>(
+                                        ServiceKeys.ComponentGeneratorFactory,
+                                )
+                        const typeService = container.get<TypeService>(
+                                ServiceKeys.TypeService,
+                        )
+                        return new ExtractToFileStrategy(
+                                astService,
+                                componentFactory,
+                                typeService,
+                        )
+                },
+        )
+
+        container.register(
+                `${ServiceKeys.RefactoringStrategy}.extractToHook`,
+                () => {
+                        const astService = container.get<ASTService>(
+                                ServiceKeys.ASTService,
+                        )
+                        const componentFactory =
+                                container.get<ComponentGeneratorFactory>(
+                                        ServiceKeys.ComponentGeneratorFactory,
+                                )
+                        return new ExtractToHookStrategy(
+                                astService,
+                                componentFactory,
+                        )
+                },
+        )
+
+        container.register(`${ServiceKeys.RefactoringStrategy}.inline`, () => {
+                const astService = container.get<ASTService>(
+                        ServiceKeys.ASTService,
+                )
+                const componentFactory =
+                        container.get<ComponentGeneratorFactory>(
+                                ServiceKeys.ComponentGeneratorFactory,
+                        )
+                return new InlineComponentStrategy(astService, componentFactory)
+        })
+
+        container.register(
+                `${ServiceKeys.RefactoringStrategy}.convertClassToFunction`,
+                () => {
+                        const astService = container.get<ASTService>(
+                                ServiceKeys.ASTService,
+                        )
+                        const componentFactory =
+                                container.get<ComponentGeneratorFactory>(
+                                        ServiceKeys.ComponentGeneratorFactory,
+                                )
+                        return new ConvertClassToFunctionStrategy(
+                                astService,
+                                componentFactory,
+                        )
+                },
+        )
+
+        container.register(
+                `${ServiceKeys.RefactoringStrategy}.convertComponentType`,
+                () => {
+                        const astService = container.get<ASTService>(
+                                ServiceKeys.ASTService,
+                        )
+                        const componentFactory =
+                                container.get<ComponentGeneratorFactory>(
+                                        ServiceKeys.ComponentGeneratorFactory,
+                                )
+                        return new ConvertComponentTypeStrategy(
+                                astService,
+                                componentFactory,
+                        )
+                },
+        )
+
+        container.register(
+                `${ServiceKeys.RefactoringStrategy}.extractMapItem`,
+                () => {
+                        const astService = container.get<ASTService>(
+                                ServiceKeys.ASTService,
+                        )
+                        const componentFactory =
+                                container.get<ComponentGeneratorFactory>(
+                                        ServiceKeys.ComponentGeneratorFactory,
+                                )
+                        const typeService = container.get<TypeService>(
+                                ServiceKeys.TypeService,
+                        )
+                        return new ExtractMapItemStrategy(
+                                astService,
+                                componentFactory,
+                                typeService,
+                        )
+                },
+        )
+
+        // Register refactoring engine (singleton)
+        container.registerSingleton(ServiceKeys.RefactoringEngine, () => {
+                const astService = container.get<ASTService>(
+                        ServiceKeys.ASTService,
+                )
+                return new RefactoringEngine(
+                        astService,
+                        [
+                                'extract',
+                                'extractToFile',
+                                'extractToHook',
+                                'inline',
+                                'convertClassToFunction',
+                                'convertComponentType',
+                                'extractMapItem',
+                        ].map((type) =>
+                                container.get<IRefactoringStrategy>(
+                                        `${ServiceKeys.RefactoringStrategy}.${type}`,
+                                ),
+                        ),
+                )
+        })
+}
+
+/**
+ * Create an engine parsing code with the given Babel plugins, TypeScript
+ * with JSX by default
+ */
+export function createEngine(
+        babelPlugins: string[] = detectParserPlugins({}).plugins,
+): RefactoringEngine {
+        const container = new ServiceContainer()
+        registerEngineServices(container, () => ({
+                plugins: babelPlugins,
+                sourceType: 'module',
+        }))
+        return container.get<RefactoringEngine>(ServiceKeys.RefactoringEngine)
+}
+
+/**
+ * Extract the JSX in a range of the source to a new component
+ */
+export async function extract(
+        source: string,
+        range: TextRange,
+        options: ExtractOptions,
+): Promise<EngineResult> {
+        const {
+                name,
+                fileName,
+                produceClass = false,
+                babelPlugins,
+                ...refactoringOptions
+        } = { ...DEFAULT_ENGINE_OPTIONS, ...options }
+
+        return createEngine(
+                resolveParserPlugins(babelPlugins, { fileName, code: source }),
+        ).run('extract', {
+                name,
+                code: source,
+                start: range.start,
+                end: range.end,
+                produceClass,
+                fileName,
+                options: refactoringOptions,
+        })
+}
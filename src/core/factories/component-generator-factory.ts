@@ -2,6 +2,10 @@
  * Component Generator Factory
  */
 
+import {
+        createTemplateGenerator,
+        findComponentTemplate,
+} from '../../lib/templates'
 import {
         generateArrowFunctionComponent,
         generateClassComponent,
@@ -18,9 +22,26 @@ import type {
  */
 export class ComponentGeneratorFactory implements IComponentGeneratorFactory {
         /**
-         * Create a component generator based on type
+         * Create a component generator based on type, from the project's
+         * template for the language of the file when there is one
          */
-        create(type: ComponentType): ComponentGenerator {
+        create(
+                type: ComponentType,
+                fileName?: string,
+                templatesDirectory?: string,
+        ): ComponentGenerator {
+                const templatePath =
+                        fileName &&
+                        templatesDirectory &&
+                        findComponentTemplate(
+                                type,
+                                fileName,
+                                templatesDirectory,
+                        )
+                if (templatePath) {
+                        return createTemplateGenerator(templatePath)
+                }
+
                 switch (type) {
                         case 'class':
                                 return generateClassComponent
@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'bun:test'
+import { BabelService } from '../services/abstractions/babel-service'
+import { ASTService } from '../services/ast-service'
+import { suggestComponentNames, validateComponentName } from './naming'
+
+const astService = new ASTService(new BabelService())
+
+const code = `const Card = () => null
+
+export function App({ users }) {
+  return (
+    <main>
+      <section className="user-card__title">
+        <h2>Save changes</h2>
+      </section>
+      <ul>{users.map((user) => <li key={user.id}>{user.name}</li>)}</ul>
+    </main>
+  )
+}
+`
+
+function suggest(from: string, to: string): string[] {
+        return suggestComponentNames(
+                astService,
+                code,
+                code.indexOf(from),
+                code.indexOf(to) + to.length,
+        )
+}
+
+describe('suggestComponentNames', () => {
+        test('suggests names from the attributes, heading and tag', () => {
+                expect(suggest('<section', '</section>')).toEqual([
+                        'UserCardTitle',
+                        'SaveChanges',
+                        'Section',
+                ])
+        })
+
+        test('suggests names from the mapped item', () => {
+                expect(suggest('<li', '</li>')).toEqual(['User', 'ListItem'])
+        })
+
+        test('suggests nothing while the code does not parse', () => {
+                expect(
+                        suggestComponentNames(astService, '<div>', 0, 5),
+                ).toEqual([])
+        })
+})
+
+describe('validateComponentName', () => {
+        test('rejects empty, reserved and lowercase names', () => {
+                expect(
+                        validateComponentName(astService, code, '').message,
+                ).toBe('Enter a component name')
+                expect(
+                        validateComponentName(astService, code, 'class')
+                                .message,
+                ).toBe("'class' is a reserved word or not a valid identifier")
+                expect(
+                        validateComponentName(astService, code, 'card').message,
+                ).toBe(
+                        "'card' must be PascalCase, starting with an uppercase letter",
+                )
+        })
+
+        test('offers a unique alternative to a declared name', () => {
+                expect(validateComponentName(astService, code, 'Card')).toEqual(
+                        {
+                                message: "'Card' is already declared in this module, use 'Card2'",
+                                alternative: 'Card2',
+                        },
+                )
+                expect(
+                        validateComponentName(astService, code, 'Profile'),
+                ).toEqual({})
+        })
+})
@@ -0,0 +1,309 @@
+/**
+ * Component Naming - Name suggestions from the selected JSX, and their checks
+ */
+
+import traverse, { type NodePath, type Scope } from '@babel/traverse'
+import * as t from '@babel/types'
+import type { DocumentVersion, IASTService } from '../types'
+import { normalizeComponentName } from '../utils'
+
+/**
+ * Attributes describing an element, by priority
+ */
+const NAMING_ATTRIBUTES = ['className', 'id', 'aria-label', 'data-testid']
+
+/**
+ * Component names for intrinsic elements whose tag is an abbreviation
+ */
+const TAG_NAMES: Record<string, string> = {
+        a: 'Link',
+        img: 'Image',
+        li: 'ListItem',
+        nav: 'Navigation',
+        ol: 'OrderedList',
+        p: 'Paragraph',
+        tr: 'TableRow',
+        ul: 'List',
+}
+
+/**
+ * Generic tags that say nothing about the content
+ */
+const GENERIC_TAGS = ['div', 'span']
+
+const MAX_SUGGESTIONS = 5
+
+/**
+ * Result of checking a component name
+ */
+export interface NameValidation {
+        /** Why the name can not be used */
+        message?: string
+        /** Unique name to use instead of a name already declared */
+        alternative?: string
+}
+
+/**
+ * Suggest component names for the selection: from the attributes of the
+ * selected element, its first heading, the variable being mapped and its
+ * tag, made unique in the module
+ */
+export function suggestComponentNames(
+        astService: IASTService,
+        code: string,
+        start: number,
+        end: number,
+        document?: DocumentVersion,
+): string[] {
+        let ast: t.File
+        try {
+                ast = astService.codeToAst(code, document)
+        } catch {
+                return []
+        }
+
+        const element = findNamedElement(astService, ast, start, end)
+        const candidates: string[] = []
+        if (element) {
+                candidates.push(...getAttributeNames(element.node))
+                const heading = findHeadingText(element)
+                if (heading) {
+                        candidates.push(toComponentName(heading))
+                }
+        }
+        candidates.push(...getMappedNames(ast, start, end))
+        if (element) {
+                const tag = getTagName(element.node)
+                if (tag) {
+                        candidates.push(tag)
+                }
+        }
+
+        const scope = getModuleScope(ast)
+        const names = new Set<string>()
+        candidates.forEach((candidate) => {
+                if (isComponentName(candidate)) {
+                        names.add(getUniqueName(scope, candidate))
+                }
+        })
+        return [...names].slice(0, MAX_SUGGESTIONS)
+}
+
+/**
+ * Check that a name can be declared as a component in the module, with a
+ * unique alternative when it is already declared
+ */
+export function validateComponentName(
+        astService: IASTService,
+        code: string,
+        name: string,
+        document?: DocumentVersion,
+): NameValidation {
+        if (!name) {
+                return { message: 'Enter a component name' }
+        }
+        if (!t.isValidIdentifier(name)) {
+                return {
+                        message: `'${name}' is a reserved word or not a valid identifier`,
+                }
+        }
+        if (!isComponentName(name)) {
+                return {
+                        message: `'${name}' must be PascalCase, starting with an uppercase letter`,
+                }
+        }
+
+        let ast: t.File
+        try {
+                ast = astService.codeToAst(code, document)
+        } catch {
+                return {}
+        }
+        const scope = getModuleScope(ast)
+        if (!scope.hasBinding(name)) {
+                return {}
+        }
+        const alternative = getUniqueName(scope, name)
+        return {
+                message: `'${name}' is already declared in this module, use '${alternative}'`,
+                alternative,
+        }
+}
+
+/**
+ * Element describing the selection: the selected element, the first of
+ * selected siblings, or the JSX of a selected condition
+ */
+function findNamedElement(
+        astService: IASTService,
+        ast: t.File,
+        start: number,
+        end: number,
+): NodePath<t.JSXElement> | undefined {
+        const selected =
+                astService.findSelectedJSXElement(ast, start, end) ??
+                astService
+                        .findSelectedJSXChildren(ast, start, end)
+                        .find((path) => path.isJSXElement())
+        if (selected?.isJSXElement()) {
+                return selected
+        }
+
+        const condition = astService.findSelectedJSXCondition(ast, start, end)
+        const expression = condition?.get('expression')
+        const branch = expression?.isLogicalExpression()
+                ? expression.get('right')
+                : expression?.isConditionalExpression()
+                  ? expression.get('consequent')
+                  : undefined
+        return branch?.isJSXElement() ? branch : undefined
+}
+
+/**
+ * Names from the string attributes describing an element
+ */
+function getAttributeNames(element: t.JSXElement): string[] {
+        return NAMING_ATTRIBUTES.flatMap((attributeName) => {
+                const attribute = element.openingElement.attributes.find(
+                        (attr): attr is t.JSXAttribute =>
+                                t.isJSXAttribute(attr) &&
+                                t.isJSXIdentifier(attr.name, {
+                                        name: attributeName,
+                                }),
+                )
+                const value = t.isJSXExpressionContainer(attribute?.value)
+                        ? attribute.value.expression
+                        : attribute?.value
+                const text = t.isStringLiteral(value)
+                        ? value.value
+                        : t.isTemplateLiteral(value)
+                          ? value.quasis[0]?.value.cooked
+                          : undefined
+                // The first class name is the most specific one
+                const words =
+                        attributeName === 'className'
+                                ? text?.trim().split(/\s+/)[0]
+                                : text
+                return words ? [toComponentName(words)] : []
+        })
+}
+
+/**
+ * Text of the first heading in an element
+ */
+function findHeadingText(element: NodePath<t.JSXElement>): string | undefined {
+        let text: string | undefined
+        const visit = (path: NodePath<t.JSXElement>) => {
+                const name = path.node.openingElement.name
+                if (t.isJSXIdentifier(name) && /^h[1-6]$/.test(name.name)) {
+                        text = path.node.children
+                                .filter((child) => t.isJSXText(child))
+                                .map((child) => (child as t.JSXText).value)
+                                .join(' ')
+                                .trim()
+                        if (text) {
+                                path.stop()
+                        }
+                }
+        }
+        visit(element)
+        if (!text) {
+                element.traverse({ JSXElement: visit })
+        }
+        return text?.split(/\s+/).slice(0, 3).join(' ')
+}
+
+/**
+ * Names from the item parameter and the array of the innermost `.map()`
+ * callback around the selection
+ */
+function getMappedNames(ast: t.File, start: number, end: number): string[] {
+        let names: string[] = []
+        traverse(ast, {
+                CallExpression(path) {
+                        const { callee, arguments: args } = path.node
+                        const [callback] = args
+                        if (
+                                !t.isMemberExpression(callee) ||
+                                !t.isIdentifier(callee.property, {
+                                        name: 'map',
+                                }) ||
+                                (!t.isArrowFunctionExpression(callback) &&
+                                        !t.isFunctionExpression(callback)) ||
+                                (callback.start ?? 0) > start ||
+                                end > (callback.end ?? 0)
+                        ) {
+                                return
+                        }
+                        const [item] = callback.params
+                        const array = t.isMemberExpression(callee.object)
+                                ? callee.object.property
+                                : callee.object
+                        names = [
+                                t.isIdentifier(item) ? item.name : '',
+                                t.isIdentifier(array)
+                                        ? array.name.replace(/(ie)?s$/, (s) =>
+                                                  s === 'ies' ? 'y' : '',
+                                          )
+                                        : '',
+                        ]
+                                .filter(Boolean)
+                                .map(toComponentName)
+                },
+        })
+        return names
+}
+
+/**
+ * Name of an intrinsic element's tag, when it says something
+ */
+function getTagName(element: t.JSXElement): string | undefined {
+        const name = element.openingElement.name
+        if (
+                !t.isJSXIdentifier(name) ||
+                !/^[a-z]/.test(name.name) ||
+                GENERIC_TAGS.includes(name.name)
+        ) {
+                return undefined
+        }
+        return TAG_NAMES[name.name] ?? toComponentName(name.name)
+}
+
+function getModuleScope(ast: t.File): Scope {
+        let scope: Scope | undefined
+        traverse(ast, {
+                Program(path) {
+                        scope = path.scope
+                        path.stop()
+                },
+        })
+        return scope as Scope
+}
+
+/**
+ * Name suffixed with the first free number when already declared
+ */
+function getUniqueName(scope: Scope, name: string): string {
+        let unique = name
+        for (let index = 2; scope.hasBinding(unique); index++) {
+                unique = `${name}${index}`
+        }
+        return unique
+}
+
+function isComponentName(name: string): boolean {
+        return /^[A-Z][A-Za-z0-9_$]*$/.test(name) && t.isValidIdentifier(name)
+}
+
+/**
+ * PascalCase name from free text like `user-card__title` or `Save changes`
+ */
+function toComponentName(text: string): string {
+        return normalizeComponentName(
+                text
+                        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+                        .replace(/[^A-Za-z0-9]+/g, ' ')
+                        .trim()
+                        .toLowerCase(),
+        ).replace(/^\d+/, '')
+}
@@ -0,0 +1,237 @@
+import { describe, expect, test } from 'bun:test'
+import type { RefactorResult } from '../../types'
+import { createEngine, DEFAULT_ENGINE_OPTIONS } from '../engine'
+
+const { babelPlugins: _, ...options } = DEFAULT_ENGINE_OPTIONS
+
+const engine = createEngine()
+
+async function convert(
+        code: string,
+        name: string,
+): Promise<RefactorResult & { output: string }> {
+        const start = code.indexOf(name)
+        const result = await engine.run('convertClassToFunction', {
+                name,
+                code,
+                start,
+                end: start,
+                produceClass: false,
+                options,
+        })
+        return { ...result, output: engine.applyEdits(code, result.edits) }
+}
+
+describe('ConvertClassToFunctionStrategy', () => {
+        test('converts a class to a function with the source indentation', async () => {
+                const code = `import React, { Component } from 'react'
+
+export class Counter extends Component {
+  state = { count: 0 }
+
+  increment = () => {
+    this.setState({ count: this.state.count + 1 })
+  }
+
+  render() {
+    return <button onClick={this.increment}>{this.state.count}</button>
+  }
+}
+`
+                const { output } = await convert(code, 'Counter')
+
+                expect(output).toBe(`import React, { useState } from 'react'
+
+export function Counter() {
+  const [count, setCount] = useState(0)
+
+  const increment = () => {
+    setCount((count) => count + 1)
+  }
+
+  return <button onClick={increment}>{count}</button>
+}
+`)
+        })
+
+        test('keeps the formatting and comments of the render method', async () => {
+                const code = `import React, { Component } from 'react'
+
+export class Search extends Component {
+  state = { query: '' }
+
+  // Keep the query in sync with the input
+  onChange = (e) => {
+    this.setState({ query: e.target.value })
+  }
+
+  render() {
+    const { placeholder } = this.props
+    const { query } = this.state
+
+    return (
+      <input
+        placeholder={placeholder}
+        value={query}
+        onChange={this.onChange}
+      />
+    )
+  }
+}
+`
+                const { output } = await convert(code, 'Search')
+
+                expect(output).toBe(`import React, { useState } from 'react'
+
+export function Search(props) {
+  const [query, setQuery] = useState('')
+
+  // Keep the query in sync with the input
+  const onChange = (e) => {
+    setQuery(e.target.value)
+  }
+
+  const { placeholder } = props
+
+  return (
+    <input
+      placeholder={placeholder}
+      value={query}
+      onChange={onChange}
+    />
+  )
+}
+`)
+        })
+
+        test('ends the statements with semicolons in a file using them', async () => {
+                const code = `import React from 'react';
+
+export default class Timer extends React.Component {
+    constructor(props) {
+        super(props);
+        this.state = { seconds: props.start };
+        this.interval = null;
+    }
+
+    componentDidMount() {
+        this.interval = setInterval(() => this.tick(), 1000);
+    }
+
+    componentWillUnmount() {
+        clearInterval(this.interval);
+    }
+
+    tick() {
+        this.setState(({ seconds }, props) => {
+            return { seconds: seconds + props.step };
+        });
+    }
+
+    render() {
+        return <p>{this.state.seconds}</p>;
+    }
+}
+`
+                const { output } = await convert(code, 'Timer')
+
+                expect(
+                        output,
+                ).toBe(`import React, { useState, useEffect, useRef } from 'react';
+
+export default function Timer(props) {
+    const [seconds, setSeconds] = useState(props.start);
+
+    const interval = useRef(null);
+
+    const tick = () => {
+        setSeconds((seconds) => seconds + props.step);
+    };
+
+    useEffect(() => {
+        interval.current = setInterval(() => tick(), 1000);
+        return () => {
+            clearInterval(interval.current);
+        };
+    }, []);
+
+    return <p>{seconds}</p>;
+}
+`)
+        })
+
+        test('converts functional updates and arrow functions returning setState', async () => {
+                const code = `import { Component } from 'react'
+
+class Form extends Component {
+  state = { value: '', count: 0 }
+
+  render() {
+    return (
+      <div>
+        <button onClick={() => this.setState((state) => ({ count: state.count + 1 }))}>Add</button>
+        <button onClick={() => this.setState({ value: '', count: 0 })}>Reset</button>
+      </div>
+    )
+  }
+}
+`
+                const { output } = await convert(code, 'Form')
+
+                expect(output).toBe(`import { useState } from 'react'
+
+function Form() {
+  const [value, setValue] = useState('')
+  const [count, setCount] = useState(0)
+
+  return (
+    <div>
+      <button onClick={() => setCount((count) => count + 1)}>Add</button>
+      <button onClick={() => {
+        setValue('')
+        setCount(0)
+      }}>Reset</button>
+    </div>
+  )
+}
+`)
+        })
+
+        test('removes the Component import of the converted class', async () => {
+                const code = `import { Component } from 'react'
+
+export class Title extends Component {
+  render() {
+    return <h1>{this.props.text}</h1>
+  }
+}
+`
+                const { output } = await convert(code, 'Title')
+
+                expect(output).toBe(`export function Title(props) {
+  return <h1>{props.text}</h1>
+}
+`)
+        })
+
+        test('returns issues without editing the source', async () => {
+                const code = `import React, { Component } from 'react'
+
+export default class Timer extends Component {
+  shouldComponentUpdate() {
+    return false
+  }
+
+  render() {
+    return <p>Timer</p>
+  }
+}
+`
+                const { issues, edits } = await convert(code, 'Timer')
+
+                expect(issues?.map((issue) => issue.message)).toEqual([
+                        "'shouldComponentUpdate' has no hook equivalent",
+                ])
+                expect(edits).toEqual([])
+        })
+})
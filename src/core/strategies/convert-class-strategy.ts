@@ -0,0 +1,1691 @@
+/**
+ * Convert Class Strategy - Rewrite a class component as a function component with hooks
+ */
+
+import traverse, { type NodePath } from '@babel/traverse'
+import * as t from '@babel/types'
+import { wrapError } from '../../core/errors'
+import {
+        applyEditsInRange,
+        isClassMemberExpression,
+        isFunctionBinding,
+        reprintNode,
+} from '../../lib/ast'
+import {
+        dedentLines,
+        detectIndentation,
+        getLineIndentation,
+        mapCodeLines,
+} from '../../lib/indentation'
+import type {
+        ExtractionContext,
+        RefactoringIssue,
+        RefactoringType,
+        RefactorResult,
+        TextEdit,
+        TextRange,
+} from '../../types'
+import { ErrorCode, RefactoringError } from '../../types'
+import { BaseRefactoringStrategy } from './refactoring-strategy'
+
+type Hook = 'useState' | 'useEffect' | 'useRef'
+type Lifecycle =
+        | 'componentDidMount'
+        | 'componentDidUpdate'
+        | 'componentWillUnmount'
+type Report = (node: t.Node, message: string) => void
+
+/**
+ * Lifecycle methods converted to effects
+ */
+const LIFECYCLES: Lifecycle[] = [
+        'componentDidMount',
+        'componentDidUpdate',
+        'componentWillUnmount',
+]
+
+/**
+ * Lifecycle methods without a hook equivalent
+ */
+const UNSUPPORTED_LIFECYCLES = [
+        'getSnapshotBeforeUpdate',
+        'shouldComponentUpdate',
+        'componentDidCatch',
+        'componentWillMount',
+        'componentWillReceiveProps',
+        'componentWillUpdate',
+        'UNSAFE_componentWillMount',
+        'UNSAFE_componentWillReceiveProps',
+        'UNSAFE_componentWillUpdate',
+]
+
+/**
+ * Ref tracking whether componentDidUpdate effects run after the first render
+ */
+const MOUNTED_REF = 'isMounted'
+
+/**
+ * Instance field converted to a ref
+ */
+interface RefField {
+        name: string
+        init?: t.Expression
+        typeArgument?: t.Node
+        /** Refs from createRef() are used without `.current` */
+        isCreateRef: boolean
+}
+
+/**
+ * Class component members grouped by their hook equivalent
+ */
+interface ClassComponent {
+        name: string
+        propsType?: t.TSType
+        stateType?: t.TSType
+        state: { name: string; init: t.Expression }[]
+        refs: RefField[]
+        methods: {
+                name: string
+                node: t.ClassMethod | t.Expression
+                /** Class member, with the comments kept on the function */
+                member: t.ClassMethod | t.ClassProperty
+        }[]
+        lifecycles: Partial<Record<Lifecycle, NodePath<t.ClassMethod>>>
+        render?: t.ClassMethod
+        statics: { name: string; value: t.Expression }[]
+        /** Constructor expressions moved to the function body */
+        initializers: t.Node[]
+        usesProps: boolean
+        /** Changes to the source of the members, like `this.props` to `props` */
+        edits: TextEdit[]
+}
+
+/**
+ * Convert class component strategy
+ */
+export class ConvertClassToFunctionStrategy extends BaseRefactoringStrategy {
+        canHandle(type: RefactoringType): boolean {
+                return type === 'convertClassToFunction'
+        }
+
+        async execute(context: ExtractionContext): Promise<RefactorResult> {
+                return wrapError(
+                        async () => {
+                                const { code, start, end } = context
+                                const ast = this.astService.codeToAst(code)
+                                const classPath = this.findClassComponent(
+                                        ast,
+                                        start,
+                                        end,
+                                )
+                                if (!classPath?.node.id) {
+                                        throw new RefactoringError(
+                                                ErrorCode.INVALID_COMPONENT,
+                                                'Place the cursor in a class component extending React.Component',
+                                        )
+                                }
+
+                                const issues: RefactoringIssue[] = []
+                                const report: Report = (node, message) => {
+                                        issues.push({
+                                                message,
+                                                range: {
+                                                        start: node.start ?? 0,
+                                                        end: node.end ?? 0,
+                                                },
+                                        })
+                                }
+
+                                const component = this.collectMembers(
+                                        classPath,
+                                        report,
+                                )
+                                this.checkNames(classPath, component, report)
+                                this.rewriteThis(
+                                        classPath,
+                                        component,
+                                        code,
+                                        report,
+                                )
+                                if (issues.length > 0) {
+                                        return {
+                                                replaceJSXCode: '',
+                                                componentCode: '',
+                                                insertAt: 0,
+                                                issues,
+                                        }
+                                }
+
+                                const hooks = this.getUsedHooks(component)
+                                const { names, edits } = this.getImportEdits(
+                                        ast,
+                                        classPath,
+                                        hooks,
+                                        code,
+                                )
+                                const classStart = classPath.node.start ?? 0
+                                return {
+                                        replaceJSXCode: this.createFunction(
+                                                component,
+                                                names,
+                                                code,
+                                                detectIndentation(code),
+                                                this.getSemicolon(ast, code),
+                                        ),
+                                        componentCode: '',
+                                        insertAt: classStart,
+                                        replaceRange: {
+                                                start: classStart,
+                                                end: classPath.node.end ?? 0,
+                                        },
+                                        edits,
+                                }
+                        },
+                        ErrorCode.EXTRACTION_ERROR,
+                        'Failed to convert class component',
+                )
+        }
+
+        /**
+         * Find the innermost class component around the selection
+         */
+        private findClassComponent(
+                ast: t.File,
+                start: number,
+                end: number,
+        ): NodePath<t.ClassDeclaration> | undefined {
+                let found: NodePath<t.ClassDeclaration> | undefined
+                traverse(ast, {
+                        ClassDeclaration: (path) => {
+                                const { node } = path
+                                if (
+                                        (node.start ?? 0) <= start &&
+                                        end <= (node.end ?? 0) &&
+                                        this.isComponentClass(node)
+                                ) {
+                                        found = path
+                                }
+                        },
+                })
+                return found
+        }
+
+        /**
+         * Check whether a class extends React.Component or React.PureComponent
+         */
+        private isComponentClass(node: t.ClassDeclaration): boolean {
+                const superClass = node.superClass
+                const name = t.isIdentifier(superClass)
+                        ? superClass.name
+                        : t.isMemberExpression(superClass) &&
+                            t.isIdentifier(superClass.property)
+                          ? superClass.property.name
+                          : undefined
+                return name === 'Component' || name === 'PureComponent'
+        }
+
+        /**
+         * Sort the class members by their hook equivalent
+         */
+        private collectMembers(
+                classPath: NodePath<t.ClassDeclaration>,
+                report: Report,
+        ): ClassComponent {
+                const { node } = classPath
+                const typeParams = (
+                        node.superTypeParameters as
+                                | t.TSTypeParameterInstantiation
+                                | null
+                                | undefined
+                )?.params
+                const component: ClassComponent = {
+                        name: node.id?.name ?? '',
+                        propsType: typeParams?.[0],
+                        stateType: typeParams?.[1],
+                        state: [],
+                        refs: [],
+                        methods: [],
+                        lifecycles: {},
+                        statics: [],
+                        initializers: [],
+                        usesProps: false,
+                        edits: [],
+                }
+
+                const superClass = node.superClass
+                if (
+                        (t.isIdentifier(superClass) &&
+                                superClass.name === 'PureComponent') ||
+                        (t.isMemberExpression(superClass) &&
+                                t.isIdentifier(superClass.property, {
+                                        name: 'PureComponent',
+                                }))
+                ) {
+                        report(
+                                superClass,
+                                'PureComponent needs React.memo, convert it manually',
+                        )
+                }
+
+                classPath.get('body.body').forEach((memberPath) => {
+                        const member = memberPath.node
+                        if (
+                                (!t.isClassMethod(member) &&
+                                        !t.isClassProperty(member)) ||
+                                member.computed ||
+                                !t.isIdentifier(member.key)
+                        ) {
+                                report(
+                                        member,
+                                        'This class member can not be converted',
+                                )
+                                return
+                        }
+                        const name = member.key.name
+
+                        if (member.static) {
+                                if (
+                                        t.isClassProperty(member) &&
+                                        member.value &&
+                                        name !== 'contextType'
+                                ) {
+                                        component.statics.push({
+                                                name,
+                                                value: member.value,
+                                        })
+                                } else {
+                                        report(
+                                                member,
+                                                `Static member '${name}' has no function component equivalent`,
+                                        )
+                                }
+                                return
+                        }
+
+                        if (t.isClassMethod(member)) {
+                                if (member.kind === 'constructor') {
+                                        this.collectConstructor(
+                                                memberPath as NodePath<t.ClassMethod>,
+                                                component,
+                                                report,
+                                        )
+                                } else if (member.kind !== 'method') {
+                                        report(
+                                                member,
+                                                `Accessor '${name}' can not be converted`,
+                                        )
+                                } else if (name === 'render') {
+                                        component.render = member
+                                } else if (
+                                        LIFECYCLES.includes(name as Lifecycle)
+                                ) {
+                                        this.collectLifecycle(
+                                                memberPath as NodePath<t.ClassMethod>,
+                                                name as Lifecycle,
+                                                component,
+                                                report,
+                                        )
+                                } else if (
+                                        UNSUPPORTED_LIFECYCLES.includes(name)
+                                ) {
+                                        report(
+                                                member,
+                                                `'${name}' has no hook equivalent`,
+                                        )
+                                } else if (member.generator) {
+                                        report(
+                                                member,
+                                                `Generator method '${name}' can not be converted`,
+                                        )
+                                } else {
+                                        component.methods.push({
+                                                name,
+                                                node: member,
+                                                member,
+                                        })
+                                }
+                                return
+                        }
+
+                        const value = member.value ?? undefined
+                        if (name === 'state') {
+                                component.stateType ??= t.isTSTypeAnnotation(
+                                        member.typeAnnotation,
+                                )
+                                        ? member.typeAnnotation.typeAnnotation
+                                        : undefined
+                                this.collectState(
+                                        value,
+                                        member,
+                                        component,
+                                        report,
+                                )
+                        } else if (value && this.isCreateRef(value)) {
+                                component.refs.push(
+                                        this.createRefField(name, value),
+                                )
+                        } else if (
+                                t.isArrowFunctionExpression(value) ||
+                                t.isFunctionExpression(value)
+                        ) {
+                                component.methods.push({
+                                        name,
+                                        node: value,
+                                        member,
+                                })
+                        } else {
+                                component.refs.push({
+                                        name,
+                                        init: value,
+                                        typeArgument: t.isTSTypeAnnotation(
+                                                member.typeAnnotation,
+                                        )
+                                                ? member.typeAnnotation
+                                                          .typeAnnotation
+                                                : undefined,
+                                        isCreateRef: false,
+                                })
+                        }
+                })
+
+                if (!component.render) {
+                        report(
+                                node.id ?? node,
+                                'The class has no render method',
+                        )
+                }
+
+                return component
+        }
+
+        /**
+         * Collect the state, refs and bound methods set up in the constructor
+         */
+        private collectConstructor(
+                constructorPath: NodePath<t.ClassMethod>,
+                component: ClassComponent,
+                report: Report,
+        ): void {
+                const [param, ...rest] = constructorPath.node.params
+                if (rest.length > 0 || (param && !t.isIdentifier(param))) {
+                        report(
+                                constructorPath.node,
+                                'Only a constructor taking props can be converted',
+                        )
+                        return
+                }
+                constructorPath.node.body.body.forEach((statement) => {
+                        const expression = t.isExpressionStatement(statement)
+                                ? statement.expression
+                                : undefined
+                        if (
+                                t.isCallExpression(expression) &&
+                                t.isSuper(expression.callee)
+                        ) {
+                                return
+                        }
+                        if (
+                                !t.isAssignmentExpression(expression, {
+                                        operator: '=',
+                                }) ||
+                                !isClassMemberExpression({
+                                        node: expression.left,
+                                }) ||
+                                !t.isThisExpression(
+                                        (expression.left as t.MemberExpression)
+                                                .object,
+                                )
+                        ) {
+                                report(
+                                        statement,
+                                        'Only state, refs and bound methods can be set up in the constructor',
+                                )
+                                return
+                        }
+
+                        const left = expression.left as t.MemberExpression
+                        const right = expression.right
+                        if (left.computed || !t.isIdentifier(left.property)) {
+                                report(
+                                        left,
+                                        'Computed members can not be converted',
+                                )
+                                return
+                        }
+                        const name = left.property.name
+                        if (name === 'state') {
+                                this.collectState(
+                                        right,
+                                        statement,
+                                        component,
+                                        report,
+                                )
+                        } else if (this.isBoundMethod(right, name)) {
+                                return
+                        } else if (this.isCreateRef(right)) {
+                                component.refs.push(
+                                        this.createRefField(name, right),
+                                )
+                        } else {
+                                component.refs.push({
+                                        name,
+                                        init: right,
+                                        isCreateRef: false,
+                                })
+                                component.initializers.push(right)
+                        }
+                })
+
+                // The props parameter is the props of the function component
+                if (t.isIdentifier(param)) {
+                        constructorPath.scope
+                                .getBinding(param.name)
+                                ?.referencePaths.forEach((ref) => {
+                                        if (
+                                                !ref.find((p) =>
+                                                        component.initializers.includes(
+                                                                p.node,
+                                                        ),
+                                                )
+                                        ) {
+                                                return
+                                        }
+                                        component.usesProps = true
+                                        if (param.name !== 'props') {
+                                                replaceNode(
+                                                        component.edits,
+                                                        ref.node,
+                                                        'props',
+                                                )
+                                        }
+                                })
+                }
+        }
+
+        /**
+         * Collect the fields of the initial state object
+         */
+        private collectState(
+                value: t.Expression | undefined,
+                member: t.Node,
+                component: ClassComponent,
+                report: Report,
+        ): void {
+                if (!t.isObjectExpression(value)) {
+                        report(
+                                member,
+                                'State must be initialized with an object',
+                        )
+                        return
+                }
+                value.properties.forEach((property) => {
+                        if (
+                                !t.isObjectProperty(property) ||
+                                property.computed ||
+                                !t.isIdentifier(property.key) ||
+                                !t.isExpression(property.value)
+                        ) {
+                                report(
+                                        property,
+                                        'Only plain state fields can be converted',
+                                )
+                                return
+                        }
+                        component.state.push({
+                                name: property.key.name,
+                                init: property.value,
+                        })
+                        component.initializers.push(property.value)
+                })
+        }
+
+        /**
+         * Collect a lifecycle method converted to an effect
+         */
+        private collectLifecycle(
+                methodPath: NodePath<t.ClassMethod>,
+                name: Lifecycle,
+                component: ClassComponent,
+                report: Report,
+        ): void {
+                const method = methodPath.node
+                if (method.async || method.generator) {
+                        report(method, `Async '${name}' can not be converted`)
+                        return
+                }
+                if (
+                        name === 'componentDidUpdate' &&
+                        Object.values(methodPath.scope.bindings).some(
+                                (binding) =>
+                                        binding.kind === 'param' &&
+                                        binding.referenced,
+                        )
+                ) {
+                        report(
+                                method,
+                                'componentDidUpdate comparing previous props or state can not be converted',
+                        )
+                        return
+                }
+
+                // Returned values would be taken for effect cleanups
+                methodPath.traverse({
+                        Function(path) {
+                                path.skip()
+                        },
+                        ReturnStatement(path) {
+                                report(
+                                        path.node,
+                                        `Return statements in '${name}' can not be converted`,
+                                )
+                        },
+                })
+                component.lifecycles[name] = methodPath
+        }
+
+        /**
+         * Check that the generated names do not clash with existing bindings
+         */
+        private checkNames(
+                classPath: NodePath<t.ClassDeclaration>,
+                component: ClassComponent,
+                report: Report,
+        ): void {
+                const names = [
+                        'props',
+                        ...component.state.flatMap(({ name }) => [
+                                name,
+                                this.getSetterName(name),
+                        ]),
+                        ...component.methods.map(({ name }) => name),
+                        ...component.refs.map(({ name }) => name),
+                        ...(component.lifecycles.componentDidUpdate
+                                ? [MOUNTED_REF]
+                                : []),
+                ]
+
+                const seen = new Set<string>()
+                names.forEach((name) => {
+                        if (seen.has(name)) {
+                                report(
+                                        classPath.node.id ?? classPath.node,
+                                        `'${name}' would be declared twice in the function component`,
+                                )
+                        }
+                        seen.add(name)
+                })
+
+                classPath.get('body').traverse({
+                        Function(path) {
+                                if (
+                                        path.isClassMethod({
+                                                kind: 'constructor',
+                                        })
+                                ) {
+                                        path.skip()
+                                        return
+                                }
+                                Object.values(path.scope.bindings).forEach(
+                                        (binding) => {
+                                                if (
+                                                        seen.has(
+                                                                binding
+                                                                        .identifier
+                                                                        .name,
+                                                        ) &&
+                                                        !isStateBinding(
+                                                                binding.path,
+                                                                binding
+                                                                        .identifier
+                                                                        .name,
+                                                        ) &&
+                                                        // Updater arguments are replaced by the state fields and props
+                                                        !(
+                                                                binding.kind ===
+                                                                        'param' &&
+                                                                isUpdater(path)
+                                                        )
+                                                ) {
+                                                        report(
+                                                                binding.identifier,
+                                                                `'${binding.identifier.name}' shadows a converted class member`,
+                                                        )
+                                                }
+                                        },
+                                )
+                        },
+                        ReferencedIdentifier(path) {
+                                const name = (path.node as t.Identifier).name
+                                const binding = path.scope.getBinding(name)
+                                if (
+                                        seen.has(name) &&
+                                        !binding?.path.isDescendant(classPath)
+                                ) {
+                                        report(
+                                                path.node,
+                                                `'${name}' would refer to a converted class member`,
+                                        )
+                                }
+                        },
+                })
+
+                function isUpdater(path: NodePath): boolean {
+                        const call = path.parentPath
+                        return (
+                                path.listKey === 'arguments' &&
+                                !!call?.isCallExpression() &&
+                                t.isMemberExpression(call.node.callee) &&
+                                t.isThisExpression(call.node.callee.object) &&
+                                t.isIdentifier(call.node.callee.property, {
+                                        name: 'setState',
+                                })
+                        )
+                }
+
+                function isStateBinding(path: NodePath, name: string): boolean {
+                        const { node } = path
+                        return (
+                                t.isVariableDeclarator(node) &&
+                                t.isObjectPattern(node.id) &&
+                                t.isMemberExpression(node.init) &&
+                                t.isThisExpression(node.init.object) &&
+                                t.isIdentifier(node.init.property, {
+                                        name: 'state',
+                                }) &&
+                                node.id.properties.some(
+                                        (property) =>
+                                                t.isObjectProperty(property) &&
+                                                property.shorthand &&
+                                                t.isIdentifier(property.key, {
+                                                        name,
+                                                }),
+                                )
+                        )
+                }
+        }
+
+        /**
+         * Replace `this` member accesses with props, state, refs and functions
+         */
+        private rewriteThis(
+                classPath: NodePath<t.ClassDeclaration>,
+                component: ClassComponent,
+                code: string,
+                report: Report,
+        ): void {
+                const stateNames = new Set(
+                        component.state.map(({ name }) => name),
+                )
+                const methodNames = new Set(
+                        component.methods.map(({ name }) => name),
+                )
+                const refs = new Map(
+                        component.refs.map((ref) => [ref.name, ref]),
+                )
+                const { edits } = component
+                const bodyPath = classPath.get('body')
+                // Updates are rewritten last, with the state reads they contain
+                const setStateCalls: NodePath<t.MemberExpression>[] = []
+
+                bodyPath.traverse({
+                        ThisExpression: (path) => {
+                                const owner = path.findParent(
+                                        (p) =>
+                                                (p.isFunction() &&
+                                                        !p.isArrowFunctionExpression()) ||
+                                                p.isClassProperty(),
+                                )
+                                if (
+                                        !owner ||
+                                        owner.parentPath !== bodyPath ||
+                                        (owner.node as t.ClassMethod).static ||
+                                        isReplaced(edits, path.node)
+                                ) {
+                                        return
+                                }
+                                if (
+                                        owner.isClassMethod({
+                                                kind: 'constructor',
+                                        }) &&
+                                        !path.findParent((p) =>
+                                                component.initializers.includes(
+                                                        p.node,
+                                                ),
+                                        )
+                                ) {
+                                        return
+                                }
+
+                                const member = path.parentPath
+                                if (
+                                        !member.isMemberExpression() ||
+                                        member.node.computed ||
+                                        !t.isIdentifier(member.node.property)
+                                ) {
+                                        report(
+                                                path.node,
+                                                '`this` can only be used to access component members',
+                                        )
+                                        return
+                                }
+                                const name = member.node.property.name
+                                if (name === 'props') {
+                                        component.usesProps = true
+                                        replaceNode(edits, member.node, 'props')
+                                } else if (name === 'state') {
+                                        this.rewriteStateAccess(
+                                                member,
+                                                stateNames,
+                                                edits,
+                                                code,
+                                                report,
+                                        )
+                                } else if (name === 'setState') {
+                                        setStateCalls.push(member)
+                                } else if (methodNames.has(name)) {
+                                        const binding = member.parentPath
+                                        replaceNode(
+                                                edits,
+                                                binding.isMemberExpression() &&
+                                                        isFunctionBinding(
+                                                                binding,
+                                                        )
+                                                        ? binding.parentPath
+                                                                  .node
+                                                        : member.node,
+                                                name,
+                                        )
+                                } else if (refs.has(name)) {
+                                        replaceNode(
+                                                edits,
+                                                member.node,
+                                                refs.get(name)?.isCreateRef
+                                                        ? name
+                                                        : `${name}.current`,
+                                        )
+                                } else {
+                                        report(
+                                                member.node,
+                                                `'this.${name}' has no function component equivalent`,
+                                        )
+                                }
+                        },
+                })
+
+                setStateCalls.forEach((member) => {
+                        this.rewriteSetState(
+                                member,
+                                stateNames,
+                                component,
+                                code,
+                                report,
+                        )
+                })
+        }
+
+        /**
+         * Replace `this.state.x` reads and `this.state` destructuring
+         */
+        private rewriteStateAccess(
+                member: NodePath<t.MemberExpression>,
+                stateNames: Set<string>,
+                edits: TextEdit[],
+                code: string,
+                report: Report,
+        ): void {
+                const parent = member.parentPath
+                if (
+                        parent.isMemberExpression({ object: member.node }) &&
+                        !parent.node.computed &&
+                        t.isIdentifier(parent.node.property) &&
+                        stateNames.has(parent.node.property.name)
+                ) {
+                        if (
+                                parent.parentPath.isAssignmentExpression({
+                                        left: parent.node,
+                                }) ||
+                                parent.parentPath.isUpdateExpression()
+                        ) {
+                                report(
+                                        parent.parentPath.node,
+                                        'State must be updated with setState',
+                                )
+                                return
+                        }
+                        replaceNode(
+                                edits,
+                                parent.node,
+                                parent.node.property.name,
+                        )
+                        return
+                }
+
+                if (
+                        parent.isVariableDeclarator({ init: member.node }) &&
+                        t.isObjectPattern(parent.node.id)
+                ) {
+                        const properties = parent.node.id.properties
+                        const fields = properties.filter(
+                                (property): property is t.ObjectProperty =>
+                                        t.isObjectProperty(property) &&
+                                        !property.computed &&
+                                        t.isIdentifier(property.key) &&
+                                        stateNames.has(property.key.name) &&
+                                        t.isIdentifier(property.value),
+                        )
+                        if (fields.length === properties.length) {
+                                const renamed = fields
+                                        .filter(
+                                                (field) =>
+                                                        (
+                                                                field.key as t.Identifier
+                                                        ).name !==
+                                                        (
+                                                                field.value as t.Identifier
+                                                        ).name,
+                                        )
+                                        .map(
+                                                (field) =>
+                                                        `${(field.value as t.Identifier).name} = ${(field.key as t.Identifier).name}`,
+                                        )
+                                this.removeDeclarator(
+                                        parent,
+                                        renamed.join(', '),
+                                        edits,
+                                        code,
+                                )
+                                return
+                        }
+                }
+
+                report(
+                        member.node,
+                        "'this.state' can only be read field by field",
+                )
+        }
+
+        /**
+         * Replace a declarator, removing its declaration or line when nothing
+         * replaces it
+         */
+        private removeDeclarator(
+                declarator: NodePath<t.VariableDeclarator>,
+                replacement: string,
+                edits: TextEdit[],
+                code: string,
+        ): void {
+                const declaration = declarator.parentPath
+                        .node as t.VariableDeclaration
+                const { declarations } = declaration
+                const index = declarations.indexOf(declarator.node)
+                if (replacement) {
+                        replaceNode(edits, declarator.node, replacement)
+                } else if (declarations.length === 1) {
+                        edits.push({
+                                range: this.getLineRange(
+                                        code,
+                                        declaration.start ?? 0,
+                                        declaration.end ?? 0,
+                                ),
+                                newText: '',
+                        })
+                } else {
+                        // Remove the declarator with the comma separating it
+                        const next = declarations[index + 1]
+                        const previous = declarations[index - 1]
+                        edits.push({
+                                range: next
+                                        ? {
+                                                  start:
+                                                          declarator.node
+                                                                  .start ?? 0,
+                                                  end: next.start ?? 0,
+                                          }
+                                        : {
+                                                  start: previous?.end ?? 0,
+                                                  end: declarator.node.end ?? 0,
+                                          },
+                                newText: '',
+                        })
+                }
+        }
+
+        /**
+         * Replace `this.setState(...)` statements and arrow function bodies
+         * with state setter calls
+         */
+        private rewriteSetState(
+                member: NodePath<t.MemberExpression>,
+                stateNames: Set<string>,
+                component: ClassComponent,
+                code: string,
+                report: Report,
+        ): void {
+                const call = member.parentPath
+                if (
+                        !call.isCallExpression({ callee: member.node }) ||
+                        call.node.arguments.length !== 1
+                ) {
+                        report(
+                                call.node,
+                                'Only setState calls without a callback can be converted',
+                        )
+                        return
+                }
+
+                const update = call.get('arguments')[0]
+                const setters = update.isObjectExpression()
+                        ? this.getSetters(
+                                  update.node,
+                                  stateNames,
+                                  component,
+                                  code,
+                                  report,
+                          )
+                        : update.isArrowFunctionExpression() ||
+                            update.isFunctionExpression()
+                          ? this.getUpdaterSetters(
+                                    update,
+                                    stateNames,
+                                    component,
+                                    code,
+                                    report,
+                            )
+                          : undefined
+                if (!setters) {
+                        if (
+                                !update.isObjectExpression() &&
+                                !update.isFunction()
+                        ) {
+                                report(
+                                        update.node,
+                                        'setState must be called with an object or an updater function',
+                                )
+                        }
+                        return
+                }
+
+                const parent = call.parentPath
+                if (parent.isExpressionStatement()) {
+                        const semicolon =
+                                code[(parent.node.end ?? 0) - 1] === ';'
+                                        ? ';'
+                                        : ''
+                        replaceNode(
+                                component.edits,
+                                parent.node,
+                                setters
+                                        .map(
+                                                (setter) =>
+                                                        `${setter}${semicolon}`,
+                                        )
+                                        .join(
+                                                `\n${getLineIndentation(code, parent.node.start ?? 0)}`,
+                                        ),
+                        )
+                } else if (
+                        parent.isArrowFunctionExpression({ body: call.node })
+                ) {
+                        const indentation = getLineIndentation(
+                                code,
+                                call.node.start ?? 0,
+                        )
+                        const unit = detectIndentation(code)
+                        replaceNode(
+                                component.edits,
+                                call.node,
+                                setters.length === 1
+                                        ? setters[0]
+                                        : `{\n${setters
+                                                  .map(
+                                                          (setter) =>
+                                                                  `${indentation}${unit}${setter}`,
+                                                  )
+                                                  .join(
+                                                          '\n',
+                                                  )}\n${indentation}}`,
+                        )
+                } else {
+                        report(
+                                call.node,
+                                'Only setState statements and arrow functions returning setState can be converted',
+                        )
+                }
+        }
+
+        /**
+         * Setter calls of the fields of a `setState({ ... })` update
+         */
+        private getSetters(
+                update: t.ObjectExpression,
+                stateNames: Set<string>,
+                component: ClassComponent,
+                code: string,
+                report: Report,
+        ): string[] | undefined {
+                const setters: string[] = []
+                update.properties.forEach((property) => {
+                        if (
+                                !t.isObjectProperty(property) ||
+                                property.computed ||
+                                !t.isIdentifier(property.key) ||
+                                !stateNames.has(property.key.name) ||
+                                !t.isExpression(property.value)
+                        ) {
+                                report(
+                                        property,
+                                        'Only initialized state fields can be updated',
+                                )
+                                return
+                        }
+                        const name = property.key.name
+                        const reads = new Set<string>()
+                        t.traverseFast(property.value, (node) => {
+                                if (
+                                        t.isMemberExpression(node) &&
+                                        t.isMemberExpression(node.object) &&
+                                        t.isThisExpression(
+                                                node.object.object,
+                                        ) &&
+                                        t.isIdentifier(node.object.property, {
+                                                name: 'state',
+                                        }) &&
+                                        t.isIdentifier(node.property)
+                                ) {
+                                        reads.add(node.property.name)
+                                }
+                        })
+                        setters.push(
+                                this.createSetterCall(
+                                        name,
+                                        property.value,
+                                        reads,
+                                        reprintNode(
+                                                code,
+                                                property.value,
+                                                component.edits,
+                                        ),
+                                ),
+                        )
+                })
+                return setters.length === update.properties.length
+                        ? setters
+                        : undefined
+        }
+
+        /**
+         * Setter calls of the fields returned by a `setState(state => ...)`
+         * updater, reading the fields from the state argument
+         */
+        private getUpdaterSetters(
+                updater: NodePath<
+                        t.ArrowFunctionExpression | t.FunctionExpression
+                >,
+                stateNames: Set<string>,
+                component: ClassComponent,
+                code: string,
+                report: Report,
+        ): string[] | undefined {
+                const { node } = updater
+                const [stateParam, propsParam, ...rest] = node.params
+                let returned: t.Node | null | undefined = node.body
+                if (t.isBlockStatement(returned)) {
+                        const [statement, ...others] = returned.body
+                        returned =
+                                t.isReturnStatement(statement) && !others.length
+                                        ? statement.argument
+                                        : undefined
+                }
+                if (
+                        node.async ||
+                        node.generator ||
+                        rest.length > 0 ||
+                        (propsParam && !t.isIdentifier(propsParam)) ||
+                        !t.isObjectExpression(returned)
+                ) {
+                        report(
+                                node,
+                                'Only updaters returning an object of state fields can be converted',
+                        )
+                        return undefined
+                }
+
+                // Reads of state fields from the state argument
+                const reads: { node: t.Node; field: string }[] = []
+                const edits = [...component.edits]
+                const readField = (ref: t.Node, field: string) => {
+                        reads.push({ node: ref, field })
+                        replaceNode(edits, ref, field)
+                }
+                if (t.isIdentifier(stateParam)) {
+                        updater.scope
+                                .getBinding(stateParam.name)
+                                ?.referencePaths.forEach((ref) => {
+                                        const field = ref.parentPath
+                                        if (
+                                                field?.isMemberExpression({
+                                                        object: ref.node,
+                                                }) &&
+                                                !field.node.computed &&
+                                                t.isIdentifier(
+                                                        field.node.property,
+                                                ) &&
+                                                stateNames.has(
+                                                        field.node.property
+                                                                .name,
+                                                )
+                                        ) {
+                                                readField(
+                                                        field.node,
+                                                        field.node.property
+                                                                .name,
+                                                )
+                                                return
+                                        }
+                                        report(
+                                                ref.node,
+                                                'The state argument can only be read field by field',
+                                        )
+                                })
+                } else if (t.isObjectPattern(stateParam)) {
+                        stateParam.properties.forEach((property) => {
+                                if (
+                                        !t.isObjectProperty(property) ||
+                                        property.computed ||
+                                        !t.isIdentifier(property.key) ||
+                                        !stateNames.has(property.key.name) ||
+                                        !t.isIdentifier(property.value)
+                                ) {
+                                        report(
+                                                property,
+                                                'Only state fields can be destructured from the state argument',
+                                        )
+                                        return
+                                }
+                                const field = property.key.name
+                                updater.scope
+                                        .getBinding(property.value.name)
+                                        ?.referencePaths.forEach((ref) => {
+                                                readField(ref.node, field)
+                                        })
+                        })
+                } else if (stateParam) {
+                        report(stateParam, 'Unsupported state argument')
+                }
+                if (t.isIdentifier(propsParam)) {
+                        updater.scope
+                                .getBinding(propsParam.name)
+                                ?.referencePaths.forEach((ref) => {
+                                        component.usesProps = true
+                                        if (propsParam.name !== 'props') {
+                                                replaceNode(
+                                                        edits,
+                                                        ref.node,
+                                                        'props',
+                                                )
+                                        }
+                                })
+                }
+
+                const fields = returned.properties.map((property) => {
+                        if (
+                                !t.isObjectProperty(property) ||
+                                property.computed ||
+                                !t.isIdentifier(property.key) ||
+                                !stateNames.has(property.key.name) ||
+                                !t.isExpression(property.value)
+                        ) {
+                                report(
+                                        property,
+                                        'Only initialized state fields can be updated',
+                                )
+                                return undefined
+                        }
+                        const { value } = property
+                        const fieldReads = new Set(
+                                reads
+                                        .filter(
+                                                (read) =>
+                                                        (read.node.start ??
+                                                                0) >=
+                                                                (value.start ??
+                                                                        0) &&
+                                                        (read.node.end ?? 0) <=
+                                                                (value.end ??
+                                                                        0),
+                                        )
+                                        .map((read) => read.field),
+                        )
+                        return this.createSetterCall(
+                                property.key.name,
+                                value,
+                                fieldReads,
+                                reprintNode(code, value, edits),
+                        )
+                })
+                return fields.every((setter) => setter !== undefined)
+                        ? (fields as string[])
+                        : undefined
+        }
+
+        /**
+         * Call of the setter of a state field. The update is functional when
+         * the new value only depends on the field itself, so that callbacks
+         * created in earlier renders stay correct
+         * @param name state field
+         * @param value new value
+         * @param reads state fields read by the value
+         * @param valueCode source of the value, reading fields by their name
+         */
+        private createSetterCall(
+                name: string,
+                value: t.Expression,
+                reads: Set<string>,
+                valueCode: string,
+        ): string {
+                const setter = this.getSetterName(name)
+                if (reads.size !== 1 || !reads.has(name)) {
+                        return `${setter}(${valueCode})`
+                }
+                return `${setter}((${name}) => ${
+                        t.isObjectExpression(value)
+                                ? `(${valueCode})`
+                                : valueCode
+                })`
+        }
+
+        /**
+         * Hooks needed by the function component
+         */
+        private getUsedHooks(component: ClassComponent): Hook[] {
+                const { lifecycles } = component
+                const hooks: Hook[] = []
+                if (component.state.length > 0) {
+                        hooks.push('useState')
+                }
+                if (LIFECYCLES.some((name) => lifecycles[name])) {
+                        hooks.push('useEffect')
+                }
+                if (
+                        component.refs.length > 0 ||
+                        lifecycles.componentDidUpdate
+                ) {
+                        hooks.push('useRef')
+                }
+                return hooks
+        }
+
+        /**
+         * Import the hooks from React, and remove the Component import only
+         * used by the converted class. The default React import is kept for
+         * the JSX of the classic runtime
+         */
+        private getImportEdits(
+                ast: t.File,
+                classPath: NodePath<t.ClassDeclaration>,
+                hooks: Hook[],
+                code: string,
+        ): { names: Record<Hook, string>; edits: TextEdit[] } {
+                const { names, edit } = this.getReactImport(ast, hooks)
+                const superClass = classPath.node.superClass
+                const binding = t.isIdentifier(superClass)
+                        ? classPath.scope.getBinding(superClass.name)
+                        : undefined
+                const specifier = binding?.path.node
+                const declaration = binding?.path.parent
+                if (
+                        !t.isImportSpecifier(specifier) ||
+                        !t.isImportDeclaration(declaration) ||
+                        declaration.source.value !== 'react' ||
+                        binding?.referencePaths.some(
+                                (ref) => ref.node !== superClass,
+                        )
+                ) {
+                        return { names, edits: edit ? [edit] : [] }
+                }
+
+                const named = declaration.specifiers.filter(
+                        (node): node is t.ImportSpecifier =>
+                                t.isImportSpecifier(node) && node !== specifier,
+                )
+                const missing = hooks.filter(
+                        (hook) =>
+                                !named.some(({ imported }) =>
+                                        t.isIdentifier(imported, {
+                                                name: hook,
+                                        }),
+                                ),
+                )
+                const list = [
+                        ...named.map((node) =>
+                                code.slice(node.start ?? 0, node.end ?? 0),
+                        ),
+                        ...missing,
+                ]
+                const label = 'Update the React import'
+                if (list.length > 0) {
+                        const specifiers = declaration.specifiers.filter(
+                                (node) => t.isImportSpecifier(node),
+                        )
+                        return {
+                                names,
+                                edits: [
+                                        {
+                                                range: {
+                                                        start:
+                                                                specifiers[0]
+                                                                        ?.start ??
+                                                                0,
+                                                        end:
+                                                                specifiers[
+                                                                        specifiers.length -
+                                                                                1
+                                                                ]?.end ?? 0,
+                                                },
+                                                newText: list.join(', '),
+                                                label,
+                                        },
+                                ],
+                        }
+                }
+
+                const defaultImport = declaration.specifiers.find((node) =>
+                        t.isImportDefaultSpecifier(node),
+                )
+                let range: TextRange
+                if (defaultImport) {
+                        // Remove `, { Component }`
+                        range = {
+                                start: defaultImport.end ?? 0,
+                                end: code.indexOf('}', specifier.end ?? 0) + 1,
+                        }
+                } else {
+                        range = this.getRemovalRange(
+                                code,
+                                declaration.start ?? 0,
+                                declaration.end ?? 0,
+                        )
+                }
+                return { names, edits: [{ range, newText: '', label }] }
+        }
+
+        /**
+         * Semicolon ending the statements of the code, when most of them
+         * have one
+         */
+        private getSemicolon(ast: t.File, code: string): string {
+                let withSemicolon = 0
+                let without = 0
+                t.traverseFast(ast, (node) => {
+                        if (
+                                t.isExpressionStatement(node) ||
+                                t.isVariableDeclaration(node) ||
+                                t.isReturnStatement(node) ||
+                                t.isImportDeclaration(node)
+                        ) {
+                                if (code[(node.end ?? 0) - 1] === ';') {
+                                        withSemicolon++
+                                } else {
+                                        without++
+                                }
+                        }
+                })
+                return withSemicolon > without ? ';' : ''
+        }
+
+        /**
+         * Print the function component replacing the class, from the source
+         * of the class members
+         */
+        private createFunction(
+                component: ClassComponent,
+                hooks: Record<Hook, string>,
+                code: string,
+                unit: string,
+                semicolon: string,
+        ): string {
+                const { name, lifecycles, edits } = component
+                // Members lose the indentation of the class body
+                const print = (node: t.Node) =>
+                        dedentLines(
+                                reprintNode(code, node, edits),
+                                getLineIndentation(code, node.start ?? 0),
+                        )
+                const sections: string[][] = []
+
+                sections.push(
+                        component.state.map(
+                                (field) =>
+                                        `const [${field.name}, ${this.getSetterName(field.name)}] = ${hooks.useState}${
+                                                component.stateType
+                                                        ? `<${print(component.stateType)}['${field.name}']>`
+                                                        : ''
+                                        }(${print(field.init)})${semicolon}`,
+                        ),
+                )
+
+                const refs = component.refs.map(
+                        (ref) =>
+                                `const ${ref.name} = ${hooks.useRef}${
+                                        ref.typeArgument
+                                                ? `<${print(ref.typeArgument)}>`
+                                                : ''
+                                }(${
+                                        ref.isCreateRef
+                                                ? 'null'
+                                                : ref.init
+                                                  ? print(ref.init)
+                                                  : ''
+                                })${semicolon}`,
+                )
+                if (lifecycles.componentDidUpdate) {
+                        refs.push(
+                                `const ${MOUNTED_REF} = ${hooks.useRef}(false)${semicolon}`,
+                        )
+                }
+                sections.push(refs)
+
+                sections.push(
+                        [
+                                component.methods
+                                        .map(
+                                                (method) =>
+                                                        `${this.getComments(method.member, code)}const ${method.name} = ${
+                                                                t.isClassMethod(
+                                                                        method.node,
+                                                                )
+                                                                        ? this.printArrowFunction(
+                                                                                  method.node,
+                                                                                  print,
+                                                                          )
+                                                                        : print(
+                                                                                  method.node,
+                                                                          )
+                                                        }${semicolon}`,
+                                        )
+                                        .join('\n\n'),
+                        ].filter(Boolean),
+                )
+
+                const effects: string[] = []
+                const mount = lifecycles.componentDidMount?.node
+                const unmount = lifecycles.componentWillUnmount?.node
+                if (mount || unmount) {
+                        const body = mount
+                                ? [this.getBodyCode(mount, code, edits)]
+                                : []
+                        if (unmount) {
+                                body.push(
+                                        `return () => {\n${indent(this.getBodyCode(unmount, code, edits), unit)}\n}${semicolon}`,
+                                )
+                        }
+                        effects.push(
+                                `${hooks.useEffect}(() => {\n${indent(body.join('\n'), unit)}\n}, [])${semicolon}`,
+                        )
+                }
+                const update = lifecycles.componentDidUpdate?.node
+                if (update) {
+                        const guard = `if (!${MOUNTED_REF}.current) {\n${unit}${MOUNTED_REF}.current = true${semicolon}\n${unit}return${semicolon}\n}`
+                        effects.push(
+                                `${hooks.useEffect}(() => {\n${indent(`${guard}\n${this.getBodyCode(update, code, edits)}`, unit)}\n})${semicolon}`,
+                        )
+                }
+                sections.push(effects)
+
+                if (component.render) {
+                        sections.push([
+                                this.getBodyCode(component.render, code, edits),
+                        ])
+                }
+
+                const body = sections
+                        .filter((section) => section.length > 0)
+                        .map((section) => section.join('\n'))
+                        .join('\n\n')
+                const params = component.usesProps
+                        ? `props${
+                                  component.propsType
+                                          ? `: ${print(component.propsType)}`
+                                          : ''
+                          }`
+                        : ''
+                const statics = component.statics.map(
+                        (field) =>
+                                `\n\n${name}.${field.name} = ${print(field.value)}${semicolon}`,
+                )
+
+                return `function ${name}(${params}) {\n${indent(body, unit)}\n}${statics.join('')}`
+        }
+
+        /**
+         * Source of the comments before a class member, on their own lines
+         */
+        private getComments(member: t.Node, code: string): string {
+                const first = member.leadingComments?.[0]
+                if (!first) {
+                        return ''
+                }
+                return `${dedentLines(
+                        code.slice(first.start ?? 0, member.start ?? 0),
+                        getLineIndentation(code, member.start ?? 0),
+                ).trimEnd()}\n`
+        }
+
+        /**
+         * Print a class method as an arrow function
+         */
+        private printArrowFunction(
+                method: t.ClassMethod,
+                print: (node: t.Node) => string,
+        ): string {
+                const typeParameters = method.typeParameters
+                        ? print(method.typeParameters)
+                        : ''
+                const params = method.params.map(print).join(', ')
+                const returnType = method.returnType
+                        ? print(method.returnType)
+                        : ''
+                return `${method.async ? 'async ' : ''}${typeParameters}(${params})${returnType} => ${print(method.body)}`
+        }
+
+        /**
+         * Print the statements of a method body without their indentation
+         */
+        private getBodyCode(
+                method: t.ClassMethod,
+                code: string,
+                edits: TextEdit[],
+        ): string {
+                const { start, end } = method.body
+                const text = applyEditsInRange(
+                        code,
+                        { start: (start ?? 0) + 1, end: (end ?? 0) - 1 },
+                        edits,
+                )
+                        .replace(/^(?:[ \t]*\n)+/, '')
+                        .trimEnd()
+                const indentation = /^[ \t]*/.exec(text)?.[0] ?? ''
+                return dedentLines(text.slice(indentation.length), indentation)
+        }
+
+        /**
+         * Name of the setter returned by useState
+         */
+        private getSetterName(name: string): string {
+                return `set${name.charAt(0).toUpperCase()}${name.slice(1)}`
+        }
+
+        /**
+         * Check for React.createRef() and createRef() calls
+         */
+        private isCreateRef(node: t.Node): node is t.CallExpression {
+                if (!t.isCallExpression(node)) {
+                        return false
+                }
+                const callee = node.callee
+                return (
+                        t.isIdentifier(callee, { name: 'createRef' }) ||
+                        (t.isMemberExpression(callee) &&
+                                t.isIdentifier(callee.property, {
+                                        name: 'createRef',
+                                }))
+                )
+        }
+
+        /**
+         * Check for `this.name.bind(this)`
+         */
+        private isBoundMethod(node: t.Node, name: string): boolean {
+                return (
+                        t.isCallExpression(node) &&
+                        t.isMemberExpression(node.callee) &&
+                        t.isIdentifier(node.callee.property, {
+                                name: 'bind',
+                        }) &&
+                        t.isMemberExpression(node.callee.object) &&
+                        t.isThisExpression(node.callee.object.object) &&
+                        t.isIdentifier(node.callee.object.property, { name })
+                )
+        }
+
+        /**
+         * Create a ref field from a createRef() call
+         */
+        private createRefField(name: string, call: t.CallExpression): RefField {
+                return {
+                        name,
+                        typeArgument: call.typeParameters?.params[0],
+                        isCreateRef: true,
+                }
+        }
+}
+
+/**
+ * Indent every non-empty line by one level
+ */
+function indent(code: string, unit: string): string {
+        return mapCodeLines(code, (line) => (line ? `${unit}${line}` : line))
+}
+
+/**
+ * Replace the source of a node, unless a replaced node contains it
+ */
+function replaceNode(edits: TextEdit[], node: t.Node, newText: string): void {
+        if (!isReplaced(edits, node)) {
+                edits.push({
+                        range: { start: node.start ?? 0, end: node.end ?? 0 },
+                        newText,
+                })
+        }
+}
+
+/**
+ * Check whether an edit replaces the source of a node
+ */
+function isReplaced(edits: TextEdit[], node: t.Node): boolean {
+        return edits.some(
+                ({ range }) =>
+                        range.start <= (node.start ?? 0) &&
+                        (node.end ?? 0) <= range.end,
+        )
+}
@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'bun:test'
+import type { ComponentType } from '../../types'
+import { createEngine, DEFAULT_ENGINE_OPTIONS } from '../engine'
+
+const { babelPlugins: _, ...options } = DEFAULT_ENGINE_OPTIONS
+
+const engine = createEngine()
+
+async function convert(
+        code: string,
+        name: string,
+        targetType: ComponentType,
+): Promise<string> {
+        const start = code.indexOf(name)
+        const result = await engine.run('convertComponentType', {
+                name,
+                code,
+                start,
+                end: start,
+                produceClass: false,
+                options,
+                targetType,
+        })
+        return engine.applyEdits(code, result.edits)
+}
+
+describe('ConvertComponentTypeStrategy', () => {
+        test('converts a generic function to a class keeping its return type', async () => {
+                const code = `import React from 'react'
+
+export default function List<T>({ items }: { items: T[] }): JSX.Element {
+  const count = items.length
+  return <ul data-count={count}>{items.length}</ul>
+}
+`
+
+                expect(
+                        await convert(code, 'List', 'class'),
+                ).toBe(`import React, { Component } from 'react'
+
+export default class List<T> extends Component<{ items: T[] }> {
+  render(): JSX.Element {
+    const { items } = this.props
+    const count = items.length
+    return <ul data-count={count}>{items.length}</ul>
+  }
+}
+`)
+        })
+})
@@ -0,0 +1,789 @@
+/**
+ * Convert Component Type Strategy - Switch a component between function, arrow function and class forms
+ */
+
+import traverse, { type Binding, type NodePath } from '@babel/traverse'
+import * as t from '@babel/types'
+import { wrapError } from '../../core/errors'
+import { isHookCall } from '../../lib/ast'
+import { detectIndentation, mapCodeLines } from '../../lib/indentation'
+import type {
+        ComponentType,
+        ExtractionContext,
+        RefactoringType,
+        RefactorResult,
+        TextEdit,
+} from '../../types'
+import { ErrorCode, RefactoringError } from '../../types'
+import { BaseRefactoringStrategy } from './refactoring-strategy'
+
+/**
+ * Names of the React function component types
+ */
+const FUNCTION_COMPONENT_TYPES = ['FC', 'FunctionComponent', 'VFC']
+
+/**
+ * Source text replacement, in document offsets
+ */
+interface Replacement {
+        start: number
+        end: number
+        text: string
+}
+
+/**
+ * Component declaration found around the selection
+ */
+interface ComponentDeclaration {
+        type: ComponentType
+        name: string
+        /** Statement replaced by the conversion, including export modifiers */
+        statement: NodePath
+        exportKind?: 'named' | 'default'
+        variableKind: 'const' | 'let' | 'var'
+        functionPath?: NodePath<
+                t.FunctionDeclaration | t.ArrowFunctionExpression
+        >
+        classPath?: NodePath<t.ClassDeclaration>
+        /** Props type taken from a `React.FC<Props>` annotation */
+        propsType?: string
+        /** Variable annotation that can not be moved to the function */
+        unsupportedAnnotation?: t.Node
+        binding?: Binding
+}
+
+/**
+ * Convert component type strategy
+ */
+export class ConvertComponentTypeStrategy extends BaseRefactoringStrategy {
+        canHandle(type: RefactoringType): boolean {
+                return type === 'convertComponentType'
+        }
+
+        async execute(context: ExtractionContext): Promise<RefactorResult> {
+                return wrapError(
+                        async () => {
+                                const { code, start, end, targetType } = context
+                                if (!targetType) {
+                                        throw new RefactoringError(
+                                                ErrorCode.EXTRACTION_ERROR,
+                                                'No component type to convert to',
+                                        )
+                                }
+
+                                const ast = this.astService.codeToAst(code)
+                                const declaration = this.findDeclaration(
+                                        ast,
+                                        code,
+                                        start,
+                                        end,
+                                )
+                                if (!declaration) {
+                                        throw new RefactoringError(
+                                                ErrorCode.INVALID_COMPONENT,
+                                                'Place the cursor in a component declaration',
+                                        )
+                                }
+                                if (declaration.type === targetType) {
+                                        throw new RefactoringError(
+                                                ErrorCode.INVALID_COMPONENT,
+                                                `'${declaration.name}' already has this form`,
+                                        )
+                                }
+                                if (declaration.unsupportedAnnotation) {
+                                        throw new RefactoringError(
+                                                ErrorCode.INVALID_COMPONENT,
+                                                `The type annotation of '${declaration.name}' can not be moved`,
+                                        )
+                                }
+                                if (
+                                        declaration.type === 'function' &&
+                                        this.isUsedBeforeDeclaration(
+                                                declaration,
+                                        )
+                                ) {
+                                        throw new RefactoringError(
+                                                ErrorCode.INVALID_COMPONENT,
+                                                `'${declaration.name}' is used before its declaration and would no longer be hoisted`,
+                                        )
+                                }
+
+                                const unit = detectIndentation(code)
+                                let replacement: string
+                                const edits: TextEdit[] = []
+                                if (declaration.type === 'class') {
+                                        replacement = this.fromClass(
+                                                declaration,
+                                                targetType,
+                                                code,
+                                                unit,
+                                        )
+                                } else if (targetType === 'class') {
+                                        const { names, edit } =
+                                                this.getReactImport(ast, [
+                                                        'Component',
+                                                ])
+                                        replacement = this.toClass(
+                                                declaration,
+                                                names.Component,
+                                                code,
+                                                unit,
+                                        )
+                                        if (edit) {
+                                                edits.push(edit)
+                                        }
+                                } else {
+                                        replacement = this.toFunction(
+                                                declaration,
+                                                targetType,
+                                                code,
+                                                unit,
+                                        )
+                                }
+
+                                const statementStart =
+                                        declaration.statement.node.start ?? 0
+                                return {
+                                        replaceJSXCode: replacement,
+                                        componentCode: '',
+                                        insertAt: statementStart,
+                                        replaceRange: {
+                                                start: statementStart,
+                                                end:
+                                                        declaration.statement
+                                                                .node.end ?? 0,
+                                        },
+                                        edits,
+                                }
+                        },
+                        ErrorCode.EXTRACTION_ERROR,
+                        'Failed to convert component',
+                )
+        }
+
+        /**
+         * Find the top level component declaration around the selection
+         */
+        private findDeclaration(
+                ast: t.File,
+                code: string,
+                start: number,
+                end: number,
+        ): ComponentDeclaration | undefined {
+                let programPath: NodePath<t.Program> | undefined
+                traverse(ast, {
+                        Program(path) {
+                                programPath = path
+                                path.stop()
+                        },
+                })
+
+                const statement = programPath
+                        ?.get('body')
+                        .find(
+                                ({ node }) =>
+                                        (node.start ?? 0) <= start &&
+                                        end <= (node.end ?? 0),
+                        )
+                if (!programPath || !statement) {
+                        return undefined
+                }
+
+                let exportKind: ComponentDeclaration['exportKind']
+                let declarationPath: NodePath = statement
+                if (statement.isExportNamedDeclaration()) {
+                        exportKind = 'named'
+                        declarationPath = statement.get(
+                                'declaration',
+                        ) as NodePath
+                } else if (statement.isExportDefaultDeclaration()) {
+                        exportKind = 'default'
+                        declarationPath = statement.get('declaration')
+                }
+
+                const base = {
+                        statement,
+                        exportKind,
+                        variableKind: 'const' as const,
+                }
+                const getBinding = (name: string) =>
+                        programPath?.scope.getBinding(name)
+
+                if (
+                        declarationPath.isFunctionDeclaration() &&
+                        isComponentName(declarationPath.node.id)
+                ) {
+                        const name = declarationPath.node.id.name
+                        return {
+                                ...base,
+                                type: 'function',
+                                name,
+                                functionPath: declarationPath,
+                                binding: getBinding(name),
+                        }
+                }
+
+                if (
+                        declarationPath.isClassDeclaration() &&
+                        isComponentName(declarationPath.node.id) &&
+                        this.isComponentClass(declarationPath.node)
+                ) {
+                        const name = declarationPath.node.id.name
+                        return {
+                                ...base,
+                                type: 'class',
+                                name,
+                                classPath: declarationPath,
+                                binding: getBinding(name),
+                        }
+                }
+
+                if (
+                        declarationPath.isVariableDeclaration() &&
+                        declarationPath.node.declarations.length === 1
+                ) {
+                        const declarator = declarationPath.get(
+                                'declarations.0',
+                        ) as NodePath<t.VariableDeclarator>
+                        const { id } = declarator.node
+                        const init = declarator.get('init')
+                        if (
+                                !isComponentName(id) ||
+                                !init.isArrowFunctionExpression()
+                        ) {
+                                return undefined
+                        }
+                        const annotation = t.isTSTypeAnnotation(
+                                id.typeAnnotation,
+                        )
+                                ? id.typeAnnotation.typeAnnotation
+                                : undefined
+                        const propsType =
+                                this.getFunctionComponentProps(annotation)
+                        return {
+                                ...base,
+                                type: 'arrowFunction',
+                                name: id.name,
+                                variableKind: declarationPath.node.kind as
+                                        | 'const'
+                                        | 'let'
+                                        | 'var',
+                                functionPath: init,
+                                propsType: propsType
+                                        ? slice(code, propsType)
+                                        : undefined,
+                                unsupportedAnnotation:
+                                        annotation && propsType === undefined
+                                                ? annotation
+                                                : undefined,
+                                binding: getBinding(id.name),
+                        }
+                }
+
+                return undefined
+        }
+
+        /**
+         * Check whether a class extends React.Component or React.PureComponent
+         */
+        private isComponentClass(node: t.ClassDeclaration): boolean {
+                const superClass = node.superClass
+                const name = t.isIdentifier(superClass)
+                        ? superClass.name
+                        : t.isMemberExpression(superClass) &&
+                            t.isIdentifier(superClass.property)
+                          ? superClass.property.name
+                          : undefined
+                return name === 'Component' || name === 'PureComponent'
+        }
+
+        /**
+         * Props type of a `React.FC<Props>` annotation, `null` for `React.FC`
+         */
+        private getFunctionComponentProps(
+                annotation: t.TSType | undefined,
+        ): t.TSType | null | undefined {
+                if (!t.isTSTypeReference(annotation)) {
+                        return undefined
+                }
+                const { typeName } = annotation
+                const name = t.isIdentifier(typeName)
+                        ? typeName.name
+                        : typeName.type === 'TSQualifiedName'
+                          ? typeName.right.name
+                          : undefined
+                if (!name || !FUNCTION_COMPONENT_TYPES.includes(name)) {
+                        return undefined
+                }
+                return annotation.typeParameters?.params[0] ?? null
+        }
+
+        /**
+         * Function declarations are hoisted, arrow functions and classes are not
+         */
+        private isUsedBeforeDeclaration(
+                declaration: ComponentDeclaration,
+        ): boolean {
+                const start = declaration.statement.node.start ?? 0
+                return !!declaration.binding?.referencePaths.some(
+                        (reference) =>
+                                (reference.node.start ?? 0) < start &&
+                                !reference.getFunctionParent(),
+                )
+        }
+
+        /**
+         * Convert a function declaration or an arrow function to the other form
+         */
+        private toFunction(
+                declaration: ComponentDeclaration,
+                targetType: ComponentType,
+                code: string,
+                unit: string,
+        ): string {
+                const fn = (
+                        declaration.functionPath as NodePath<
+                                | t.FunctionDeclaration
+                                | t.ArrowFunctionExpression
+                        >
+                ).node
+                const { name } = declaration
+                const async = fn.async ? 'async ' : ''
+                const params = this.getParamsCode(
+                        fn,
+                        declaration.propsType,
+                        code,
+                )
+                const returnType = fn.returnType
+                        ? slice(code, fn.returnType)
+                        : ''
+                const typeParameters = fn.typeParameters
+                        ? slice(code, fn.typeParameters)
+                        : ''
+
+                if (targetType === 'function') {
+                        return this.withExport(
+                                declaration,
+                                targetType,
+                                `${async}function ${name}${typeParameters.replace(/,\s*>$/, '>')}(${params})${returnType} ${this.getBlockCode(fn.body, code, unit)}`,
+                        )
+                }
+
+                if (fn.generator) {
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_COMPONENT,
+                                'Generator functions can not become arrow functions',
+                        )
+                }
+                return this.withExport(
+                        declaration,
+                        targetType,
+                        `${declaration.variableKind} ${name} = ${async}${this.getArrowTypeParameters(fn, code)}(${params})${returnType} => ${slice(code, fn.body)}`,
+                )
+        }
+
+        /**
+         * Convert a function component to a class component
+         */
+        private toClass(
+                declaration: ComponentDeclaration,
+                componentClass: string,
+                code: string,
+                unit: string,
+        ): string {
+                const functionPath = declaration.functionPath as NodePath<
+                        t.FunctionDeclaration | t.ArrowFunctionExpression
+                >
+                const fn = functionPath.node
+                if (fn.async || fn.generator) {
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_COMPONENT,
+                                'Async and generator functions can not become classes',
+                        )
+                }
+                if (fn.params.length > 1) {
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_COMPONENT,
+                                'Components taking a ref or context argument can not become classes',
+                        )
+                }
+                functionPath.traverse({
+                        CallExpression(path) {
+                                if (isHookCall(path.node)) {
+                                        throw new RefactoringError(
+                                                ErrorCode.INVALID_COMPONENT,
+                                                'Components calling hooks can not become classes',
+                                        )
+                                }
+                        },
+                })
+
+                const replacements: Replacement[] = []
+                let propsType = declaration.propsType
+                let destructuring = ''
+                const [param] = fn.params
+                const annotation =
+                        param &&
+                        'typeAnnotation' in param &&
+                        t.isTSTypeAnnotation(param.typeAnnotation)
+                                ? param.typeAnnotation
+                                : undefined
+                if (annotation) {
+                        propsType = slice(code, annotation.typeAnnotation)
+                }
+                if (t.isIdentifier(param)) {
+                        const binding = functionPath.scope.getBinding(
+                                param.name,
+                        )
+                        if (binding?.constantViolations.length) {
+                                throw new RefactoringError(
+                                        ErrorCode.INVALID_COMPONENT,
+                                        `'${param.name}' is reassigned and can not become this.props`,
+                                )
+                        }
+                        binding?.referencePaths.forEach((reference) => {
+                                const { parent } = reference
+                                replacements.push({
+                                        start: reference.node.start ?? 0,
+                                        end: reference.node.end ?? 0,
+                                        text:
+                                                t.isObjectProperty(parent) &&
+                                                parent.shorthand
+                                                        ? `${param.name}: this.props`
+                                                        : 'this.props',
+                                })
+                        })
+                } else if (t.isObjectPattern(param)) {
+                        const patternEnd = annotation?.start ?? param.end ?? 0
+                        destructuring = `const ${code.slice(param.start ?? 0, patternEnd).trim()} = this.props`
+                } else if (param) {
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_COMPONENT,
+                                'Only a props parameter can become this.props',
+                        )
+                }
+
+                let render = reindentBlock(
+                        this.getBlockCode(fn.body, code, unit, replacements),
+                        unit,
+                )
+                if (destructuring) {
+                        render = `{\n${unit}${destructuring}\n${render.slice(render.indexOf('{') + 1).replace(/^[ \t]*\n/, '')}`
+                }
+                const typeParameters = fn.typeParameters
+                        ? slice(code, fn.typeParameters).replace(/,\s*>$/, '>')
+                        : ''
+                const superClass = `${componentClass}${propsType ? `<${propsType}>` : ''}`
+                const returnType = fn.returnType
+                        ? slice(code, fn.returnType)
+                        : ''
+
+                return this.withExport(
+                        declaration,
+                        'class',
+                        `class ${declaration.name}${typeParameters} extends ${superClass} {\n${unit}render()${returnType} ${shift(render, 1, unit)}\n}`,
+                )
+        }
+
+        /**
+         * Convert a class component with only a render method to a function
+         */
+        private fromClass(
+                declaration: ComponentDeclaration,
+                targetType: ComponentType,
+                code: string,
+                unit: string,
+        ): string {
+                const classPath =
+                        declaration.classPath as NodePath<t.ClassDeclaration>
+                const { name } = declaration
+                const unsupported = new RefactoringError(
+                        ErrorCode.INVALID_COMPONENT,
+                        `'${name}' uses state or lifecycle methods, convert it with hooks instead`,
+                )
+
+                let render: NodePath<t.ClassMethod> | undefined
+                const statics: string[] = []
+                classPath.get('body.body').forEach((memberPath) => {
+                        if (
+                                memberPath.isClassMethod({ kind: 'method' }) &&
+                                !memberPath.node.static &&
+                                t.isIdentifier(memberPath.node.key, {
+                                        name: 'render',
+                                })
+                        ) {
+                                render = memberPath
+                        } else if (
+                                memberPath.isClassProperty() &&
+                                memberPath.node.static &&
+                                memberPath.node.value &&
+                                t.isIdentifier(memberPath.node.key)
+                        ) {
+                                statics.push(
+                                        `\n\n${name}.${memberPath.node.key.name} = ${slice(code, memberPath.node.value)}`,
+                                )
+                        } else if (!this.isEmptyConstructor(memberPath.node)) {
+                                throw unsupported
+                        }
+                })
+                const renderPath = render as NodePath<t.ClassMethod> | undefined
+                if (!renderPath) {
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_COMPONENT,
+                                `'${name}' has no render method`,
+                        )
+                }
+
+                const replacements: Replacement[] = []
+                renderPath.traverse({
+                        ThisExpression(path) {
+                                const owner = path.findParent(
+                                        (p) =>
+                                                p.isFunction() &&
+                                                !p.isArrowFunctionExpression(),
+                                )
+                                if (owner !== renderPath) {
+                                        return
+                                }
+                                const member = path.parent
+                                if (
+                                        !t.isMemberExpression(member) ||
+                                        member.computed ||
+                                        !t.isIdentifier(member.property, {
+                                                name: 'props',
+                                        })
+                                ) {
+                                        throw unsupported
+                                }
+                                replacements.push({
+                                        start: member.start ?? 0,
+                                        end: member.end ?? 0,
+                                        text: 'props',
+                                })
+                        },
+                })
+
+                const typeParams = (
+                        classPath.node.superTypeParameters as
+                                | t.TSTypeParameterInstantiation
+                                | null
+                                | undefined
+                )?.params
+                const propsType = typeParams?.[0]
+                        ? `: ${slice(code, typeParams[0])}`
+                        : ''
+                const params = replacements.length ? `props${propsType}` : ''
+                const returnType = renderPath.node.returnType
+                        ? slice(code, renderPath.node.returnType)
+                        : ''
+                const body = shift(
+                        sliceWith(code, renderPath.node.body, replacements),
+                        -1,
+                        unit,
+                )
+                const typeParameters = classPath.node.typeParameters
+                        ? slice(code, classPath.node.typeParameters)
+                        : ''
+
+                const converted =
+                        targetType === 'function'
+                                ? `function ${name}${typeParameters}(${params})${returnType} ${body}`
+                                : `const ${name} = ${typeParameters.replace(/^<\s*(\w+)\s*>$/, '<$1,>')}(${params})${returnType} => ${body}`
+                return this.withExport(
+                        declaration,
+                        targetType,
+                        converted,
+                        statics.join(''),
+                )
+        }
+
+        /**
+         * Check for a constructor only calling super(props)
+         */
+        private isEmptyConstructor(member: t.Node): boolean {
+                return (
+                        t.isClassMethod(member, { kind: 'constructor' }) &&
+                        member.body.body.every(
+                                (statement) =>
+                                        t.isExpressionStatement(statement) &&
+                                        t.isCallExpression(
+                                                statement.expression,
+                                        ) &&
+                                        t.isSuper(statement.expression.callee),
+                        )
+                )
+        }
+
+        /**
+         * Parameters code, typed with the props of a `React.FC` annotation
+         */
+        private getParamsCode(
+                fn: t.Function,
+                propsType: string | undefined,
+                code: string,
+        ): string {
+                const [first] = fn.params
+                const last = fn.params[fn.params.length - 1]
+                if (!first || !last) {
+                        return ''
+                }
+                const params = code.slice(first.start ?? 0, last.end ?? 0)
+                if (
+                        !propsType ||
+                        ('typeAnnotation' in first && first.typeAnnotation)
+                ) {
+                        return params
+                }
+                const firstLength = (first.end ?? 0) - (first.start ?? 0)
+                return `${params.slice(0, firstLength)}: ${propsType}${params.slice(firstLength)}`
+        }
+
+        /**
+         * Arrow function type parameters, with a trailing comma for a single
+         * unconstrained parameter so that it is not parsed as JSX
+         */
+        private getArrowTypeParameters(fn: t.Function, code: string): string {
+                const typeParameters = fn.typeParameters
+                if (!t.isTSTypeParameterDeclaration(typeParameters)) {
+                        return ''
+                }
+                const [param] = typeParameters.params
+                if (
+                        typeParameters.params.length === 1 &&
+                        param &&
+                        !param.constraint &&
+                        !param.default
+                ) {
+                        return `<${param.name},>`
+                }
+                return slice(code, typeParameters)
+        }
+
+        /**
+         * Block body code, wrapping an arrow function expression in a return
+         */
+        private getBlockCode(
+                body: t.BlockStatement | t.Expression,
+                code: string,
+                unit: string,
+                replacements: Replacement[] = [],
+        ): string {
+                if (t.isBlockStatement(body)) {
+                        return sliceWith(code, body, replacements)
+                }
+                const extra = body.extra as
+                        | { parenthesized?: boolean; parenStart?: number }
+                        | undefined
+                const start = extra?.parenthesized
+                        ? (extra.parenStart ?? body.start ?? 0)
+                        : (body.start ?? 0)
+                const end = extra?.parenthesized
+                        ? code.indexOf(')', body.end ?? 0) + 1
+                        : (body.end ?? 0)
+                const expression = sliceWith(code, { start, end }, replacements)
+                return `{\n${unit}return ${shift(expression, 1, unit)}\n}`
+        }
+
+        /**
+         * Restore the export modifiers of the converted declaration
+         */
+        private withExport(
+                declaration: ComponentDeclaration,
+                targetType: ComponentType,
+                converted: string,
+                statics = '',
+        ): string {
+                if (declaration.exportKind === 'named') {
+                        return `export ${converted}${statics}`
+                }
+                if (declaration.exportKind === 'default') {
+                        return targetType === 'arrowFunction'
+                                ? `${converted}${statics}\n\nexport default ${declaration.name}`
+                                : `export default ${converted}${statics}`
+                }
+                return `${converted}${statics}`
+        }
+}
+
+/**
+ * Check for an identifier naming a component
+ */
+function isComponentName(id: t.Node | null | undefined): id is t.Identifier {
+        return t.isIdentifier(id) && /^[A-Z]/.test(id.name)
+}
+
+/**
+ * Source code of a node
+ */
+function slice(code: string, node: t.Node): string {
+        return code.slice(node.start ?? 0, node.end ?? 0)
+}
+
+/**
+ * Source code of a range with some of its parts replaced
+ */
+function sliceWith(
+        code: string,
+        range: { start?: number | null; end?: number | null },
+        replacements: Replacement[],
+): string {
+        const start = range.start ?? 0
+        let result = code.slice(start, range.end ?? 0)
+        ;[...replacements]
+                .sort((a, b) => b.start - a.start)
+                .forEach((replacement) => {
+                        result = `${result.slice(0, replacement.start - start)}${replacement.text}${result.slice(replacement.end - start)}`
+                })
+        return result
+}
+
+/**
+ * Indent the statements of a block by one unit, from the indentation they
+ * have in the source, and its closing brace by none
+ */
+function reindentBlock(block: string, unit: string): string {
+        const lines = block.split('\n')
+        const bodyIndent = lines
+                .slice(1, -1)
+                .filter((line) => line.trim())
+                .map((line) => /^[ \t]*/.exec(line)?.[0] ?? '')
+                .reduce<string | undefined>(
+                        (shortest, indent) =>
+                                shortest === undefined ||
+                                indent.length < shortest.length
+                                        ? indent
+                                        : shortest,
+                        undefined,
+                )
+        if (lines.length < 3 || bodyIndent === undefined) {
+                return block
+        }
+        const body = mapCodeLines(lines.slice(1, -1).join('\n'), (line) =>
+                line.startsWith(bodyIndent)
+                        ? `${unit}${line.slice(bodyIndent.length)}`
+                        : line,
+        )
+        return `${lines[0]}\n${body}\n${lines[lines.length - 1].trimStart()}`
+}
+
+/**
+ * Indent or dedent every line after the first by whole levels of the
+ * indentation unit
+ */
+function shift(code: string, levels: number, unit: string): string {
+        return code
+                .split('\n')
+                .map((line, index) => {
+                        if (index === 0 || !line) {
+                                return line
+                        }
+                        if (levels > 0) {
+                                return `${unit.repeat(levels)}${line}`
+                        }
+                        const outdent = unit.repeat(-levels)
+                        return line.startsWith(outdent)
+                                ? line.slice(outdent.length)
+                                : line.trimStart()
+                })
+                .join('\n')
+}
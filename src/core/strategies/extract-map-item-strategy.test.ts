@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'bun:test'
+import { createEngine, DEFAULT_ENGINE_OPTIONS } from '../engine'
+
+const { babelPlugins: _, ...defaults } = DEFAULT_ENGINE_OPTIONS
+
+/**
+ * Untyped props, so that no TypeScript program is created
+ */
+const options = { ...defaults, propsTyping: 'none' as const }
+
+const engine = createEngine()
+
+async function extractMapItem(code: string, caret: string, name: string) {
+        const start = code.indexOf(caret)
+        const result = await engine.run('extractMapItem', {
+                name,
+                code,
+                start,
+                end: start,
+                produceClass: false,
+                options,
+        })
+        return { ...result, output: engine.applyEdits(code, result.edits) }
+}
+
+describe('ExtractMapItemStrategy', () => {
+        test('extracts a map item, keeping the key at the call site', async () => {
+                const code = `export function List({ items }) {
+  return (
+    <ul>
+      {items.map((item) => <li key={item.id}>{item.label}</li>)}
+    </ul>
+  )
+}
+`
+                const { props, output } = await extractMapItem(
+                        code,
+                        'items.map',
+                        'ListItem',
+                )
+
+                expect(props).toEqual(['key', 'item'])
+                expect(output).toContain('<li>{props.item.label}</li>')
+                expect(output).toContain(
+                        '{items.map((item) => <ListItem key={item.id} item={item}></ListItem>)}',
+                )
+        })
+
+        test('removes an unused index parameter, labelling the edit for the preview', async () => {
+                const code = `export function List({ items }) {
+  return <ul>{items.map((item, index) => <li key={item.id}>{item.label}</li>)}</ul>
+}
+`
+                const { edits, output } = await extractMapItem(
+                        code,
+                        'items.map',
+                        'Row',
+                )
+
+                expect(edits.map(({ label }) => label)).toEqual([
+                        'Replace selected JSX with the component',
+                        'Remove unused index parameter',
+                        'Insert extracted component',
+                ])
+                expect(output).toContain(
+                        '{items.map((item) => <RowItem key={item.id} item={item}></RowItem>)}',
+                )
+        })
+})
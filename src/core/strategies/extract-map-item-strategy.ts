@@ -0,0 +1,146 @@
+/**
+ * Extract Map Item Strategy - Move the JSX of a `.map()` callback into an item component
+ */
+
+import traverse, { type NodePath } from '@babel/traverse'
+import * as t from '@babel/types'
+import { wrapError } from '../../core/errors'
+import { getReturnedJSX } from '../../lib/ast'
+import type {
+        ExtractionContext,
+        RefactoringType,
+        RefactorResult,
+        TextEdit,
+} from '../../types'
+import { ErrorCode, RefactoringError } from '../../types'
+import { BaseRefactoringStrategy } from './refactoring-strategy'
+
+/**
+ * Prop receiving the index parameter of the callback
+ */
+const INDEX_PROP = 'index'
+
+/**
+ * Extract map item strategy
+ */
+export class ExtractMapItemStrategy extends BaseRefactoringStrategy {
+        canHandle(type: RefactoringType): boolean {
+                return type === 'extractMapItem'
+        }
+
+        async execute(context: ExtractionContext): Promise<RefactorResult> {
+                return wrapError(
+                        async () => {
+                                const { code, start, end } = context
+                                const ast = this.astService.codeToAst(code)
+                                const callback = this.findMapCallback(
+                                        ast,
+                                        start,
+                                        end,
+                                )
+                                const jsx =
+                                        callback &&
+                                        getReturnedJSX(callback.node)
+                                if (!callback || !jsx) {
+                                        throw new RefactoringError(
+                                                ErrorCode.INVALID_JSX,
+                                                'Place the cursor in a .map() callback returning JSX',
+                                        )
+                                }
+
+                                const [itemParam, indexParam] =
+                                        callback.node.params
+                                const propAliases: Record<string, string> = {}
+                                if (t.isIdentifier(itemParam)) {
+                                        propAliases[itemParam.name] =
+                                                itemParam.name
+                                }
+                                const edits: TextEdit[] = []
+                                if (t.isIdentifier(indexParam)) {
+                                        propAliases[indexParam.name] =
+                                                INDEX_PROP
+                                        if (
+                                                !callback.scope.getBinding(
+                                                        indexParam.name,
+                                                )?.referenced
+                                        ) {
+                                                edits.push({
+                                                        range: {
+                                                                start:
+                                                                        itemParam?.end ??
+                                                                        0,
+                                                                end:
+                                                                        indexParam.end ??
+                                                                        0,
+                                                        },
+                                                        newText: '',
+                                                        label: 'Remove unused index parameter',
+                                                })
+                                        }
+                                }
+
+                                const range = {
+                                        start: jsx.start ?? start,
+                                        end: jsx.end ?? end,
+                                }
+                                const result = await this.executeExtraction({
+                                        ...context,
+                                        ...range,
+                                        name: this.getItemName(context.name),
+                                        propAliases,
+                                })
+                                return {
+                                        ...result,
+                                        replaceRange:
+                                                result.replaceRange ?? range,
+                                        edits: [
+                                                ...(result.edits ?? []),
+                                                ...edits,
+                                        ],
+                                }
+                        },
+                        ErrorCode.EXTRACTION_ERROR,
+                        'Failed to extract list item component',
+                )
+        }
+
+        /**
+         * Find the innermost `.map()` arrow callback around the selection
+         */
+        private findMapCallback(
+                ast: t.File,
+                start: number,
+                end: number,
+        ): NodePath<t.ArrowFunctionExpression> | undefined {
+                let found: NodePath<t.ArrowFunctionExpression> | undefined
+                traverse(ast, {
+                        CallExpression(path) {
+                                const { callee, arguments: args } = path.node
+                                const callback = path.get('arguments.0')
+                                if (
+                                        t.isMemberExpression(callee) &&
+                                        !callee.computed &&
+                                        t.isIdentifier(callee.property, {
+                                                name: 'map',
+                                        }) &&
+                                        args.length > 0 &&
+                                        !Array.isArray(callback) &&
+                                        callback.isArrowFunctionExpression() &&
+                                        callback.node.params.length > 0 &&
+                                        (path.node.start ?? 0) <= start &&
+                                        end <= (path.node.end ?? 0)
+                                ) {
+                                        found = callback
+                                }
+                        },
+                })
+                return found
+        }
+
+        /**
+         * Name of the item component, suffixed with `Item`
+         */
+        private getItemName(name: string): string {
+                return name.endsWith('Item') ? name : `${name}Item`
+        }
+}
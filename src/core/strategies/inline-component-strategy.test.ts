@@ -0,0 +1,191 @@
+import { describe, expect, test } from 'bun:test'
+import { createEngine, DEFAULT_ENGINE_OPTIONS } from '../engine'
+
+const { babelPlugins: _, ...options } = DEFAULT_ENGINE_OPTIONS
+
+const engine = createEngine()
+
+async function inline(code: string, usage: string): Promise<string> {
+        const start = code.indexOf(usage) + 1
+        const result = await engine.run('inline', {
+                name: '',
+                code,
+                start,
+                end: start,
+                produceClass: false,
+                options,
+        })
+        return engine.applyEdits(code, result.edits)
+}
+
+describe('InlineComponentStrategy', () => {
+        test('inlines a string attribute as text', async () => {
+                const code = `function Badge({ label }) {
+  return <span className="badge" title={label}>{label}</span>
+}
+
+export function App() {
+  return (
+    <div>
+      <Badge label="New" />
+    </div>
+  )
+}
+`
+
+                expect(await inline(code, '<Badge label')).toContain(`<div>
+      <span className="badge" title="New">New</span>
+    </div>`)
+        })
+
+        test('inlines a missing prop as undefined', async () => {
+                const code = `function Tag({ label, active }) {
+  return <b className={active ? 'on' : ''}>{label}</b>
+}
+
+export function App() {
+  return <div><Tag active /></div>
+}
+`
+
+                expect(await inline(code, '<Tag active')).toContain(
+                        "return <div><b className={true ? 'on' : ''}>{undefined}</b></div>",
+                )
+        })
+
+        test('inlines default values of missing props', async () => {
+                const code = `function Size({ size = 2 }) {
+  return <i data-size={size}>{size}</i>
+}
+
+export function App() {
+  return <Size />
+}
+`
+
+                expect(await inline(code, '<Size />')).toContain(
+                        'return <i data-size={2}>{2}</i>',
+                )
+        })
+
+        test('parenthesizes values where their precedence changes', async () => {
+                const code = `const Length = (props) => <b>{props.value.length * 2}</b>
+
+export function App({ a, b }) {
+  return <Length value={a || b} />
+}
+`
+
+                expect(await inline(code, '<Length')).toContain(
+                        'return <b>{(a || b).length * 2}</b>',
+                )
+        })
+
+        test('refuses to evaluate a value with side effects twice', async () => {
+                const code = `function Twice({ v }) {
+  return <p>{v}{v}</p>
+}
+
+export function App() {
+  return <div><Twice v={compute()} /></div>
+}
+`
+
+                await expect(inline(code, '<Twice')).rejects.toThrow(
+                        "'v' is used 2 times",
+                )
+        })
+
+        test('refuses to drop a value with side effects', async () => {
+                const code = `function Box({ a }) {
+  return <div />
+}
+
+export function App() {
+  return <Box a={track()} />
+}
+`
+
+                await expect(inline(code, '<Box')).rejects.toThrow(
+                        "'a' is not used",
+                )
+        })
+
+        test('repeats values without side effects', async () => {
+                const code = `function Twice({ v }) {
+  return <p>{v}{v}</p>
+}
+
+export function App({ user }) {
+  return <div><Twice v={user.name} /></div>
+}
+`
+
+                expect(await inline(code, '<Twice')).toContain(
+                        '<p>{user.name}{user.name}</p>',
+                )
+        })
+
+        test('moves the JSX and its children to the indentation of the usage', async () => {
+                const code = `import React from 'react'
+
+class Card extends React.Component {
+  render() {
+    return (
+      <section className="card">
+        {this.props.children}
+      </section>
+    )
+  }
+}
+
+export function App({ user }) {
+  return (
+    <main>
+      {user && (
+        <Card key={user.id}>
+          <h2>{user.name}</h2>
+          <p>{user.bio}</p>
+        </Card>
+      )}
+    </main>
+  )
+}
+`
+
+                expect(
+                        await inline(code, '<Card key'),
+                ).toContain(`      {user && (
+        <section key={user.id} className="card">
+          <h2>{user.name}</h2>
+          <p>{user.bio}</p>
+        </section>
+      )}`)
+        })
+
+        test('removes the line of children that are not passed', async () => {
+                const code = `function Box({ children }) {
+  return (
+    <div>
+      <h1>Box</h1>
+      {children}
+    </div>
+  )
+}
+
+export function App() {
+  return (
+    <main>
+      <Box />
+    </main>
+  )
+}
+`
+
+                expect(await inline(code, '<Box />')).toContain(`    <main>
+      <div>
+        <h1>Box</h1>
+      </div>
+    </main>`)
+        })
+})
@@ -0,0 +1,907 @@
+/**
+ * Inline Component Strategy - Replace a JSX usage with the component's JSX
+ */
+
+import traverse, {
+        type Binding,
+        type NodePath,
+        type Scope,
+} from '@babel/traverse'
+import * as t from '@babel/types'
+import { wrapError } from '../../core/errors'
+import { codeFromNode, reprintNode } from '../../lib/ast'
+import {
+        dedentLines,
+        getLineIndentation,
+        indentLines,
+} from '../../lib/indentation'
+import type {
+        ExtractionContext,
+        RefactoringType,
+        RefactorResult,
+        TextEdit,
+        TextRange,
+} from '../../types'
+import { ErrorCode, RefactoringError } from '../../types'
+import { BaseRefactoringStrategy } from './refactoring-strategy'
+
+type JSXRoot = t.JSXElement | t.JSXFragment
+type JSXChild = t.JSXElement['children'][number]
+
+/**
+ * Component declaration resolved from a JSX usage
+ */
+interface ComponentDeclaration {
+        /** Statement declaring the component */
+        statement: NodePath
+        /** The JSX returned by the component */
+        jsxPath: NodePath<JSXRoot>
+        /** Props parameter of function components */
+        propsParam?: NodePath
+        isClass: boolean
+}
+
+/**
+ * Reference to a prop in the returned JSX
+ */
+interface PropReference {
+        path: NodePath
+        propName: string
+        /** Default value of a destructured prop */
+        fallback?: t.Expression
+}
+
+/**
+ * Inline component strategy
+ */
+export class InlineComponentStrategy extends BaseRefactoringStrategy {
+        canHandle(type: RefactoringType): boolean {
+                return type === 'inline'
+        }
+
+        async execute(context: ExtractionContext): Promise<RefactorResult> {
+                return wrapError(
+                        async () => {
+                                const { code, start, end } = context
+                                const ast = this.astService.codeToAst(code)
+                                const elementPath = this.findComponentElement(
+                                        ast,
+                                        start,
+                                        end,
+                                )
+                                if (!elementPath) {
+                                        throw new RefactoringError(
+                                                ErrorCode.INVALID_JSX,
+                                                'Select a component usage like <Header />',
+                                        )
+                                }
+
+                                const name = (
+                                        elementPath.node.openingElement
+                                                .name as t.JSXIdentifier
+                                ).name
+                                const binding =
+                                        elementPath.scope.getBinding(name)
+                                if (!binding) {
+                                        throw new RefactoringError(
+                                                ErrorCode.INVALID_COMPONENT,
+                                                `Component '${name}' is not declared in this file`,
+                                        )
+                                }
+                                const declaration = this.resolveDeclaration(
+                                        binding,
+                                        name,
+                                )
+                                if (
+                                        elementPath.findParent(
+                                                (p) =>
+                                                        p.node ===
+                                                        declaration.statement
+                                                                .node,
+                                        )
+                                ) {
+                                        throw new RefactoringError(
+                                                ErrorCode.INVALID_COMPONENT,
+                                                `Cannot inline '${name}' into itself`,
+                                        )
+                                }
+
+                                this.checkFreeReferences(
+                                        declaration,
+                                        elementPath,
+                                )
+                                const values = this.getAttributeValues(
+                                        elementPath.node,
+                                )
+                                const children = this.getChildren(
+                                        elementPath.node,
+                                )
+                                const references =
+                                        this.getPropReferences(declaration)
+                                this.checkEvaluations(
+                                        references,
+                                        values,
+                                        children,
+                                        elementPath.scope,
+                                )
+
+                                const jsxNode = declaration.jsxPath.node
+                                const edits = references.map((reference) =>
+                                        this.getPropEdit(
+                                                code,
+                                                reference,
+                                                values,
+                                                children,
+                                        ),
+                                )
+                                const key =
+                                        elementPath.node.openingElement.attributes.find(
+                                                (attribute) =>
+                                                        t.isJSXAttribute(
+                                                                attribute,
+                                                        ) &&
+                                                        t.isJSXIdentifier(
+                                                                attribute.name,
+                                                                { name: 'key' },
+                                                        ),
+                                        )
+                                if (key && t.isJSXElement(jsxNode)) {
+                                        const keyAt =
+                                                jsxNode.openingElement.name
+                                                        .end ?? 0
+                                        edits.push({
+                                                range: {
+                                                        start: keyAt,
+                                                        end: keyAt,
+                                                },
+                                                newText: ` ${code.slice(key.start ?? 0, key.end ?? 0)}`,
+                                        })
+                                }
+                                // Move the lines of the JSX from the indentation
+                                // of the component to the one of the usage
+                                const inlined = indentLines(
+                                        dedentLines(
+                                                reprintNode(
+                                                        code,
+                                                        jsxNode,
+                                                        edits,
+                                                ),
+                                                getLineIndentation(
+                                                        code,
+                                                        jsxNode.start ?? 0,
+                                                ),
+                                        ),
+                                        getLineIndentation(
+                                                code,
+                                                elementPath.node.start ?? start,
+                                        ),
+                                )
+
+                                return {
+                                        replaceJSXCode: inlined,
+                                        componentCode: '',
+                                        insertAt: 0,
+                                        replaceRange: {
+                                                start:
+                                                        elementPath.node
+                                                                .start ?? start,
+                                                end:
+                                                        elementPath.node.end ??
+                                                        end,
+                                        },
+                                        removableDeclaration:
+                                                this.getRemovableDeclaration(
+                                                        binding,
+                                                        name,
+                                                        declaration,
+                                                        code,
+                                                ),
+                                }
+                        },
+                        ErrorCode.EXTRACTION_ERROR,
+                        'Failed to inline component',
+                )
+        }
+
+        /**
+         * Find the innermost component element around the selection
+         */
+        private findComponentElement(
+                ast: t.File,
+                start: number,
+                end: number,
+        ): NodePath<t.JSXElement> | undefined {
+                let elementPath: NodePath<t.JSXElement> | undefined
+                traverse(ast as unknown as Parameters<typeof traverse>[0], {
+                        JSXElement(path) {
+                                const { node } = path
+                                const name = node.openingElement.name
+                                if (
+                                        t.isJSXIdentifier(name) &&
+                                        /^[A-Z]/.test(name.name) &&
+                                        (node.start ?? 0) <= start &&
+                                        (node.end ?? 0) >= end
+                                ) {
+                                        elementPath =
+                                                path as unknown as NodePath<t.JSXElement>
+                                }
+                        },
+                })
+                return elementPath
+        }
+
+        /**
+         * Resolve a function, arrow function or class component declaration
+         */
+        private resolveDeclaration(
+                binding: Binding,
+                name: string,
+        ): ComponentDeclaration {
+                const declarationPath = binding.path
+                let functionPath: NodePath<t.Function> | undefined
+                let statement: NodePath = declarationPath
+
+                if (declarationPath.isFunctionDeclaration()) {
+                        functionPath = declarationPath
+                } else if (declarationPath.isVariableDeclarator()) {
+                        const init = declarationPath.get('init')
+                        if (
+                                init.isArrowFunctionExpression() ||
+                                init.isFunctionExpression()
+                        ) {
+                                functionPath = init
+                        }
+                        statement = declarationPath.parentPath
+                } else if (declarationPath.isClassDeclaration()) {
+                        const render = declarationPath
+                                .get('body')
+                                .get('body')
+                                .find(
+                                        (member) =>
+                                                member.isClassMethod() &&
+                                                t.isIdentifier(
+                                                        member.node.key,
+                                                        {
+                                                                name: 'render',
+                                                        },
+                                                ),
+                                ) as NodePath<t.ClassMethod> | undefined
+                        if (render) {
+                                return {
+                                        statement,
+                                        jsxPath: this.getReturnedJSX(
+                                                render,
+                                                name,
+                                        ),
+                                        isClass: true,
+                                }
+                        }
+                }
+
+                if (!functionPath) {
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_COMPONENT,
+                                `'${name}' is not a function or class component`,
+                        )
+                }
+
+                const params = functionPath.get('params')
+                if (params.length > 1) {
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_COMPONENT,
+                                `'${name}' takes more than a props parameter`,
+                        )
+                }
+                return {
+                        statement,
+                        jsxPath: this.getReturnedJSX(functionPath, name),
+                        propsParam: params[0],
+                        isClass: false,
+                }
+        }
+
+        /**
+         * Get the JSX of a function whose body is a single return
+         */
+        private getReturnedJSX(
+                functionPath: NodePath<t.Function>,
+                name: string,
+        ): NodePath<JSXRoot> {
+                const body = functionPath.get('body') as NodePath
+                let argument: NodePath | undefined = body
+                if (body.isBlockStatement()) {
+                        const statements = body.get('body')
+                        const [statement] = statements
+                        argument =
+                                statements.length === 1 &&
+                                statement.isReturnStatement()
+                                        ? (statement.get(
+                                                  'argument',
+                                          ) as NodePath)
+                                        : undefined
+                }
+
+                while (argument?.isParenthesizedExpression()) {
+                        argument = argument.get('expression') as NodePath
+                }
+                if (
+                        !argument ||
+                        !(argument.isJSXElement() || argument.isJSXFragment())
+                ) {
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_COMPONENT,
+                                `'${name}' must return JSX from a single return statement`,
+                        )
+                }
+                return argument as NodePath<JSXRoot>
+        }
+
+        /**
+         * Map attributes of the usage to prop expressions
+         */
+        private getAttributeValues(
+                element: t.JSXElement,
+        ): Record<string, t.Expression> {
+                const values: Record<string, t.Expression> = {}
+                element.openingElement.attributes.forEach((attribute) => {
+                        if (t.isJSXSpreadAttribute(attribute)) {
+                                throw new RefactoringError(
+                                        ErrorCode.INVALID_JSX,
+                                        'Spread attributes cannot be inlined',
+                                )
+                        }
+                        const propName = t.isJSXNamespacedName(attribute.name)
+                                ? `${attribute.name.namespace.name}:${attribute.name.name.name}`
+                                : attribute.name.name
+                        const { value } = attribute
+                        if (!value) {
+                                values[propName] = t.booleanLiteral(true)
+                        } else if (t.isJSXExpressionContainer(value)) {
+                                if (!t.isJSXEmptyExpression(value.expression)) {
+                                        values[propName] = value.expression
+                                }
+                        } else {
+                                values[propName] = value
+                        }
+                })
+                return values
+        }
+
+        /**
+         * Children passed to the usage, without surrounding blank text
+         */
+        private getChildren(element: t.JSXElement): JSXChild[] {
+                const children = [...element.children]
+                const isBlank = (child?: JSXChild) =>
+                        t.isJSXText(child) && child.value.trim() === ''
+                while (isBlank(children[0])) {
+                        children.shift()
+                }
+                while (isBlank(children.at(-1))) {
+                        children.pop()
+                }
+                return children
+        }
+
+        /**
+         * Make sure identifiers used by the component resolve to the same
+         * bindings at the usage site
+         */
+        private checkFreeReferences(
+                declaration: ComponentDeclaration,
+                elementPath: NodePath<t.JSXElement>,
+        ): void {
+                const jsxNode = declaration.jsxPath.node
+                const propsBindings = this.getPropsBindings(declaration)
+                const isInsideJSX = (path: NodePath) =>
+                        (path.node.start ?? 0) >= (jsxNode.start ?? 0) &&
+                        (path.node.end ?? 0) <= (jsxNode.end ?? 0)
+
+                declaration.jsxPath.traverse({
+                        ReferencedIdentifier(path) {
+                                const { node } = path
+                                if (
+                                        !t.isIdentifier(node) &&
+                                        !t.isJSXIdentifier(node)
+                                ) {
+                                        return
+                                }
+                                const binding = path.scope.getBinding(node.name)
+                                if (
+                                        !binding ||
+                                        propsBindings.includes(binding) ||
+                                        isInsideJSX(binding.path)
+                                ) {
+                                        return
+                                }
+                                if (
+                                        elementPath.scope.getBinding(
+                                                node.name,
+                                        ) !== binding
+                                ) {
+                                        throw new RefactoringError(
+                                                ErrorCode.INVALID_COMPONENT,
+                                                `'${node.name}' is not available where the component is used`,
+                                        )
+                                }
+                        },
+                })
+        }
+
+        /**
+         * Bindings created by the props parameter
+         */
+        private getPropsBindings(declaration: ComponentDeclaration): Binding[] {
+                const param = declaration.propsParam
+                if (!param) {
+                        return []
+                }
+                return Object.keys(param.getBindingIdentifiers())
+                        .map((name) => param.scope.getBinding(name))
+                        .filter((binding): binding is Binding => !!binding)
+        }
+
+        /**
+         * References to props in the returned JSX
+         */
+        private getPropReferences(
+                declaration: ComponentDeclaration,
+        ): PropReference[] {
+                const references: PropReference[] = []
+                const inJSX = (path: NodePath) =>
+                        !!path.findParent(
+                                (p) => p.node === declaration.jsxPath.node,
+                        )
+
+                if (declaration.isClass) {
+                        declaration.jsxPath.traverse({
+                                ThisExpression(path) {
+                                        const member = path.parentPath
+                                        const outer = member.parentPath
+                                        if (
+                                                member.isMemberExpression() &&
+                                                t.isIdentifier(
+                                                        member.node.property,
+                                                        { name: 'props' },
+                                                ) &&
+                                                outer?.isMemberExpression() &&
+                                                !outer.node.computed &&
+                                                t.isIdentifier(
+                                                        outer.node.property,
+                                                )
+                                        ) {
+                                                references.push({
+                                                        path: outer,
+                                                        propName: outer.node
+                                                                .property.name,
+                                                })
+                                                return
+                                        }
+                                        throw new RefactoringError(
+                                                ErrorCode.INVALID_COMPONENT,
+                                                'Only this.props.* can be inlined from class components',
+                                        )
+                                },
+                        })
+                        return references
+                }
+
+                const param = declaration.propsParam
+                if (!param) {
+                        return references
+                }
+
+                if (param.isIdentifier()) {
+                        const binding = param.scope.getBinding(param.node.name)
+                        binding?.referencePaths.filter(inJSX).forEach((ref) => {
+                                const member = ref.parentPath
+                                if (
+                                        member?.isMemberExpression() &&
+                                        member.node.object === ref.node &&
+                                        !member.node.computed &&
+                                        t.isIdentifier(member.node.property)
+                                ) {
+                                        references.push({
+                                                path: member,
+                                                propName: member.node.property
+                                                        .name,
+                                        })
+                                        return
+                                }
+                                throw new RefactoringError(
+                                        ErrorCode.INVALID_COMPONENT,
+                                        `Only ${param.node.name}.* can be inlined`,
+                                )
+                        })
+                        return references
+                }
+
+                if (!param.isObjectPattern()) {
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_COMPONENT,
+                                'Unsupported props parameter',
+                        )
+                }
+
+                param.get('properties').forEach((property) => {
+                        if (!property.isObjectProperty()) {
+                                const bindingName = Object.keys(
+                                        property.getBindingIdentifiers(),
+                                )[0]
+                                if (
+                                        param.scope
+                                                .getBinding(bindingName)
+                                                ?.referencePaths.some(inJSX)
+                                ) {
+                                        throw new RefactoringError(
+                                                ErrorCode.INVALID_COMPONENT,
+                                                'Rest props cannot be inlined',
+                                        )
+                                }
+                                return
+                        }
+
+                        const { key, value, computed } = property.node
+                        let local = value
+                        let fallback: t.Expression | undefined
+                        if (t.isAssignmentPattern(local)) {
+                                fallback = local.right
+                                local = local.left
+                        }
+                        if (
+                                computed ||
+                                !t.isIdentifier(key) ||
+                                !t.isIdentifier(local)
+                        ) {
+                                throw new RefactoringError(
+                                        ErrorCode.INVALID_COMPONENT,
+                                        'Nested props destructuring cannot be inlined',
+                                )
+                        }
+                        const propName = key.name
+                        param.scope
+                                .getBinding(local.name)
+                                ?.referencePaths.filter(inJSX)
+                                .forEach((path) => {
+                                        references.push({
+                                                path,
+                                                propName,
+                                                fallback,
+                                        })
+                                })
+                })
+                return references
+        }
+
+        /**
+         * Make sure each value with side effects is still evaluated once,
+         * as substituting it for each reference would repeat or drop them
+         */
+        private checkEvaluations(
+                references: PropReference[],
+                values: Record<string, t.Expression>,
+                children: JSXChild[],
+                scope: Scope,
+        ): void {
+                const counts = new Map<string, number>()
+                references.forEach(({ propName }) => {
+                        counts.set(propName, (counts.get(propName) ?? 0) + 1)
+                })
+                const evaluated: Array<[string, t.Node[]]> = [
+                        ...Object.entries(values)
+                                .filter(([propName]) => propName !== 'key')
+                                .map(
+                                        ([propName, value]): [
+                                                string,
+                                                t.Node[],
+                                        ] => [propName, [value]],
+                                ),
+                        ['children', children],
+                ]
+                references.forEach(({ propName, fallback }) => {
+                        if (fallback && !values[propName]) {
+                                evaluated.push([propName, [fallback]])
+                        }
+                })
+
+                evaluated.forEach(([propName, nodes]) => {
+                        const count = counts.get(propName) ?? 0
+                        if (
+                                count === 1 ||
+                                nodes.every((node) => this.isPure(node, scope))
+                        ) {
+                                return
+                        }
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_COMPONENT,
+                                count
+                                        ? `'${propName}' is used ${count} times and its value would be evaluated as many times, assign it to a variable first`
+                                        : `'${propName}' is not used and its value would no longer be evaluated`,
+                        )
+                })
+        }
+
+        /**
+         * Whether evaluating a node has no side effects, so that it can be
+         * repeated or dropped
+         */
+        private isPure(node: t.Node, scope: Scope): boolean {
+                if (
+                        t.isIdentifier(node) ||
+                        t.isThisExpression(node) ||
+                        t.isJSXText(node) ||
+                        t.isJSXEmptyExpression(node)
+                ) {
+                        return true
+                }
+                if (
+                        t.isMemberExpression(node) ||
+                        t.isOptionalMemberExpression(node)
+                ) {
+                        return (
+                                this.isPure(node.object, scope) &&
+                                (!node.computed ||
+                                        this.isPure(node.property, scope))
+                        )
+                }
+                if (t.isJSXExpressionContainer(node)) {
+                        return this.isPure(node.expression, scope)
+                }
+                if (t.isJSXAttribute(node)) {
+                        return !node.value || this.isPure(node.value, scope)
+                }
+                if (t.isJSXElement(node) || t.isJSXFragment(node)) {
+                        const attributes = t.isJSXElement(node)
+                                ? node.openingElement.attributes
+                                : []
+                        return [...attributes, ...node.children].every(
+                                (child) =>
+                                        !t.isJSXSpreadAttribute(child) &&
+                                        !t.isJSXSpreadChild(child) &&
+                                        this.isPure(child, scope),
+                        )
+                }
+                return scope.isPure(node)
+        }
+
+        /**
+         * Edit replacing a props reference in the returned JSX with the value
+         * passed to the usage
+         */
+        private getPropEdit(
+                code: string,
+                { path, propName, fallback }: PropReference,
+                values: Record<string, t.Expression>,
+                children: JSXChild[],
+        ): TextEdit {
+                if (propName === 'children') {
+                        return this.getChildrenEdit(code, path, children)
+                }
+
+                const attributeValue = values[propName]
+                const value = attributeValue ?? fallback
+                const container = path.parentPath
+                const range = {
+                        start: path.node.start ?? 0,
+                        end: path.node.end ?? 0,
+                }
+                if (!value) {
+                        return { range, newText: 'undefined' }
+                }
+
+                if (
+                        t.isStringLiteral(value) &&
+                        value === attributeValue &&
+                        container?.isJSXExpressionContainer()
+                ) {
+                        const containerRange = {
+                                start: container.node.start ?? 0,
+                                end: container.node.end ?? 0,
+                        }
+                        // Keep string attributes as title="x" instead of
+                        // title={"x"}, and children as text
+                        if (container.parentPath.isJSXAttribute()) {
+                                return {
+                                        range: containerRange,
+                                        newText: this.getSource(code, value),
+                                }
+                        }
+                        if (
+                                value.value === value.value.trim() &&
+                                /^[^{}<>\n]+$/.test(value.value)
+                        ) {
+                                return {
+                                        range: containerRange,
+                                        newText: this.getSource(
+                                                code,
+                                                value,
+                                        ).slice(1, -1),
+                                }
+                        }
+                }
+
+                const text =
+                        t.isStringLiteral(value) && value === attributeValue
+                                ? codeFromNode(t.stringLiteral(value.value))
+                                : this.getSource(code, value)
+                return {
+                        range,
+                        newText: this.needsParentheses(path, value)
+                                ? `(${text})`
+                                : text,
+                }
+        }
+
+        /**
+         * Whether a value substituted for a reference must be parenthesized
+         * to keep its precedence
+         */
+        private needsParentheses(path: NodePath, value: t.Expression): boolean {
+                const { parentPath, listKey } = path
+                return !(
+                        t.isIdentifier(value) ||
+                        t.isLiteral(value) ||
+                        t.isThisExpression(value) ||
+                        t.isMemberExpression(value) ||
+                        t.isOptionalMemberExpression(value) ||
+                        t.isCallExpression(value) ||
+                        t.isOptionalCallExpression(value) ||
+                        t.isArrayExpression(value) ||
+                        t.isJSXElement(value) ||
+                        t.isJSXFragment(value) ||
+                        value.extra?.parenthesized ||
+                        parentPath?.isJSXExpressionContainer() ||
+                        parentPath?.isArrayExpression() ||
+                        listKey === 'arguments'
+                )
+        }
+
+        /**
+         * Edit replacing a children reference with the children of the usage
+         */
+        private getChildrenEdit(
+                code: string,
+                path: NodePath,
+                children: JSXChild[],
+        ): TextEdit {
+                const container = path.parentPath
+                const first = children[0]
+                const last = children.at(-1)
+                const text =
+                        first && last
+                                ? code.slice(first.start ?? 0, last.end ?? 0)
+                                : ''
+
+                if (
+                        container?.isJSXExpressionContainer() &&
+                        (container.parentPath.isJSXElement() ||
+                                container.parentPath.isJSXFragment())
+                ) {
+                        const start = container.node.start ?? 0
+                        const end = container.node.end ?? 0
+                        if (!text) {
+                                return {
+                                        range: this.getLineRange(
+                                                code,
+                                                start,
+                                                end,
+                                        ),
+                                        newText: '',
+                                }
+                        }
+                        // Move the lines of the children from the indentation
+                        // of the usage to the one of the reference
+                        return {
+                                range: { start, end },
+                                newText: indentLines(
+                                        dedentLines(
+                                                text,
+                                                getLineIndentation(
+                                                        code,
+                                                        first?.start ?? 0,
+                                                ),
+                                        ),
+                                        getLineIndentation(code, start),
+                                ),
+                        }
+                }
+
+                const range = {
+                        start: path.node.start ?? 0,
+                        end: path.node.end ?? 0,
+                }
+                if (
+                        children.length === 1 &&
+                        (t.isJSXElement(first) || t.isJSXFragment(first))
+                ) {
+                        return { range, newText: text }
+                }
+                return {
+                        range,
+                        newText: children.length ? `<>${text}</>` : 'undefined',
+                }
+        }
+
+        /**
+         * Source text of a node, or its generated code for a new node
+         */
+        private getSource(code: string, node: t.Node): string {
+                return node.start !== null &&
+                        node.start !== undefined &&
+                        node.end !== null &&
+                        node.end !== undefined
+                        ? code.slice(node.start, node.end)
+                        : codeFromNode(node)
+        }
+
+        /**
+         * Ranges to delete when the inlined usage was the last one
+         */
+        private getRemovableDeclaration(
+                binding: Binding,
+                name: string,
+                declaration: ComponentDeclaration,
+                code: string,
+        ): RefactorResult['removableDeclaration'] {
+                const statement = declaration.statement
+                if (
+                        !statement.parentPath?.isProgram() ||
+                        (statement.isVariableDeclaration() &&
+                                statement.node.declarations.length > 1)
+                ) {
+                        return undefined
+                }
+
+                const ranges: TextRange[] = [
+                        this.getStatementRange(statement, code),
+                ]
+                let usages = 0
+                binding.referencePaths.forEach((ref) => {
+                        if (ref.parentPath?.isJSXClosingElement()) {
+                                return
+                        }
+                        const assignment = ref.parentPath?.parentPath
+                        const assignmentStatement = assignment?.parentPath
+                        if (
+                                ref.parentPath?.isMemberExpression() &&
+                                assignment?.isAssignmentExpression() &&
+                                assignment.node.left === ref.parent &&
+                                assignmentStatement?.isExpressionStatement() &&
+                                assignmentStatement.parentPath.isProgram()
+                        ) {
+                                ranges.push(
+                                        this.getStatementRange(
+                                                assignmentStatement,
+                                                code,
+                                        ),
+                                )
+                                return
+                        }
+                        usages++
+                })
+
+                // The inlined usage is the only one left
+                return usages === 1 ? { name, ranges } : undefined
+        }
+
+        /**
+         * Range of a statement with its leading comments and line break
+         */
+        private getStatementRange(
+                statement: NodePath,
+                code: string,
+        ): TextRange {
+                const { node } = statement
+                let start = node.leadingComments?.[0]?.start ?? node.start ?? 0
+                let end = node.end ?? start
+                const lineStart = code.lastIndexOf('\n', start - 1) + 1
+                if (code.slice(lineStart, start).trim() === '') {
+                        start = lineStart
+                }
+                const trailing = /^[ \t;]*\r?\n([ \t]*\r?\n)?/.exec(
+                        code.slice(end),
+                )
+                end += trailing?.[0].length ?? 0
+                return { start, end }
+        }
+}
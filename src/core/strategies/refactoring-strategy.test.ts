@@ -0,0 +1,498 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import type { ExtractionContext, RefactoringType } from '../../types'
+import { createEngine, DEFAULT_ENGINE_OPTIONS } from '../engine'
+
+const { babelPlugins: _, ...defaults } = DEFAULT_ENGINE_OPTIONS
+
+/**
+ * Untyped props, so that no TypeScript program is created
+ */
+const options = { ...defaults, propsTyping: 'none' as const }
+
+const engine = createEngine()
+
+const fileName = path.join(__dirname, 'App.jsx')
+
+function select(code: string, text: string) {
+        const start = code.indexOf(text)
+        if (start < 0) throw new Error(`'${text}' is not in the code`)
+        return { start, end: start + text.length }
+}
+
+async function refactor(
+        type: RefactoringType,
+        code: string,
+        range: { start: number; end: number },
+        context: Partial<ExtractionContext> = {},
+) {
+        const result = await engine.run(type, {
+                name: 'Component',
+                code,
+                ...range,
+                produceClass: false,
+                options,
+                ...context,
+        })
+        return { ...result, output: engine.applyEdits(code, result.edits) }
+}
+
+const app = `import React from 'react'
+
+export function App({ user, open }) {
+  return (
+    <div>
+      <h1 className="title">{user.name}</h1>
+      <p>{user.bio}</p>
+      {open && <span>Open</span>}
+    </div>
+  )
+}
+`
+
+async function extractToFile(
+        code: string,
+        selection: string,
+        name: string,
+        context: Partial<ExtractionContext> = {},
+) {
+        const start = code.indexOf(selection)
+        const result = await engine.run('extractToFile', {
+                name,
+                code,
+                start,
+                end: start + selection.length,
+                produceClass: false,
+                options,
+                fileName,
+                ...context,
+        })
+        return {
+                output: engine.applyEdits(code, result.edits),
+                content: result.newFile?.content,
+                newFileName: result.newFile?.fileName,
+        }
+}
+
+describe('ExtractToFileStrategy', () => {
+        test('moves the module declarations the component uses to its file', async () => {
+                const code = `import React from 'react'
+
+const PREFIX = 'v'
+// Colors of the badges
+const COLORS = { new: 'green', old: PREFIX + 'gray' }
+
+export function App({ kind }) {
+  return (
+    <div>
+      <span style={{ color: COLORS.new }}>{kind}</span>
+    </div>
+  )
+}
+`
+                const { output, content } = await extractToFile(
+                        code,
+                        '<span style={{ color: COLORS.new }}>{kind}</span>',
+                        'Badge',
+                )
+
+                expect(output).toBe(`import React from 'react'
+import { Badge } from './Badge'
+
+export function App({ kind }) {
+  return (
+    <div>
+      <Badge kind={kind}></Badge>
+    </div>
+  )
+}
+`)
+                expect(content).toContain(`import React from 'react'
+
+const PREFIX = 'v'
+// Colors of the badges
+const COLORS = { new: 'green', old: PREFIX + 'gray' }
+
+export function Badge(props) {`)
+        })
+
+        test('exports the moved declarations the source still uses', async () => {
+                const code = `import React from 'react'
+
+const LABELS = { title: 'Title' }
+
+export function App() {
+  return (
+    <div title={LABELS.title}>
+      <h1>{LABELS.title}</h1>
+    </div>
+  )
+}
+`
+                const { output, content } = await extractToFile(
+                        code,
+                        '<h1>{LABELS.title}</h1>',
+                        'Heading',
+                )
+
+                expect(output).toContain(
+                        "import { Heading, LABELS } from './Heading'",
+                )
+                expect(output).not.toContain('const LABELS')
+                expect(content).toContain(
+                        "export const LABELS = { title: 'Title' }",
+                )
+        })
+
+        test('refuses to import an exported declaration back', async () => {
+                const code = `export const SIZE = 2
+
+export function App() {
+  return <div><span>{SIZE}</span></div>
+}
+`
+
+                await expect(
+                        extractToFile(code, '<span>{SIZE}</span>', 'Size'),
+                ).rejects.toThrow("'SIZE' is exported by the file")
+        })
+
+        test('names the file by convention and imports it in the source style', async () => {
+                const code = `import React from "react";
+
+export function App({ user }) {
+  return <div><span>{user.name}</span></div>;
+}
+`
+                const { output, content, newFileName } = await extractToFile(
+                        code,
+                        '<span>{user.name}</span>',
+                        'UserName',
+                        { options: { ...options, fileNaming: 'kebab-case' } },
+                )
+
+                expect(newFileName).toBe(path.join(__dirname, 'user-name.jsx'))
+                expect(output).toStartWith(`import React from "react";
+import { UserName } from "./user-name";
+`)
+                expect(content).toStartWith('import React from "react";\n')
+        })
+
+        test('refuses to overwrite a file or to extract from an unsaved one', async () => {
+                const directory = mkdtempSync(
+                        path.join(os.tmpdir(), 'extract-'),
+                )
+                writeFileSync(path.join(directory, 'Title.jsx'), '')
+                const code = 'export const App = () => <div><h1>Hi</h1></div>\n'
+
+                try {
+                        await expect(
+                                extractToFile(code, '<h1>Hi</h1>', 'Title', {
+                                        fileName: path.join(
+                                                directory,
+                                                'App.jsx',
+                                        ),
+                                }),
+                        ).rejects.toThrow('File already exists: Title.jsx')
+                } finally {
+                        rmSync(directory, { recursive: true, force: true })
+                }
+                await expect(
+                        extractToFile(code, '<h1>Hi</h1>', 'Title', {
+                                fileName: 'Untitled-1',
+                        }),
+                ).rejects.toThrow(
+                        'Save the file before extracting to a new file',
+                )
+        })
+})
+
+describe('ExtractToComponentStrategy', () => {
+        const project = mkdtempSync(path.join(os.tmpdir(), 'templates-'))
+        afterAll(() => rmSync(project, { recursive: true, force: true }))
+
+        test('extracts an element, passing the expressions it uses', async () => {
+                const { props, output } = await refactor(
+                        'extract',
+                        app,
+                        select(app, '<h1 className="title">{user.name}</h1>'),
+                        { name: 'Title' },
+                )
+
+                expect(props).toEqual(['name'])
+                expect(output).toContain(`function Title(props) {
+  return (
+    <h1 className="title">{props.name}</h1>
+  );
+}`)
+                expect(output).toContain('<Title name={user.name}></Title>')
+        })
+
+        test('keeps the comments and quotes of the extracted JSX', async () => {
+                const code = `export function App({ user }) {
+  return (
+    <main>
+      <section className='profile'>
+        {/* Name of the user */}
+        <h1 title='name'>{user.name}</h1>
+      </section>
+    </main>
+  )
+}
+`
+                const { output } = await refactor(
+                        'extract',
+                        code,
+                        {
+                                start: code.indexOf('<section'),
+                                end: select(code, '</section>').end,
+                        },
+                        { name: 'Profile' },
+                )
+
+                expect(output).toContain(`    <section className='profile'>
+      {/* Name of the user */}
+      <h1 title='name'>{props.name}</h1>
+    </section>`)
+        })
+
+        test('wraps sibling elements in a fragment', async () => {
+                const { props, output } = await refactor(
+                        'extract',
+                        app,
+                        select(
+                                app,
+                                `<h1 className="title">{user.name}</h1>
+      <p>{user.bio}</p>`,
+                        ),
+                        { name: 'Header' },
+                )
+
+                expect(props).toEqual(['user'])
+                expect(
+                        output,
+                ).toContain(`<><h1 className="title">{props.user.name}</h1>
+    <p>{props.user.bio}</p></>`)
+                expect(output).toContain(`<div>
+      <Header user={user}></Header>
+      {open && <span>Open</span>}`)
+        })
+
+        test('wraps siblings in the configured fragment syntax, keeping text', async () => {
+                const code = `import React from 'react'
+
+export function App({ user }) {
+  return (
+    <div>
+      <h1>{user.name}</h1>
+      text
+      <p>{user.bio}</p>
+    </div>
+  )
+}
+`
+                const { output } = await refactor(
+                        'extract',
+                        code,
+                        {
+                                start: code.indexOf('<h1>'),
+                                end: select(code, '</p>').end,
+                        },
+                        {
+                                name: 'Header',
+                                options: { ...options, fragmentSyntax: 'long' },
+                        },
+                )
+
+                expect(
+                        output,
+                ).toContain(`<React.Fragment><h1>{props.user.name}</h1>
+    text
+    <p>{props.user.bio}</p></React.Fragment>`)
+                expect(output).toContain(`<div>
+      <Header user={user}></Header>
+    </div>`)
+        })
+
+        test('extracts a whole condition', async () => {
+                const { props, output } = await refactor(
+                        'extract',
+                        app,
+                        select(app, '{open && <span>Open</span>}'),
+                        { name: 'Status', conditionMode: 'whole' },
+                )
+
+                expect(props).toEqual(['open'])
+                expect(output).toContain(
+                        'props.open ? <span>Open</span> : null',
+                )
+                expect(output).toContain('<Status open={open}></Status>')
+        })
+
+        test('extracts the consequent of a condition', async () => {
+                const { props, output } = await refactor(
+                        'extract',
+                        app,
+                        select(app, '{open && <span>Open</span>}'),
+                        { name: 'Status', conditionMode: 'consequent' },
+                )
+
+                expect(props).toEqual([])
+                expect(output).toContain(`function Status() {
+  return (
+    <span>Open</span>
+  );
+}`)
+                expect(output).toContain('{open && <Status></Status>}')
+        })
+
+        test('extracts a wrapper around the selected children', async () => {
+                const code = `export function Page({ title, children }) {
+  return (
+    <section className="card">
+      <h2>{title}</h2>
+      <div className="body">{children}</div>
+    </section>
+  )
+}
+`
+                const { props, output } = await refactor(
+                        'extract',
+                        code,
+                        select(
+                                code,
+                                `<section className="card">
+      <h2>{title}</h2>
+      <div className="body">{children}</div>
+    </section>`,
+                        ),
+                        {
+                                name: 'Card',
+                                childrenRange: select(
+                                        code,
+                                        '<div className="body">{children}</div>',
+                                ),
+                        },
+                )
+
+                expect(props).toEqual(['title', 'children'])
+                expect(output).toContain(`<section className="card">
+      <h2>{props.title}</h2>
+      {props.children}
+    </section>`)
+                expect(output).toContain(
+                        '<Card title={title}><div className="body">{children}</div></Card>',
+                )
+        })
+
+        test('merges the imports of a template into the file imports', async () => {
+                const templates = path.join(project, 'templates')
+                mkdirSync(templates)
+                writeFileSync(
+                        path.join(templates, 'arrowFunction.tsx.template'),
+                        `import type { FC } from 'react'
+import { memo } from 'react'
+
+export const {{name}}: FC<{{propsType}}> = memo(({{props}}) => (
+  {{jsx}}
+))
+`,
+                )
+                const code = `import React, { useState } from 'react'
+
+export function App({ user }) {
+  const [open] = useState(false)
+  return <div><h1>{user.name}</h1></div>
+}
+`
+                const start = code.indexOf('<h1>')
+                const result = await engine.run('extract', {
+                        name: 'Title',
+                        code,
+                        start,
+                        end: code.indexOf('</div>'),
+                        produceClass: false,
+                        options: {
+                                ...options,
+                                functionType: 'arrowFunction',
+                                templatesDirectory: templates,
+                        },
+                        fileName: path.join(project, 'App.tsx'),
+                })
+
+                expect(
+                        engine.applyEdits(code, result.edits),
+                ).toBe(`import React, { useState, memo } from 'react'
+import type { FC } from 'react'
+
+export const Title: FC = memo((props) => (
+  <h1>{props.name}</h1>
+))
+
+export function App({ user }) {
+  const [open] = useState(false)
+  return <div><Title name={user.name}></Title></div>
+}
+`)
+        })
+})
+
+describe('ExtractToHookStrategy', () => {
+        test('extracts statements to a hook with the source indentation', async () => {
+                const code = `import React, { useState, useEffect } from 'react'
+
+export function Profile({ id }) {
+  const [user, setUser] = useState(null)
+  useEffect(() => {
+    fetch(id).then(setUser)
+  }, [id])
+  return <p>{user?.name}</p>
+}
+`
+                const { output } = await refactor(
+                        'extractToHook',
+                        code,
+                        {
+                                start: code.indexOf('const [user'),
+                                end: select(code, '}, [id])').end,
+                        },
+                        { name: 'useUser' },
+                )
+
+                expect(output).toContain(`function useUser(id) {
+  const [user, setUser] = useState(null)
+  useEffect(() => {
+    fetch(id).then(setUser)
+  }, [id])
+
+  return { user }
+}`)
+                expect(output).toContain(`export function Profile({ id }) {
+  const { user } = useUser(id)
+  return <p>{user?.name}</p>
+}`)
+        })
+
+        test('rejects a selection returning from the component', async () => {
+                const code = `export function Label({ id }) {
+  const [count] = useState(0)
+  if (!id) return null
+  return <p>{count}</p>
+}
+`
+                const range = {
+                        start: code.indexOf('const [count'),
+                        end: select(code, 'return null').end,
+                }
+
+                await expect(
+                        refactor('extractToHook', code, range, {
+                                name: 'useLabel',
+                        }),
+                ).rejects.toThrow(
+                        'Selection must not return from the component',
+                )
+        })
+})
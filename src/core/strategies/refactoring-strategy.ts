@@ -2,25 +2,40 @@
  * Refactoring Strategy Pattern Implementation
  */
 
-import type { NodePath } from '@babel/traverse'
+import { existsSync } from 'node:fs'
+import * as path from 'node:path'
+import traverse, { type NodePath } from '@babel/traverse'
 import * as t from '@babel/types'
 import { wrapError } from '../../core/errors'
 import {
+        applyEditsInRange,
         codeFromNode,
+        findUnboundReferences,
         isFunctionBinding,
         isPathInRange,
         isPathRemoved,
+        reprintNode,
 } from '../../lib/ast'
+import {
+        dedentLines,
+        detectIndentation,
+        getLineIndentation,
+} from '../../lib/indentation'
 import type {
+        ComponentType,
         ExtractionContext,
+        FragmentSyntax,
         IASTService,
         IComponentGeneratorFactory,
         IRefactoringStrategy,
-        IVSCodeService,
+        ITypeService,
         RefactoringType,
         RefactorResult,
+        TextEdit,
+        TextRange,
 } from '../../types'
 import { ErrorCode, RefactoringError } from '../../types'
+import { formatFileName, generatePropsInterface } from '../../utils'
 
 /**
  * Base refactoring strategy
@@ -29,7 +44,7 @@ export abstract class BaseRefactoringStrategy implements IRefactoringStrategy {
         constructor(
                 protected readonly astService: IASTService,
                 protected readonly componentFactory: IComponentGeneratorFactory,
-                protected readonly vscodeService: IVSCodeService,
+                protected readonly typeService?: ITypeService,
         ) {}
 
         abstract execute(context: ExtractionContext): Promise<RefactorResult>
@@ -37,35 +52,90 @@ export abstract class BaseRefactoringStrategy implements IRefactoringStrategy {
 
         /**
          * Execute the core extraction logic
+         * @param context
+         * @param resolveImports imports of a component written to its own
+         * file, from its code generated without them
          */
         protected async executeExtraction(
                 context: ExtractionContext,
+                resolveImports?: (componentCode: string) => string,
         ): Promise<RefactorResult> {
                 return wrapError(
                         async () => {
                                 const { name, code, start, end, produceClass } =
                                         context
 
-                                let selectionCode = code.substring(start, end)
+                                const selectionCode = code.substring(start, end)
+                                const isCondition =
+                                        !this.astService.isJSX(selectionCode) &&
+                                        this.astService.isJSXCondition(
+                                                selectionCode,
+                                        )
 
-                                if (!this.astService.isJSX(selectionCode)) {
+                                if (
+                                        !isCondition &&
+                                        !this.astService.isJSX(selectionCode)
+                                ) {
                                         throw new RefactoringError(
                                                 ErrorCode.INVALID_JSX,
                                                 'Invalid JSX selected',
                                         )
                                 }
 
-                                if (!this.astService.jsxToAst(selectionCode)) {
-                                        selectionCode = `<div>${selectionCode}</div>`
-                                }
-
                                 const ast = this.astService.codeToAst(code)
-                                const selectedPath =
-                                        this.astService.findSelectedJSXElement(
-                                                ast,
-                                                start,
-                                                end,
+                                const conditionPath = isCondition
+                                        ? this.astService.findSelectedJSXCondition(
+                                                  ast,
+                                                  start,
+                                                  end,
+                                          )
+                                        : undefined
+                                if (
+                                        conditionPath &&
+                                        context.conditionMode === 'consequent'
+                                ) {
+                                        const branch = this.getConsequent(
+                                                conditionPath.node
+                                                        .expression as t.Expression,
                                         )
+                                        const branchRange = {
+                                                start: branch.start ?? start,
+                                                end: branch.end ?? end,
+                                        }
+                                        const result =
+                                                await this.executeExtraction(
+                                                        {
+                                                                ...context,
+                                                                ...branchRange,
+                                                                conditionMode:
+                                                                        undefined,
+                                                        },
+                                                        resolveImports,
+                                                )
+                                        return {
+                                                ...result,
+                                                replaceRange:
+                                                        result.replaceRange ??
+                                                        branchRange,
+                                        }
+                                }
+
+                                const siblingPaths = isCondition
+                                        ? []
+                                        : this.astService.findSelectedJSXChildren(
+                                                  ast,
+                                                  start,
+                                                  end,
+                                          )
+                                const selectedPath = conditionPath
+                                        ? conditionPath.get('expression')
+                                        : siblingPaths.length
+                                          ? siblingPaths[0]
+                                          : this.astService.findSelectedJSXElement(
+                                                    ast,
+                                                    start,
+                                                    end,
+                                            )
 
                                 if (!selectedPath) {
                                         throw new RefactoringError(
@@ -74,6 +144,22 @@ export abstract class BaseRefactoringStrategy implements IRefactoringStrategy {
                                         )
                                 }
 
+                                const slotPaths = context.childrenRange
+                                        ? this.findChildrenSlot(
+                                                  ast,
+                                                  selectedPath,
+                                                  context.childrenRange,
+                                          )
+                                        : []
+                                const slotChildren = slotPaths.map(
+                                        (path) =>
+                                                t.cloneDeep(
+                                                        path.node,
+                                                ) as t.JSXElement['children'][number],
+                                )
+                                const slotStart = slotPaths[0]?.node.start ?? 0
+                                const slotEnd = slotPaths.at(-1)?.node.end ?? 0
+
                                 const parentPath =
                                         this.astService.findParentComponent(
                                                 selectedPath,
@@ -85,14 +171,30 @@ export abstract class BaseRefactoringStrategy implements IRefactoringStrategy {
                                         )
 
                                 const paths = referencePaths.filter(
-                                        isPathInRange(start, end),
+                                        (path) =>
+                                                isPathInRange(
+                                                        start,
+                                                        end,
+                                                )(path) &&
+                                                !(
+                                                        slotPaths.length &&
+                                                        isPathInRange(
+                                                                slotStart,
+                                                                slotEnd,
+                                                        )(path)
+                                                ),
                                 )
 
                                 const passedProps: Record<string, t.Node> = {}
-                                const keyAttribute =
-                                        this.copyAndRemoveKeyAttribute(
-                                                selectedPath,
-                                        )
+                                const propRanges: Record<string, TextRange> = {}
+                                // Changes to the moved JSX, reprinted from the source
+                                const jsxEdits: TextEdit[] = []
+                                const keyAttribute = siblingPaths.length
+                                        ? undefined
+                                        : this.copyAndRemoveKeyAttribute(
+                                                  selectedPath,
+                                                  jsxEdits,
+                                          )
                                 if (keyAttribute) {
                                         passedProps.key = keyAttribute
                                 }
@@ -181,6 +283,14 @@ export abstract class BaseRefactoringStrategy implements IRefactoringStrategy {
                                                 propName = 'prop'
                                         }
 
+                                        const alias = this.getPropAlias(
+                                                path.node,
+                                                context.propAliases,
+                                        )
+                                        if (alias) {
+                                                container = alias
+                                        }
+
                                         if (container) {
                                                 propName =
                                                         this.matchRouteInObject(
@@ -198,6 +308,23 @@ export abstract class BaseRefactoringStrategy implements IRefactoringStrategy {
                                                         ] = t.identifier(
                                                                 container.object,
                                                         )
+                                                        propRanges[
+                                                                container.property
+                                                        ] = {
+                                                                start:
+                                                                        path
+                                                                                .node
+                                                                                .start ??
+                                                                        0,
+                                                                end:
+                                                                        (path
+                                                                                .node
+                                                                                .start ??
+                                                                                0) +
+                                                                        container
+                                                                                .object
+                                                                                .length,
+                                                        }
                                                 }
                                         } else {
                                                 propName =
@@ -211,58 +338,178 @@ export abstract class BaseRefactoringStrategy implements IRefactoringStrategy {
                                                                 t.cloneDeep(
                                                                         path.node,
                                                                 )
+                                                        propRanges[propName] = {
+                                                                start:
+                                                                        path
+                                                                                .node
+                                                                                .start ??
+                                                                        0,
+                                                                end:
+                                                                        path
+                                                                                .node
+                                                                                .end ??
+                                                                        0,
+                                                        }
                                                 }
                                         }
 
-                                        path.replaceWith(
+                                        const propsExpression =
                                                 this.createPropsExpression(
                                                         produceClass,
                                                         propName,
+                                                )
+                                        jsxEdits.push(
+                                                this.createReplaceEdit(
+                                                        path,
+                                                        propsExpression,
                                                 ),
                                         )
+                                        path.replaceWith(propsExpression)
                                 })
 
-                                const extractedJSX = codeFromNode(
-                                        selectedPath.node,
-                                )
+                                if (slotPaths.length) {
+                                        const slot = t.jsxExpressionContainer(
+                                                this.createPropsExpression(
+                                                        produceClass,
+                                                        'children',
+                                                ) as t.Expression,
+                                        )
+                                        jsxEdits.push({
+                                                range: {
+                                                        start: slotStart,
+                                                        end: slotEnd,
+                                                },
+                                                newText: `{${codeFromNode(slot.expression)}}`,
+                                        })
+                                        slotPaths[0].replaceWith(slot)
+                                        slotPaths.slice(1).forEach((path) => {
+                                                path.remove()
+                                        })
+                                }
 
-                                const config =
-                                        this.vscodeService.getConfiguration()
-                                const functionTypeConfig: string =
-                                        config.get(
-                                                'vscodeReactRefactor.functionType',
-                                        ) || 'function'
+                                const extractedJSX = reprintNode(
+                                        code,
+                                        conditionPath
+                                                ? this.createConditionalRender(
+                                                          conditionPath.node
+                                                                  .expression as t.Expression,
+                                                  )
+                                                : siblingPaths.length
+                                                  ? this.createFragment(
+                                                            siblingPaths.map(
+                                                                    (path) =>
+                                                                            path.node as t.JSXElement['children'][number],
+                                                            ),
+                                                            context.options
+                                                                    .fragmentSyntax,
+                                                    )
+                                                  : selectedPath.node,
+                                        jsxEdits,
+                                )
+                                // Lines of the JSX become relative to its first line
+                                const renderCode = dedentLines(
+                                        extractedJSX,
+                                        getLineIndentation(
+                                                code,
+                                                (conditionPath ?? selectedPath)
+                                                        .node.start ?? start,
+                                        ),
+                                )
 
-                                const componentType: import('../../types').ComponentType =
+                                const componentType: ComponentType =
                                         produceClass
                                                 ? 'class'
-                                                : functionTypeConfig ===
-                                                    'arrowFunction'
-                                                  ? 'arrowFunction'
-                                                  : 'function'
+                                                : context.options.functionType
 
                                 const createComponent =
                                         this.componentFactory.create(
                                                 componentType,
+                                                context.fileName,
+                                                context.options
+                                                        .templatesDirectory,
+                                        )
+
+                                const propsInterface =
+                                        this.createPropsInterface(
+                                                context,
+                                                propRanges,
                                         )
+                                const propsType = propsInterface
+                                        ? `${name}Props`
+                                        : undefined
 
-                                const replaceJSXCode = codeFromNode(
+                                const replaceJSXCode = reprintNode(
+                                        code,
                                         this.createJSXElement(
                                                 name,
                                                 passedProps,
+                                                slotChildren,
                                         ),
                                 )
-                                const componentCode = createComponent(
+                                const indent = detectIndentation(code)
+                                let componentCode = createComponent(
                                         name,
-                                        extractedJSX,
+                                        renderCode,
+                                        propsType,
+                                        indent,
                                 )
+                                let edits: TextEdit[] = []
+                                if (resolveImports) {
+                                        componentCode = createComponent(
+                                                name,
+                                                renderCode,
+                                                propsType,
+                                                indent,
+                                                resolveImports(componentCode),
+                                        )
+                                } else {
+                                        const merged =
+                                                this.mergeTemplateImports(
+                                                        ast,
+                                                        componentCode,
+                                                )
+                                        componentCode = merged.componentCode
+                                        edits = merged.edits
+                                }
                                 const insertAt =
                                         this.getComponentStartAt(parentPath)
 
+                                const lastSibling = siblingPaths.at(-1)
+                                const replaceRange = conditionPath
+                                        ? {
+                                                  start:
+                                                          conditionPath.node
+                                                                  .start ??
+                                                          start,
+                                                  end:
+                                                          conditionPath.node
+                                                                  .end ?? end,
+                                          }
+                                        : lastSibling
+                                          ? {
+                                                    start:
+                                                            selectedPath.node
+                                                                    .start ??
+                                                            start,
+                                                    end:
+                                                            lastSibling.node
+                                                                    .end ?? end,
+                                            }
+                                          : undefined
+
                                 return {
                                         replaceJSXCode,
                                         componentCode,
+                                        propsInterface,
                                         insertAt,
+                                        replaceRange,
+                                        ...(edits.length ? { edits } : {}),
+                                        props: [
+                                                ...Object.keys(passedProps),
+                                                ...(slotChildren.length
+                                                        ? ['children']
+                                                        : []),
+                                        ],
                                 }
                         },
                         ErrorCode.EXTRACTION_ERROR,
@@ -270,8 +517,156 @@ export abstract class BaseRefactoringStrategy implements IRefactoringStrategy {
                 )
         }
 
+        /**
+         * Build a props interface from the types of the passed expressions
+         */
+        private createPropsInterface(
+                context: ExtractionContext,
+                propRanges: Record<string, TextRange>,
+        ): string | undefined {
+                const { name, code, fileName } = context
+                const typingMode = context.options.propsTyping
+
+                if (
+                        typingMode === 'none' ||
+                        !this.typeService ||
+                        !fileName ||
+                        !/\.tsx?$/.test(fileName) ||
+                        (!Object.keys(propRanges).length &&
+                                !context.childrenRange)
+                ) {
+                        return undefined
+                }
+
+                const types = this.typeService.inferTypes(
+                        fileName,
+                        code,
+                        propRanges,
+                )
+                if (context.childrenRange) {
+                        types.children = 'React.ReactNode'
+                }
+                return generatePropsInterface(
+                        `${name}Props`,
+                        types,
+                        detectIndentation(code),
+                )
+        }
+
+        /**
+         * Children of the selected element kept at the call site
+         */
+        private findChildrenSlot(
+                ast: t.File,
+                selectedPath: NodePath,
+                range: TextRange,
+        ): NodePath[] {
+                const slotPaths = this.astService.findSelectedJSXChildren(
+                        ast,
+                        range.start,
+                        range.end,
+                        1,
+                )
+                if (
+                        !selectedPath.isJSXElement() ||
+                        !slotPaths.length ||
+                        !slotPaths[0].isDescendant(selectedPath)
+                ) {
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_JSX,
+                                'The children slot must contain whole JSX children of the selected element',
+                        )
+                }
+                return slotPaths
+        }
+
+        /**
+         * Container for an identifier passed whole under another prop name
+         */
+        private getPropAlias(
+                node: t.Node,
+                propAliases: Record<string, string> = {},
+        ): { object: string; property: string } | undefined {
+                let root = node
+                while (t.isMemberExpression(root)) {
+                        root = root.object
+                }
+                if (
+                        !t.isIdentifier(root) ||
+                        !Object.hasOwn(propAliases, root.name)
+                ) {
+                        return undefined
+                }
+                return { object: root.name, property: propAliases[root.name] }
+        }
+
+        /**
+         * JSX rendered when a selected condition holds
+         */
+        private getConsequent(expression: t.Expression): t.Expression {
+                const consequent = t.isLogicalExpression(expression)
+                        ? expression.right
+                        : (expression as t.ConditionalExpression).consequent
+                if (
+                        !t.isJSXElement(consequent) &&
+                        !t.isJSXFragment(consequent)
+                ) {
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_JSX,
+                                'The consequent branch of the condition is not JSX',
+                        )
+                }
+                return consequent
+        }
+
+        /**
+         * Render `null` instead of the falsy operand of a `&&` condition
+         */
+        private createConditionalRender(
+                expression: t.Expression,
+        ): t.Expression {
+                if (t.isLogicalExpression(expression)) {
+                        return t.conditionalExpression(
+                                expression.left,
+                                expression.right,
+                                t.nullLiteral(),
+                        )
+                }
+                return expression
+        }
+
+        /**
+         * Wrap sibling JSX children in a fragment
+         */
+        private createFragment(
+                children: t.JSXElement['children'],
+                syntax: FragmentSyntax,
+        ): t.JSXFragment | t.JSXElement {
+                if (syntax === 'long') {
+                        const fragmentName = t.jsxMemberExpression(
+                                t.jsxIdentifier('React'),
+                                t.jsxIdentifier('Fragment'),
+                        )
+                        return t.jsxElement(
+                                t.jsxOpeningElement(fragmentName, []),
+                                t.jsxClosingElement(t.cloneNode(fragmentName)),
+                                children,
+                        )
+                }
+                return t.jsxFragment(
+                        t.jsxOpeningFragment(),
+                        t.jsxClosingFragment(),
+                        children,
+                )
+        }
+
+        /**
+         * Copy the `key` of the selected element, passed at the call site,
+         * and remove it with the whitespace before it
+         */
         private copyAndRemoveKeyAttribute(
-                jsxElementPath: NodePath<t.JSXElement>,
+                jsxElementPath: NodePath,
+                edits: TextEdit[],
         ): t.Node | undefined {
                 if (!jsxElementPath.isJSXElement()) {
                         return undefined
@@ -299,12 +694,47 @@ export abstract class BaseRefactoringStrategy implements IRefactoringStrategy {
                         const value = t.cloneDeep(
                                 keyAttributePath.node.value.expression,
                         )
+                        const { attributes } = openingElement
+                        const index = attributes.indexOf(keyAttributePath.node)
+                        const previous =
+                                index > 0
+                                        ? attributes[index - 1]
+                                        : (openingElement.typeParameters ??
+                                          openingElement.name)
+                        edits.push({
+                                range: {
+                                        start: previous.end ?? 0,
+                                        end: keyAttributePath.node.end ?? 0,
+                                },
+                                newText: '',
+                        })
                         keyAttributePath.remove()
                         return value
                 }
                 return undefined
         }
 
+        /**
+         * Edit replacing a reference with its props expression, expanding
+         * shorthand object properties
+         */
+        private createReplaceEdit(path: NodePath, node: t.Node): TextEdit {
+                const expression = codeFromNode(node)
+                const { parent } = path
+                return {
+                        range: {
+                                start: path.node.start ?? 0,
+                                end: path.node.end ?? 0,
+                        },
+                        newText:
+                                t.isObjectProperty(parent) &&
+                                parent.shorthand &&
+                                path.key === 'value'
+                                        ? `${codeFromNode(parent.key)}: ${expression}`
+                                        : expression,
+                }
+        }
+
         private getContainerObjects(
                 paths: NodePath[],
         ): { object: string; property: string }[] {
@@ -321,9 +751,7 @@ export abstract class BaseRefactoringStrategy implements IRefactoringStrategy {
                         const nodeToConvert = t.isMemberExpression(path.node)
                                 ? path.node.object
                                 : path.node
-                        const object = codeFromNode(
-                                nodeToConvert as import('@babel/types').Node,
-                        )
+                        const object = codeFromNode(nodeToConvert as t.Node)
                         objectMap[object] = (objectMap[object] || 0) + 1
                 })
 
@@ -355,7 +783,280 @@ export abstract class BaseRefactoringStrategy implements IRefactoringStrategy {
                 }))
         }
 
-        private getComponentStartAt(path: NodePath): number {
+        /**
+         * Resolve the local names of React exports and the edit importing
+         * the missing ones
+         */
+        protected getReactImport<T extends string>(
+                ast: t.File,
+                imports: T[],
+        ): { names: Record<T, string>; edit?: TextEdit } {
+                const names = {} as Record<T, string>
+                const declaration = ast.program.body.find(
+                        (node): node is t.ImportDeclaration =>
+                                t.isImportDeclaration(node) &&
+                                node.source.value === 'react' &&
+                                node.importKind !== 'type',
+                )
+                const namespace = declaration?.specifiers.find((specifier) =>
+                        t.isImportNamespaceSpecifier(specifier),
+                )
+                const defaultImport = declaration?.specifiers.find(
+                        (specifier) => t.isImportDefaultSpecifier(specifier),
+                )
+                const named = (declaration?.specifiers ?? []).filter(
+                        (specifier): specifier is t.ImportSpecifier =>
+                                t.isImportSpecifier(specifier),
+                )
+
+                if (
+                        !declaration ||
+                        namespace ||
+                        (!named.length && !defaultImport)
+                ) {
+                        const prefix = namespace?.local.name ?? 'React'
+                        imports.forEach((name) => {
+                                names[name] = `${prefix}.${name}`
+                        })
+                        return { names }
+                }
+
+                const missing: T[] = []
+                imports.forEach((name) => {
+                        const specifier = named.find(({ imported }) =>
+                                t.isIdentifier(imported, { name }),
+                        )
+                        names[name] = specifier?.local.name ?? name
+                        if (!specifier) {
+                                missing.push(name)
+                        }
+                })
+                if (missing.length === 0) {
+                        return { names }
+                }
+
+                const last = named[named.length - 1] ?? defaultImport
+                const at = last?.end ?? 0
+                return {
+                        names,
+                        edit: {
+                                range: { start: at, end: at },
+                                newText:
+                                        named.length > 0
+                                                ? `, ${missing.join(', ')}`
+                                                : `, { ${missing.join(', ')} }`,
+                                label: `Import ${missing.join(', ')} from React`,
+                        },
+                }
+        }
+
+        /**
+         * Range of a node alone on its line, with the line, or of the node
+         */
+        protected getLineRange(
+                code: string,
+                start: number,
+                end: number,
+        ): TextRange {
+                const lineStart = code.lastIndexOf('\n', start - 1) + 1
+                const lineEnd = code.indexOf('\n', end)
+                if (
+                        code.slice(lineStart, start).trim() ||
+                        code
+                                .slice(end, lineEnd < 0 ? undefined : lineEnd)
+                                .trim()
+                ) {
+                        return { start, end }
+                }
+                return {
+                        start: lineStart,
+                        end: lineEnd < 0 ? code.length : lineEnd + 1,
+                }
+        }
+
+        /**
+         * Range removing a statement with its line, and a blank line after it
+         * when it would leave two of them
+         */
+        protected getRemovalRange(
+                code: string,
+                start: number,
+                end: number,
+        ): TextRange {
+                const range = this.getLineRange(code, start, end)
+                const blankAfter = /^[ \t]*\n/.exec(code.slice(range.end))
+                if (
+                        range.end <= end ||
+                        !blankAfter ||
+                        !(
+                                range.start === 0 ||
+                                /\n[ \t]*\n$/.test(code.slice(0, range.start))
+                        )
+                ) {
+                        return range
+                }
+                return {
+                        start: range.start,
+                        end: range.end + blankAfter[0].length,
+                }
+        }
+
+        /**
+         * Find the offset right after the last top level import or directive
+         */
+        protected getImportInsertAt(ast: t.File): number {
+                const lastImport = ast.program.body
+                        .filter((node) => t.isImportDeclaration(node))
+                        .pop()
+                if (lastImport?.end) {
+                        return lastImport.end
+                }
+                const lastDirective = ast.program.directives.at(-1)
+                return lastDirective?.end ?? 0
+        }
+
+        /**
+         * Move the import declarations of a component generated from a
+         * template to the imports of the source, adding the specifiers it
+         * does not import yet
+         */
+        private mergeTemplateImports(
+                ast: t.File,
+                componentCode: string,
+        ): { componentCode: string; edits: TextEdit[] } {
+                if (!/^[ \t]*import\b/m.test(componentCode)) {
+                        return { componentCode, edits: [] }
+                }
+                const templateImports = this.astService
+                        .codeToAst(componentCode)
+                        .program.body.filter((node) =>
+                                t.isImportDeclaration(node),
+                        )
+                const sourceImports = ast.program.body.filter((node) =>
+                        t.isImportDeclaration(node),
+                )
+                const bound = new Set(
+                        sourceImports.flatMap(({ specifiers }) =>
+                                specifiers.map(({ local }) => local.name),
+                        ),
+                )
+
+                const edits: TextEdit[] = []
+                const lines: string[] = []
+                templateImports.forEach((declaration) => {
+                        const source = declaration.source.value
+                        const text = (node: t.Node) =>
+                                componentCode.slice(
+                                        node.start ?? 0,
+                                        node.end ?? 0,
+                                )
+                        if (!declaration.specifiers.length) {
+                                if (
+                                        !sourceImports.some(
+                                                (node) =>
+                                                        node.source.value ===
+                                                        source,
+                                        )
+                                ) {
+                                        lines.push(text(declaration))
+                                }
+                                return
+                        }
+
+                        const missing = declaration.specifiers.filter(
+                                ({ local }) => !bound.has(local.name),
+                        )
+                        missing.forEach(({ local }) => {
+                                bound.add(local.name)
+                        })
+                        if (!missing.length) {
+                                return
+                        }
+
+                        const target = missing.every((specifier) =>
+                                t.isImportSpecifier(specifier),
+                        )
+                                ? sourceImports.find(
+                                          (node) =>
+                                                  node.source.value ===
+                                                          source &&
+                                                  node.importKind ===
+                                                          declaration.importKind &&
+                                                  t.isImportSpecifier(
+                                                          node.specifiers.at(
+                                                                  -1,
+                                                          ),
+                                                  ),
+                                  )
+                                : undefined
+                        const lastSpecifier = target?.specifiers.at(-1)
+                        if (lastSpecifier?.end) {
+                                edits.push({
+                                        range: {
+                                                start: lastSpecifier.end,
+                                                end: lastSpecifier.end,
+                                        },
+                                        newText: `, ${missing.map(text).join(', ')}`,
+                                        label: `Import ${missing.map(({ local }) => local.name).join(', ')} from ${source}`,
+                                })
+                                return
+                        }
+
+                        if (missing.length === declaration.specifiers.length) {
+                                lines.push(text(declaration))
+                                return
+                        }
+                        const named = missing.filter((specifier) =>
+                                t.isImportSpecifier(specifier),
+                        )
+                        const specifiers = [
+                                ...missing
+                                        .filter(
+                                                (specifier) =>
+                                                        !t.isImportSpecifier(
+                                                                specifier,
+                                                        ),
+                                        )
+                                        .map(text),
+                                ...(named.length
+                                        ? [`{ ${named.map(text).join(', ')} }`]
+                                        : []),
+                        ]
+                        lines.push(
+                                `import ${declaration.importKind === 'type' ? 'type ' : ''}${specifiers.join(', ')} from ${text(declaration.source)}${text(declaration).endsWith(';') ? ';' : ''}`,
+                        )
+                })
+
+                if (lines.length) {
+                        const at = this.getImportInsertAt(ast)
+                        edits.push({
+                                range: { start: at, end: at },
+                                newText:
+                                        at > 0
+                                                ? `\n${lines.join('\n')}`
+                                                : `${lines.join('\n')}\n\n`,
+                                label: 'Import the modules of the template',
+                        })
+                }
+
+                return {
+                        componentCode: applyEditsInRange(
+                                componentCode,
+                                { start: 0, end: componentCode.length },
+                                templateImports.map((declaration) => ({
+                                        range: this.getLineRange(
+                                                componentCode,
+                                                declaration.start ?? 0,
+                                                declaration.end ?? 0,
+                                        ),
+                                        newText: '',
+                                })),
+                        ),
+                        edits,
+                }
+        }
+
+        protected getComponentStartAt(path: NodePath): number {
                 if (
                         path.node.leadingComments?.length &&
                         path.node.leadingComments[0].start
@@ -417,11 +1118,12 @@ export abstract class BaseRefactoringStrategy implements IRefactoringStrategy {
         private createJSXElement(
                 name: string,
                 attributes: Record<string, t.Node>,
+                children: t.JSXElement['children'] = [],
         ): t.JSXElement {
                 const jsxElement = t.jsxElement(
                         t.jsxOpeningElement(t.jsxIdentifier(name), []),
                         t.jsxClosingElement(t.jsxIdentifier(name)),
-                        [],
+                        children,
                         true,
                 )
 
@@ -468,8 +1170,796 @@ export class ExtractToFileStrategy extends BaseRefactoringStrategy {
         }
 
         async execute(context: ExtractionContext): Promise<RefactorResult> {
-                // For now, use the same extraction logic
-                // Future: add file creation logic
-                return this.executeExtraction(context)
+                const { name, code, fileName } = context
+                if (!fileName || !path.isAbsolute(fileName)) {
+                        throw new RefactoringError(
+                                ErrorCode.FILE_SYSTEM_ERROR,
+                                'Save the file before extracting to a new file',
+                        )
+                }
+
+                const extension = /\.tsx?$/.test(fileName) ? '.tsx' : '.jsx'
+                const componentModule = formatFileName(
+                        name,
+                        context.options.fileNaming,
+                )
+                const componentFileName = path.join(
+                        path.dirname(fileName),
+                        `${componentModule}${extension}`,
+                )
+                if (existsSync(componentFileName)) {
+                        throw new RefactoringError(
+                                ErrorCode.FILE_SYSTEM_ERROR,
+                                `File already exists: ${path.basename(componentFileName)}`,
+                        )
+                }
+
+                const ast = this.astService.codeToAst(code)
+                const style = this.getImportStyle(ast, code)
+
+                const edits: TextEdit[] = []
+                const moved: MovedDeclaration[] = []
+                let importLines = ''
+                const result = await this.executeExtraction(
+                        context,
+                        (componentCode) => {
+                                importLines = Array.from(
+                                        this.collectImports(
+                                                ast,
+                                                code,
+                                                componentCode,
+                                                context,
+                                                moved,
+                                                edits,
+                                        ).entries(),
+                                )
+                                        .map(([source, entry]) =>
+                                                this.formatImport(
+                                                        entry,
+                                                        source,
+                                                        style,
+                                                ),
+                                        )
+                                        .join('\n')
+                                return importLines
+                        },
+                )
+
+                const componentCode = result.componentCode.trim()
+                const declaration = this.findComponentDeclaration(
+                        this.astService.codeToAst(componentCode),
+                        name,
+                )
+                if (!declaration) {
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_CONFIG,
+                                `The generated code does not declare ${name}`,
+                        )
+                }
+
+                // The source imports back the moved names it still uses
+                const sourceCode = applyEditsInRange(
+                        code,
+                        { start: 0, end: code.length },
+                        [
+                                ...edits,
+                                {
+                                        range: result.replaceRange ?? context,
+                                        newText: result.replaceJSXCode,
+                                },
+                        ],
+                )
+                const unbound = new Set(
+                        findUnboundReferences(
+                                this.astService.codeToAst(sourceCode),
+                        ),
+                )
+                moved.forEach((declaration) => {
+                        declaration.used = declaration.names.filter(
+                                (movedName) => unbound.has(movedName),
+                        )
+                })
+
+                const importInsertAt = this.getImportInsertAt(ast)
+                const movedNames = moved.flatMap(({ used }) => used)
+                const componentImport = this.formatImport(
+                        declaration.exported === 'default'
+                                ? { defaultName: name, named: movedNames }
+                                : { named: [name, ...movedNames] },
+                        `./${componentModule}`,
+                        style,
+                )
+                edits.push({
+                        range: { start: importInsertAt, end: importInsertAt },
+                        newText:
+                                importInsertAt > 0
+                                        ? `\n${componentImport}`
+                                        : `${componentImport}\n`,
+                        label: `Import ${name}`,
+                })
+
+                // Templates may place the imports, and export the component
+                const content = [
+                        componentCode.slice(0, declaration.start),
+                        ...moved.map(
+                                (
+                                        { start, end, declarationStart, used },
+                                        index,
+                                ) => {
+                                        // Keep declarations on consecutive lines together
+                                        const next = moved[index + 1]
+                                        const gap = next
+                                                ? code.slice(end, next.start)
+                                                : ''
+                                        const separator =
+                                                next &&
+                                                !gap.trim() &&
+                                                !/\n[ \t]*\n/.test(gap)
+                                                        ? '\n'
+                                                        : '\n\n'
+                                        return `${code.slice(start, declarationStart)}${
+                                                used.length ? 'export ' : ''
+                                        }${code.slice(declarationStart, end)}${separator}`
+                                },
+                        ),
+                        result.propsInterface &&
+                                `export ${result.propsInterface.trim()}\n\n`,
+                        declaration.exported ? '' : 'export ',
+                        componentCode.slice(declaration.start),
+                ].join('')
+
+                return {
+                        ...result,
+                        edits,
+                        newFile: {
+                                fileName: componentFileName,
+                                content: `${
+                                        componentCode.includes(importLines)
+                                                ? content
+                                                : `${importLines}\n\n${content}`
+                                }\n`,
+                        },
+                }
+        }
+
+        /**
+         * Imports of the names a component file uses from the source module
+         * imports. The source declarations it needs are moved to the file,
+         * as importing them back would make the modules import each other
+         */
+        private collectImports(
+                ast: t.File,
+                code: string,
+                componentCode: string,
+                selection: TextRange,
+                moved: MovedDeclaration[],
+                edits: TextEdit[],
+        ): Map<string, ImportEntry> {
+                const imports = new Map<string, ImportEntry>()
+                const addImport = (source: string, entry: ImportEntry) => {
+                        const existing = imports.get(source)
+                        if (!existing) {
+                                imports.set(source, entry)
+                                return
+                        }
+                        existing.defaultName ??= entry.defaultName
+                        existing.namespaceName ??= entry.namespaceName
+                        existing.named.push(
+                                ...entry.named.filter(
+                                        (n) => !existing.named.includes(n),
+                                ),
+                        )
+                }
+
+                const componentAst = this.astService.codeToAst(componentCode)
+                let programPath: NodePath<t.Program> | undefined
+                traverse(ast as unknown as Parameters<typeof traverse>[0], {
+                        Program(p) {
+                                programPath =
+                                        p as unknown as NodePath<t.Program>
+                                p.stop()
+                        },
+                })
+
+                const resolved = new Set<string>()
+                const resolve = (freeName: string) => {
+                        if (resolved.has(freeName)) {
+                                return
+                        }
+                        resolved.add(freeName)
+                        const binding = programPath?.scope.getBinding(freeName)
+                        if (!binding) {
+                                return
+                        }
+                        const bindingPath = binding.path
+                        if (
+                                bindingPath.isImportSpecifier() ||
+                                bindingPath.isImportDefaultSpecifier() ||
+                                bindingPath.isImportNamespaceSpecifier()
+                        ) {
+                                const declaration = bindingPath.parentPath
+                                if (!declaration?.isImportDeclaration()) {
+                                        return
+                                }
+                                const source = declaration.node.source.value
+                                if (bindingPath.isImportDefaultSpecifier()) {
+                                        addImport(source, {
+                                                defaultName: freeName,
+                                                named: [],
+                                        })
+                                } else if (
+                                        bindingPath.isImportNamespaceSpecifier()
+                                ) {
+                                        addImport(source, {
+                                                namespaceName: freeName,
+                                                named: [],
+                                        })
+                                } else if (bindingPath.isImportSpecifier()) {
+                                        const imported =
+                                                bindingPath.node.imported
+                                        const importedName = t.isIdentifier(
+                                                imported,
+                                        )
+                                                ? imported.name
+                                                : imported.value
+                                        addImport(source, {
+                                                named: [
+                                                        importedName ===
+                                                        freeName
+                                                                ? freeName
+                                                                : `${importedName} as ${freeName}`,
+                                                ],
+                                        })
+                                }
+                                return
+                        }
+
+                        const statement = bindingPath.isVariableDeclarator()
+                                ? bindingPath.parentPath
+                                : bindingPath
+                        if (!statement?.parentPath?.isProgram()) {
+                                if (
+                                        statement?.parentPath?.isExportNamedDeclaration() ||
+                                        statement?.parentPath?.isExportDefaultDeclaration()
+                                ) {
+                                        throw new RefactoringError(
+                                                ErrorCode.EXTRACTION_ERROR,
+                                                `'${freeName}' is exported by the file, move it to its own module before extracting`,
+                                        )
+                                }
+                                return
+                        }
+                        this.moveDeclaration(
+                                statement as NodePath<t.Statement>,
+                                selection,
+                                moved,
+                        ).forEach(resolve)
+                }
+
+                resolve('React')
+                findUnboundReferences(componentAst).forEach(resolve)
+
+                moved.sort((a, b) => a.start - b.start)
+                edits.push(...this.getMoveEdits(code, moved))
+
+                if (!imports.has('react')) {
+                        imports.set('react', {
+                                defaultName: 'React',
+                                named: [],
+                        })
+                }
+
+                return imports
+        }
+
+        /**
+         * Collect a top level declaration of the source moved to the
+         * component file
+         * @returns names of the source bindings the declaration uses
+         */
+        private moveDeclaration(
+                statement: NodePath<t.Statement>,
+                selection: TextRange,
+                moved: MovedDeclaration[],
+        ): string[] {
+                const { node } = statement
+                const scope = (statement.parentPath as NodePath).scope
+                const start = this.getComponentStartAt(statement)
+                const end = node.end ?? 0
+                const names = Object.keys(t.getBindingIdentifiers(node))
+                if (start <= selection.start && selection.end <= end) {
+                        throw new RefactoringError(
+                                ErrorCode.EXTRACTION_ERROR,
+                                `The selection uses '${names[0]}' which contains it`,
+                        )
+                }
+                names.forEach((name) => {
+                        if (scope.getBinding(name)?.constantViolations.length) {
+                                throw new RefactoringError(
+                                        ErrorCode.EXTRACTION_ERROR,
+                                        `'${name}' is reassigned and can not be moved to the component file`,
+                                )
+                        }
+                })
+                moved.push({
+                        start,
+                        end,
+                        declarationStart: node.start ?? 0,
+                        names,
+                        used: [],
+                })
+
+                // Source bindings used by the declaration move with it
+                const dependencies = new Set<string>()
+                statement.traverse({
+                        ReferencedIdentifier(path) {
+                                const { name } = path.node as t.Identifier
+                                const binding = path.scope.getBinding(name)
+                                if (
+                                        binding &&
+                                        binding.scope === scope &&
+                                        !names.includes(name)
+                                ) {
+                                        dependencies.add(name)
+                                }
+                        },
+                })
+                return [...dependencies]
+        }
+
+        /**
+         * Edits removing the moved declarations from the source, one for each
+         * run of consecutive declarations
+         */
+        private getMoveEdits(
+                code: string,
+                moved: MovedDeclaration[],
+        ): TextEdit[] {
+                const runs: MovedDeclaration[][] = []
+                moved.forEach((declaration) => {
+                        const run = runs.at(-1)
+                        const last = run?.at(-1)
+                        if (
+                                run &&
+                                last &&
+                                !code.slice(last.end, declaration.start).trim()
+                        ) {
+                                run.push(declaration)
+                        } else {
+                                runs.push([declaration])
+                        }
+                })
+                return runs.map((run) => {
+                        const names = run.flatMap(
+                                (declaration) => declaration.names,
+                        )
+                        return {
+                                range: this.getRemovalRange(
+                                        code,
+                                        run[0].start,
+                                        run[run.length - 1].end,
+                                ),
+                                newText: '',
+                                label: `Move ${names.join(', ')} to the component file`,
+                        }
+                })
+        }
+
+        /**
+         * Top level statement declaring the component in its generated code,
+         * and how it is exported
+         */
+        private findComponentDeclaration(
+                ast: t.File,
+                name: string,
+        ): { start: number; exported?: 'named' | 'default' } | undefined {
+                for (const statement of ast.program.body) {
+                        const declaration =
+                                t.isExportNamedDeclaration(statement) ||
+                                t.isExportDefaultDeclaration(statement)
+                                        ? statement.declaration
+                                        : statement
+                        const declares = t.isVariableDeclaration(declaration)
+                                ? declaration.declarations.some((d) =>
+                                          t.isIdentifier(d.id, {
+                                                  name,
+                                          }),
+                                  )
+                                : (t.isFunctionDeclaration(declaration) ||
+                                          t.isClassDeclaration(declaration)) &&
+                                  declaration.id?.name === name
+                        if (declares) {
+                                return {
+                                        start: statement.start ?? 0,
+                                        exported: t.isExportDefaultDeclaration(
+                                                statement,
+                                        )
+                                                ? 'default'
+                                                : t.isExportNamedDeclaration(
+                                                            statement,
+                                                    )
+                                                  ? 'named'
+                                                  : undefined,
+                                }
+                        }
+                }
+                return undefined
+        }
+
+        /**
+         * Detect quotes and semicolons used by the existing imports
+         */
+        private getImportStyle(ast: t.File, code: string): ImportStyle {
+                const firstImport = ast.program.body.find((node) =>
+                        t.isImportDeclaration(node),
+                )
+                if (!firstImport?.end) {
+                        return { quote: "'", semicolon: false }
+                }
+                const raw = code.slice(
+                        firstImport.source.start ?? 0,
+                        firstImport.source.end ?? 0,
+                )
+                return {
+                        quote: raw.startsWith('"') ? '"' : "'",
+                        semicolon: code[firstImport.end - 1] === ';',
+                }
+        }
+
+        /**
+         * Print import declarations for the given specifiers
+         */
+        private formatImport(
+                entry: ImportEntry,
+                source: string,
+                style: ImportStyle,
+        ): string {
+                const from = `from ${style.quote}${source}${style.quote}${style.semicolon ? ';' : ''}`
+                const specifiers: string[] = []
+                if (entry.defaultName) {
+                        specifiers.push(entry.defaultName)
+                }
+                if (entry.named.length) {
+                        specifiers.push(`{ ${entry.named.join(', ')} }`)
+                }
+                const lines = specifiers.length
+                        ? [`import ${specifiers.join(', ')} ${from}`]
+                        : []
+                // Namespace imports cannot be combined with named specifiers
+                if (entry.namespaceName) {
+                        lines.push(`import * as ${entry.namespaceName} ${from}`)
+                }
+                return lines.join('\n')
+        }
+}
+
+/**
+ * Import specifiers needed from a single module
+ */
+interface ImportEntry {
+        defaultName?: string
+        namespaceName?: string
+        named: string[]
+}
+
+/**
+ * Source declaration moved to the component file
+ */
+interface MovedDeclaration {
+        /** Start of the declaration with its comments */
+        start: number
+        end: number
+        declarationStart: number
+        names: string[]
+        /** Names imported back by the source, exported by the file */
+        used: string[]
+}
+
+/**
+ * Formatting conventions of the source module imports
+ */
+interface ImportStyle {
+        quote: "'" | '"'
+        semicolon: boolean
+}
+
+/**
+ * Extract to custom hook strategy
+ */
+export class ExtractToHookStrategy extends BaseRefactoringStrategy {
+        canHandle(type: RefactoringType): boolean {
+                return type === 'extractToHook'
+        }
+
+        async execute(context: ExtractionContext): Promise<RefactorResult> {
+                return wrapError(
+                        async () => {
+                                const { name, code, start, end } = context
+                                const ast = this.astService.codeToAst(code)
+                                const statements = this.findSelectedStatements(
+                                        ast,
+                                        start,
+                                        end,
+                                )
+                                if (!statements.length) {
+                                        throw new RefactoringError(
+                                                ErrorCode.EXTRACTION_ERROR,
+                                                'Select statements inside a function component body',
+                                        )
+                                }
+
+                                const first = statements[0]
+                                const last = statements[statements.length - 1]
+                                const range = {
+                                        start: first.node.start ?? start,
+                                        end: last.node.end ?? end,
+                                }
+                                const componentPath =
+                                        this.astService.findParentComponent(
+                                                first,
+                                        )
+
+                                const inputs = this.getInputs(
+                                        componentPath,
+                                        first,
+                                        range,
+                                )
+                                const outputs = this.getOutputs(
+                                        statements,
+                                        range,
+                                )
+
+                                const args = inputs.join(', ')
+                                const call = `${name}(${args})`
+                                const replaceJSXCode = outputs.length
+                                        ? `const { ${outputs.join(', ')} } = ${call}`
+                                        : call
+                                const indent = detectIndentation(code)
+                                const body = this.reindent(
+                                        code.slice(range.start, range.end),
+                                        code,
+                                        range.start,
+                                        indent,
+                                )
+                                const returnStatement = outputs.length
+                                        ? `\n\n${indent}return { ${outputs.join(', ')} }`
+                                        : ''
+                                const componentCode = `\nfunction ${name}(${args}) {\n${body}${returnStatement}\n}\n`
+
+                                return {
+                                        replaceJSXCode,
+                                        componentCode,
+                                        insertAt: this.getComponentStartAt(
+                                                componentPath,
+                                        ),
+                                        replaceRange: range,
+                                }
+                        },
+                        ErrorCode.EXTRACTION_ERROR,
+                        'Failed to extract custom hook',
+                )
+        }
+
+        /**
+         * Find the statements of the innermost function body covered by the range
+         */
+        private findSelectedStatements(
+                ast: t.File,
+                start: number,
+                end: number,
+        ): NodePath<t.Statement>[] {
+                let blockPath: NodePath<t.BlockStatement> | undefined
+                traverse(ast as unknown as Parameters<typeof traverse>[0], {
+                        BlockStatement(path) {
+                                const { node } = path
+                                if (
+                                        path.parentPath.isFunction() &&
+                                        node.start !== null &&
+                                        node.start !== undefined &&
+                                        node.end !== null &&
+                                        node.end !== undefined &&
+                                        node.start < start &&
+                                        node.end > end
+                                ) {
+                                        blockPath =
+                                                path as unknown as NodePath<t.BlockStatement>
+                                }
+                        },
+                })
+                if (!blockPath) {
+                        return []
+                }
+                const statements = blockPath.get('body')
+                const selected = statements.filter(isPathInRange(start, end))
+                const overlapsSelection = statements.some(
+                        (path) =>
+                                !selected.includes(path) &&
+                                (path.node.end ?? 0) > start &&
+                                (path.node.start ?? 0) < end,
+                )
+                if (overlapsSelection) {
+                        throw new RefactoringError(
+                                ErrorCode.EXTRACTION_ERROR,
+                                'Selection must cover whole statements',
+                        )
+                }
+                if (
+                        selected.some((path) =>
+                                this.exitsRange(path, start, end),
+                        )
+                ) {
+                        throw new RefactoringError(
+                                ErrorCode.EXTRACTION_ERROR,
+                                'Selection must not return from the component, or break or continue outside of it',
+                        )
+                }
+                return selected
+        }
+
+        /**
+         * Check if a statement returns, or breaks or continues to a statement
+         * outside the range, other than in a nested function
+         */
+        private exitsRange(
+                statement: NodePath<t.Statement>,
+                start: number,
+                end: number,
+        ): boolean {
+                const exits = (path: NodePath): boolean => {
+                        if (path.isReturnStatement()) {
+                                return true
+                        }
+                        if (
+                                !path.isBreakStatement() &&
+                                !path.isContinueStatement()
+                        ) {
+                                return false
+                        }
+                        const label = path.node.label?.name
+                        const target = path.findParent(
+                                (parent) =>
+                                        parent.isFunction() ||
+                                        (label
+                                                ? parent.isLabeledStatement() &&
+                                                  parent.node.label.name ===
+                                                          label
+                                                : parent.isLoop() ||
+                                                  (path.isBreakStatement() &&
+                                                          parent.isSwitchStatement())),
+                        )
+                        return (
+                                !target ||
+                                target.isFunction() ||
+                                !isPathInRange(start, end)(target)
+                        )
+                }
+
+                let found = exits(statement)
+                statement.traverse({
+                        Function(path) {
+                                path.skip()
+                        },
+                        'ReturnStatement|BreakStatement|ContinueStatement'(
+                                path,
+                        ) {
+                                if (exits(path)) {
+                                        found = true
+                                        path.stop()
+                                }
+                        },
+                })
+                return found
+        }
+
+        /**
+         * Component members used by the selected statements but declared before them
+         */
+        private getInputs(
+                componentPath: NodePath,
+                firstStatement: NodePath,
+                range: TextRange,
+        ): string[] {
+                const inputs: string[] = []
+                this.astService
+                        .findComponentMemberReferences(
+                                componentPath,
+                                firstStatement,
+                        )
+                        .filter(isPathInRange(range.start, range.end))
+                        .forEach((path) => {
+                                const root = this.getRootIdentifier(path.node)
+                                if (!root || inputs.includes(root)) {
+                                        return
+                                }
+                                const binding = path.scope.getBinding(root)
+                                const declaredAt = binding?.identifier.start
+                                if (
+                                        binding &&
+                                        declaredAt !== null &&
+                                        declaredAt !== undefined &&
+                                        (declaredAt < range.start ||
+                                                declaredAt >= range.end)
+                                ) {
+                                        inputs.push(root)
+                                }
+                        })
+                return inputs
+        }
+
+        /**
+         * Bindings declared by the selected statements and used after them
+         */
+        private getOutputs(
+                statements: NodePath<t.Statement>[],
+                range: TextRange,
+        ): string[] {
+                const isOutside = (path: NodePath) =>
+                        !isPathInRange(range.start, range.end)(path)
+                const outputs: string[] = []
+                statements.forEach((statement) => {
+                        Object.keys(
+                                t.getBindingIdentifiers(
+                                        statement.node,
+                                        false,
+                                        true,
+                                ),
+                        ).forEach((bindingName) => {
+                                const binding =
+                                        statement.scope.getBinding(bindingName)
+                                if (!binding) {
+                                        return
+                                }
+                                if (
+                                        binding.constantViolations.some(
+                                                isOutside,
+                                        )
+                                ) {
+                                        throw new RefactoringError(
+                                                ErrorCode.EXTRACTION_ERROR,
+                                                `'${bindingName}' is reassigned after the selection`,
+                                        )
+                                }
+                                if (
+                                        binding.referencePaths.some(
+                                                isOutside,
+                                        ) &&
+                                        !outputs.includes(bindingName)
+                                ) {
+                                        outputs.push(bindingName)
+                                }
+                        })
+                })
+                return outputs
+        }
+
+        private getRootIdentifier(node: t.Node): string | undefined {
+                if (t.isIdentifier(node)) {
+                        return node.name
+                }
+                if (t.isMemberExpression(node)) {
+                        return this.getRootIdentifier(node.object)
+                }
+                return undefined
+        }
+
+        /**
+         * Move the statements to the indentation of a top level function body
+         */
+        private reindent(
+                body: string,
+                code: string,
+                start: number,
+                indent: string,
+        ): string {
+                const lineStart = code.lastIndexOf('\n', start - 1) + 1
+                const bodyIndent = code.slice(lineStart, start)
+                return `${bodyIndent}${body}`
+                        .split('\n')
+                        .map((line) =>
+                                line.startsWith(bodyIndent)
+                                        ? `${indent}${line.slice(bodyIndent.length)}`
+                                        : line,
+                        )
+                        .join('\n')
         }
 }
@@ -3,12 +3,16 @@
  */
 
 import type * as vscode from 'vscode'
+import { registerConfigCommands } from './commands/config-commands'
+import { registerDebugCommands } from './commands/debug-commands'
 import { registerExtractCommands } from './commands/extract-commands'
+import type { ConfigService } from './config'
 import { bootstrap } from './core/bootstrap'
 import { ServiceKeys } from './core/di/container'
 import { CodeActionProvider } from './providers/code-action-provider'
 import type { RefactoringService } from './services/refactoring-service'
 import type { IVSCodeService } from './types'
+import type { EngineWorkerClient } from './worker/worker-client'
 
 /**
  * Extension activation function
@@ -25,17 +29,52 @@ export const activate = (context: vscode.ExtensionContext): void => {
                 ServiceKeys.VSCodeService,
         )
 
+        // Reload the project configuration when it changes
+        const configService = container.get<ConfigService>(
+                ServiceKeys.ConfigService,
+        )
+        context.subscriptions.push(configService)
+        configService.validateWorkspace().catch(() => {
+                // Each configuration file is validated again when it changes
+        })
+
+        // Start the worker parsing documents, and drop the cached AST of
+        // closed documents
+        const engineWorker = container.get<EngineWorkerClient>(
+                ServiceKeys.EngineWorker,
+        )
+        context.subscriptions.push(engineWorker)
+        engineWorker.warm(
+                configService.getParserOptions(
+                        vscodeService.getActiveEditor()?.document,
+                ),
+        )
+        context.subscriptions.push(
+                vscodeService.onDidCloseTextDocument((document) => {
+                        engineWorker
+                                .call('evictDocument', [
+                                        document.uri.toString(),
+                                ])
+                                .catch(() => {
+                                        // A new worker has no cached AST
+                                })
+                }),
+        )
+
         // Register code actions provider
         context.subscriptions.push(
                 vscodeService.registerCodeActionsProvider(
                         { pattern: '**/*.{js,jsx,ts,tsx}', scheme: 'file' },
-                        new CodeActionProvider(
-                                refactoringService,
-                                vscodeService,
-                        ),
+                        new CodeActionProvider(refactoringService),
+                        {
+                                providedCodeActionKinds:
+                                        CodeActionProvider.providedCodeActionKinds,
+                        },
                 ),
         )
 
         // Register commands
         registerExtractCommands(context, refactoringService, vscodeService)
+        registerConfigCommands(context, configService, vscodeService)
+        registerDebugCommands(context, engineWorker, vscodeService)
 }
@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test'
+import { parseExpression } from '@babel/parser'
+import * as t from '@babel/types'
+import { applyEditsInRange, reprintNode } from './ast'
+
+const code = `<ul className='list'>
+  {/* Items of the user */}
+  {items.map(item => <li key={item.id}>{item.label}</li>)}
+</ul>`
+
+const element = parseExpression(code, { plugins: ['jsx'] }) as t.JSXElement
+
+describe('reprintNode', () => {
+        test('copies the source text of an original node with its edits', () => {
+                const start = code.indexOf('item.label')
+                expect(
+                        reprintNode(code, element, [
+                                {
+                                        range: { start, end: start + 10 },
+                                        newText: 'props.label',
+                                },
+                        ]),
+                ).toBe(code.replace('item.label', 'props.label'))
+        })
+
+        test('generates only the new nodes around the original ones', () => {
+                const call = t.callExpression(t.identifier('render'), [
+                        element,
+                        t.stringLiteral('root'),
+                ])
+
+                expect(reprintNode(code, call)).toBe(`render(${code}, "root")`)
+        })
+})
+
+describe('applyEditsInRange', () => {
+        test('applies the edits in the range, the outer one replacing nested ones', () => {
+                const text = 'const a = b + c'
+                expect(
+                        applyEditsInRange(text, { start: 10, end: 15 }, [
+                                { range: { start: 10, end: 15 }, newText: 'd' },
+                                { range: { start: 10, end: 11 }, newText: 'e' },
+                                { range: { start: 0, end: 5 }, newText: 'let' },
+                        ]),
+                ).toBe('d')
+                expect(
+                        applyEditsInRange(text, { start: 6, end: 15 }, [
+                                { range: { start: 14, end: 15 }, newText: '1' },
+                                { range: { start: 6, end: 7 }, newText: 'x' },
+                        ]),
+                ).toBe('x = b + 1')
+        })
+})
@@ -1,33 +1,9 @@
 import type { NodePath } from '@babel/traverse'
-import * as vscode from 'vscode'
 
 // Lazy-loaded Babel modules - only loaded when actually needed
-let _parse: typeof import('@babel/parser').parse | null = null
-let _template: typeof import('@babel/template').default | null = null
 let _generate: typeof import('@babel/generator').default | null = null
 let _t: typeof import('@babel/types') | null = null
-
-// Lazy load Babel parser
-const getParser = (): typeof import('@babel/parser').parse => {
-        if (!_parse) {
-                _parse = require('@babel/parser').parse
-        }
-        if (!_parse) {
-                throw new Error('Failed to load Babel parser')
-        }
-        return _parse
-}
-
-// Lazy load Babel template
-const getTemplate = (): typeof import('@babel/template').default => {
-        if (!_template) {
-                _template = require('@babel/template').default
-        }
-        if (!_template) {
-                throw new Error('Failed to load Babel template')
-        }
-        return _template
-}
+let _traverse: typeof import('@babel/traverse').default | null = null
 
 // Lazy load Babel generator
 const getGenerator = (): typeof import('@babel/generator').default => {
@@ -51,150 +27,15 @@ const getTypes = (): typeof import('@babel/types') => {
         return _t
 }
 
-// Cache parser options to avoid repeated VS Code config reads
-let cachedParserOptions: import('@babel/parser').ParserOptions | null = null
-let cachedConfigKey: string | null = null
-
-// AST cache for document-level parsing (cleared on document change)
-const astCache = new Map<
-        string,
-        { ast: import('@babel/types').File; timestamp: number }
->()
-const AST_CACHE_TTL = 5000 // 5 seconds cache
-
-const getParserOptions = (): import('@babel/parser').ParserOptions => {
-        const config = vscode.workspace.getConfiguration()
-        const pluginsConfig: string | undefined = config.get(
-                'vscodeReactRefactor.babelPlugins',
-        )
-        if (!pluginsConfig) {
-                throw new Error('Babel plugins configuration not found')
-        }
-
-        // Return cached options if config hasn't changed
-        if (cachedParserOptions && cachedConfigKey === pluginsConfig) {
-                return cachedParserOptions
-        }
-
-        const plugins = pluginsConfig
-                .split(',')
-                .map((s) => s.trim())
-                .filter(
-                        (s) => !!s,
-                ) as import('@babel/parser').ParserOptions['plugins']
-
-        cachedParserOptions = {
-                plugins,
-                sourceType: 'module' as const,
-        }
-        cachedConfigKey = pluginsConfig
-
-        // Clear AST cache when parser options change
-        astCache.clear()
-
-        return cachedParserOptions
-}
-
-// Clear AST cache when VS Code config changes
-vscode.workspace.onDidChangeConfiguration((e) => {
-        if (e.affectsConfiguration('vscodeReactRefactor.babelPlugins')) {
-                cachedParserOptions = null
-                cachedConfigKey = null
-                astCache.clear()
-        }
-})
-
-export const isDebugEnabled = () => {
-        return vscode.workspace
-                .getConfiguration()
-                .get('vscodeReactRefactor.enableDebug')
-}
-
-export const codeToAst = (code: string) => {
-        // Use cache for full document parsing (common case)
-        const cacheKey = code.substring(0, 100) // Use first 100 chars as cache key
-        const cached = astCache.get(cacheKey)
-        const now = Date.now()
-
-        if (cached && now - cached.timestamp < AST_CACHE_TTL) {
-                // Verify it's the same code (simple length check)
-                if (cached.ast.program.body.length > 0) {
-                        return cached.ast
-                }
-        }
-
-        const parse = getParser()
-        const ast = parse(code, {
-                startLine: 0,
-                ...getParserOptions(),
-        })
-
-        // Cache full document ASTs (typically > 1000 chars)
-        if (code.length > 1000) {
-                astCache.set(cacheKey, { ast, timestamp: now })
-                // Limit cache size
-                if (astCache.size > 10) {
-                        const oldestKey = Array.from(astCache.entries()).sort(
-                                (a, b) => a[1].timestamp - b[1].timestamp,
-                        )[0][0]
-                        astCache.delete(oldestKey)
-                }
-        }
-
-        return ast
-}
-
-export const jsxToAst = (
-        code: string,
-):
-        | import('@babel/types').Statement
-        | import('@babel/types').Statement[]
-        | false => {
-        try {
-                return templateToAst(code)
-        } catch (error) {
-                if (isDebugEnabled()) {
-                        const errorMessage =
-                                error instanceof Error
-                                        ? error.message
-                                        : String(error)
-                        vscode.window.showErrorMessage(errorMessage)
-                }
-
-                return false
+// Lazy load Babel traverse
+const getTraverse = (): typeof import('@babel/traverse').default => {
+        if (!_traverse) {
+                _traverse = require('@babel/traverse').default
         }
-}
-
-export const templateToAst = (
-        code: string,
-): import('@babel/types').Statement | import('@babel/types').Statement[] => {
-        const template = getTemplate()
-        const options = getParserOptions()
-        // template.ast only accepts plugins, not full parser options
-        // Cast plugins to the expected type
-        const result = template.ast(code, {
-                plugins: options.plugins as import('@babel/template').TemplateBuilderOptions['plugins'],
-        })
-        return result as
-                | import('@babel/types').Statement
-                | import('@babel/types').Statement[]
-}
-
-export const isJSX = (code: string) => {
-        const trimmed = code.trim()
-        const firstChar = trimmed[0]
-        const lastChar = trimmed[trimmed.length - 1]
-        if (firstChar !== '<' || lastChar !== '>') return false
-
-        const ast = jsxToAst(code)
-        if (!ast || Array.isArray(ast)) return false
-        const t = getTypes()
-        // Cast ast to Statement to fix type compatibility
-        const statement = ast as import('@babel/types').Statement
-        if (t.isExpressionStatement(statement)) {
-                return t.isJSX(statement.expression)
+        if (!_traverse) {
+                throw new Error('Failed to load Babel traverse')
         }
-        return false
+        return _traverse
 }
 
 export const astToCode = (ast: import('@babel/types').File) => {
@@ -221,6 +62,19 @@ export const codeFromNode = (node: import('@babel/types').Node) => {
                 )
                 return result.code
         }
+        // Statements and type annotations are printed as they are
+        if (
+                t.isStatement(node) ||
+                t.isTSType(node) ||
+                t.isTSTypeParameterInstantiation(node)
+        ) {
+                const result = generate(
+                        node as unknown as Parameters<typeof generate>[0],
+                        {},
+                        '',
+                )
+                return result.code
+        }
         // Fallback for non-expression nodes - create File AST (original behavior)
         // Most calls to codeFromNode are with expressions, so this path is rarely taken
         const body = [
@@ -232,6 +86,119 @@ export const codeFromNode = (node: import('@babel/types').Node) => {
         return astToCode(ast).slice(0, -1)
 }
 
+/**
+ * Source range of a node, also known by the clones of original nodes
+ */
+const getSourceRange = (
+        node: import('@babel/types').Node,
+): import('../types').TextRange | undefined => {
+        const start = node.start ?? node.loc?.start.index
+        const end = node.end ?? node.loc?.end.index
+        return start !== null &&
+                start !== undefined &&
+                end !== null &&
+                end !== undefined
+                ? { start, end }
+                : undefined
+}
+
+/**
+ * Apply the edits inside a range of the source to the text of that range.
+ * Edits nested in another edit are dropped, the outer edit replaces them
+ */
+export const applyEditsInRange = (
+        code: string,
+        { start, end }: import('../types').TextRange,
+        edits: import('../types').TextEdit[],
+): string => {
+        const inRange = edits
+                .filter(({ range }) => range.start >= start && range.end <= end)
+                .sort(
+                        (a, b) =>
+                                a.range.start - b.range.start ||
+                                b.range.end - a.range.end,
+                )
+        let text = ''
+        let offset = start
+        inRange.forEach(({ range, newText }) => {
+                if (range.start < offset) {
+                        return
+                }
+                text += code.slice(offset, range.start) + newText
+                offset = range.end
+        })
+        return text + code.slice(offset, end)
+}
+
+/**
+ * Print a node, copying the source text of the original nodes it contains
+ * with the edits inside them applied. Only the new nodes around them are
+ * generated, so the comments and formatting of moved code are kept
+ * @param code source the original nodes were parsed from
+ * @param node
+ * @param edits changes made to the original nodes, in source offsets
+ */
+export const reprintNode = (
+        code: string,
+        node: import('@babel/types').Node,
+        edits: import('../types').TextEdit[] = [],
+): string => {
+        const range = getSourceRange(node)
+        if (range) {
+                return applyEditsInRange(code, range, edits)
+        }
+
+        const t = getTypes()
+        const originals: string[] = []
+        // Copy the new nodes, with a placeholder for each original node
+        const copyNewNode = (
+                newNode: import('@babel/types').Node,
+        ): import('@babel/types').Node => {
+                const copy = t.cloneNode(newNode, false)
+                const record = copy as unknown as Record<string, unknown>
+                const keys = t.VISITOR_KEYS[copy.type] ?? []
+                keys.forEach((key) => {
+                        const value = record[key]
+                        if (Array.isArray(value)) {
+                                record[key] = value.map((child) =>
+                                        child
+                                                ? replaceChild(
+                                                          child,
+                                                          key === 'children',
+                                                  )
+                                                : child,
+                                )
+                        } else if (value && typeof value === 'object') {
+                                record[key] = replaceChild(
+                                        value as import('@babel/types').Node,
+                                        false,
+                                )
+                        }
+                })
+                return copy
+        }
+        const replaceChild = (
+                child: import('@babel/types').Node,
+                isJSXChild: boolean,
+        ): import('@babel/types').Node => {
+                if (!getSourceRange(child)) {
+                        return copyNewNode(child)
+                }
+                const text = reprintNode(code, child, edits)
+                originals.push(child.extra?.parenthesized ? `(${text})` : text)
+                const placeholder = `__reprint${originals.length - 1}__`
+                // JSX text is printed as is, without spaces between children
+                return isJSXChild
+                        ? t.jsxText(placeholder)
+                        : t.identifier(placeholder)
+        }
+
+        return codeFromNode(copyNewNode(node)).replace(
+                /__reprint(\d+)__/g,
+                (_, index) => originals[Number(index)],
+        )
+}
+
 export const isOuterMemberExpression = (path: NodePath): boolean =>
         path.isMemberExpression() &&
         !isArrayFunctionCall(path) &&
@@ -253,6 +220,61 @@ export const isFunctionBinding = (path: NodePath): boolean =>
         path.node.property.type === 'Identifier' &&
         path.node.property.name === 'bind'
 
+export const isHookCall = (
+        node: import('@babel/types').CallExpression,
+): boolean => {
+        const callee = node.callee
+        const name =
+                callee.type === 'Identifier'
+                        ? callee.name
+                        : callee.type === 'MemberExpression' &&
+                            callee.property.type === 'Identifier'
+                          ? callee.property.name
+                          : undefined
+        return !!name && /^use[A-Z0-9]/.test(name)
+}
+
+export const isJSXCondition = (
+        node: import('@babel/types').Node | null | undefined,
+): node is
+        | import('@babel/types').LogicalExpression
+        | import('@babel/types').ConditionalExpression => {
+        const t = getTypes()
+        const isJSXRoot = (branch: import('@babel/types').Node) =>
+                t.isJSXElement(branch) || t.isJSXFragment(branch)
+        if (t.isLogicalExpression(node, { operator: '&&' })) {
+                return isJSXRoot(node.right)
+        }
+        if (t.isConditionalExpression(node)) {
+                return isJSXRoot(node.consequent) || isJSXRoot(node.alternate)
+        }
+        return false
+}
+
+/**
+ * JSX returned by an arrow function, from its body or its only return
+ */
+export const getReturnedJSX = (
+        node: import('@babel/types').ArrowFunctionExpression,
+):
+        | import('@babel/types').JSXElement
+        | import('@babel/types').JSXFragment
+        | undefined => {
+        const t = getTypes()
+        const { body } = node
+        let returned: import('@babel/types').Node | null | undefined = body
+        if (t.isBlockStatement(body)) {
+                const returns = body.body.filter((statement) =>
+                        t.isReturnStatement(statement),
+                )
+                returned =
+                        returns.length === 1 ? returns[0].argument : undefined
+        }
+        return t.isJSXElement(returned) || t.isJSXFragment(returned)
+                ? returned
+                : undefined
+}
+
 export const isPathInRange =
         (start: number, end: number) =>
         (path: NodePath): boolean => {
@@ -531,6 +553,56 @@ export const findComponentMemberReferences = (
         return paths
 }
 
+/**
+ * Find identifiers referenced in the module that have no binding in any scope
+ * @param ast
+ */
+export const findUnboundIdentifiers = (
+        ast: import('@babel/types').File,
+): Array<
+        import('@babel/types').Identifier | import('@babel/types').JSXIdentifier
+> => {
+        const identifiers: Array<
+                | import('@babel/types').Identifier
+                | import('@babel/types').JSXIdentifier
+        > = []
+        const traverse = getTraverse()
+        traverse(ast as unknown as Parameters<typeof traverse>[0], {
+                ReferencedIdentifier(path: NodePath) {
+                        const node = path.node
+                        // Type names have no scope binding, skip type positions.
+                        // The global undefined is always bound
+                        if (
+                                (node.type === 'Identifier' ||
+                                        node.type === 'JSXIdentifier') &&
+                                node.name !== 'undefined' &&
+                                !path.scope.hasBinding(node.name, true) &&
+                                !path.findParent(
+                                        (parent) =>
+                                                parent.isTSType() ||
+                                                parent.isTSInterfaceDeclaration() ||
+                                                parent.isTSTypeAliasDeclaration(),
+                                )
+                        ) {
+                                identifiers.push(node)
+                        }
+                },
+        })
+        return identifiers
+}
+
+/**
+ * Find names referenced in the module that have no binding in any scope
+ * @param ast
+ */
+export const findUnboundReferences = (
+        ast: import('@babel/types').File,
+): string[] => {
+        return Array.from(
+                new Set(findUnboundIdentifiers(ast).map((node) => node.name)),
+        )
+}
+
 export const walkParents = (
         path: NodePath,
         condition: (path: NodePath) => boolean,
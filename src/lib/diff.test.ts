@@ -0,0 +1,106 @@
+import { describe, expect, test } from 'bun:test'
+import { createUnifiedDiff } from './diff'
+
+describe('createUnifiedDiff', () => {
+        test('returns nothing for identical texts', () => {
+                expect(createUnifiedDiff('a', 'b', 'x\ny\n', 'x\ny\n')).toBe('')
+        })
+
+        test('prints changed lines within their context', () => {
+                const oldText = 'a\nb\nc\nd\ne\nf\ng\nh\ni\n'
+                const newText = 'a\nb\nc\nd\nE\nf\ng\nh\ni\n'
+
+                expect(
+                        createUnifiedDiff('a/file', 'b/file', oldText, newText),
+                ).toBe(`--- a/file
++++ b/file
+@@ -2,7 +2,7 @@
+ b
+ c
+ d
+-e
++E
+ f
+ g
+ h
+`)
+        })
+
+        test('splits distant changes into hunks', () => {
+                const oldText = 'a\nb\nc\nd\ne\nf\ng\n'
+                const newText = 'A\nb\nc\nd\ne\nf\nG\n'
+
+                expect(
+                        createUnifiedDiff(
+                                'a/file',
+                                'b/file',
+                                oldText,
+                                newText,
+                                1,
+                        ),
+                ).toBe(`--- a/file
++++ b/file
+@@ -1,2 +1,2 @@
+-a
++A
+ b
+@@ -6,2 +6,2 @@
+ f
+-g
++G
+`)
+        })
+
+        test('diffs a created file from /dev/null', () => {
+                expect(
+                        createUnifiedDiff('/dev/null', 'b/file', '', 'a\nb\n'),
+                ).toBe(`--- /dev/null
++++ b/file
+@@ -0,0 +1,2 @@
++a
++b
+`)
+        })
+
+        test('marks a last line without newline', () => {
+                expect(
+                        createUnifiedDiff('a/file', 'b/file', 'a\nb', 'a\nc'),
+                ).toBe(
+                        `--- a/file
++++ b/file
+@@ -1,2 +1,2 @@
+ a
+-b
+\\ No newline at end of file
++c
+\\ No newline at end of file
+`,
+                )
+        })
+
+        test('shows a newline added at the end of the file', () => {
+                expect(
+                        createUnifiedDiff('a/file', 'b/file', 'a\nb', 'a\nb\n'),
+                ).toBe(`--- a/file
++++ b/file
+@@ -1,2 +1,2 @@
+ a
+-b
+\\ No newline at end of file
++b
+`)
+        })
+
+        test('shows a newline removed from the end of the file', () => {
+                expect(
+                        createUnifiedDiff('a/file', 'b/file', 'a\nb\n', 'a\nb'),
+                ).toBe(`--- a/file
++++ b/file
+@@ -1,2 +1,2 @@
+ a
+-b
++b
+\\ No newline at end of file
+`)
+        })
+})
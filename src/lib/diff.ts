@@ -0,0 +1,160 @@
+/**
+ * Unified diff of two texts, line by line
+ */
+
+type DiffLine = { type: ' ' | '-' | '+'; text: string }
+
+const NO_NEWLINE = '\\ No newline at end of file'
+
+/**
+ * Split a text into lines, keeping the newline of a last line without one,
+ * so that it differs from the same line ending with a newline
+ * @param text
+ */
+const splitLines = (text: string): string[] => {
+        if (!text) {
+                return []
+        }
+        const lines = text.split('\n')
+        if (lines[lines.length - 1] === '') {
+                lines.pop()
+        } else {
+                lines[lines.length - 1] += '\n'
+        }
+        return lines
+}
+
+const printLine = ({ type, text }: DiffLine): string =>
+        text.endsWith('\n')
+                ? `${type}${text.slice(0, -1)}\n${NO_NEWLINE}`
+                : `${type}${text}`
+
+/**
+ * Diff two lists of lines with their longest common subsequence
+ * @param a
+ * @param b
+ */
+const diffLines = (a: string[], b: string[]): DiffLine[] => {
+        let prefix = 0
+        while (
+                prefix < a.length &&
+                prefix < b.length &&
+                a[prefix] === b[prefix]
+        ) {
+                prefix++
+        }
+        let suffix = 0
+        while (
+                suffix < a.length - prefix &&
+                suffix < b.length - prefix &&
+                a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+        ) {
+                suffix++
+        }
+
+        const oldLines = a.slice(prefix, a.length - suffix)
+        const newLines = b.slice(prefix, b.length - suffix)
+        const n = oldLines.length
+        const m = newLines.length
+        // lengths[i * (m + 1) + j] is the LCS length of oldLines[i..] and newLines[j..]
+        const lengths = new Uint32Array((n + 1) * (m + 1))
+        for (let i = n - 1; i >= 0; i--) {
+                for (let j = m - 1; j >= 0; j--) {
+                        lengths[i * (m + 1) + j] =
+                                oldLines[i] === newLines[j]
+                                        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+                                        : Math.max(
+                                                  lengths[
+                                                          (i + 1) * (m + 1) + j
+                                                  ],
+                                                  lengths[i * (m + 1) + j + 1],
+                                          )
+                }
+        }
+
+        const lines: DiffLine[] = a
+                .slice(0, prefix)
+                .map((text) => ({ type: ' ', text }))
+        let i = 0
+        let j = 0
+        while (i < n || j < m) {
+                if (i < n && j < m && oldLines[i] === newLines[j]) {
+                        lines.push({ type: ' ', text: oldLines[i] })
+                        i++
+                        j++
+                } else if (
+                        i < n &&
+                        (j === m ||
+                                lengths[(i + 1) * (m + 1) + j] >=
+                                        lengths[i * (m + 1) + j + 1])
+                ) {
+                        lines.push({ type: '-', text: oldLines[i] })
+                        i++
+                } else {
+                        lines.push({ type: '+', text: newLines[j] })
+                        j++
+                }
+        }
+        lines.push(
+                ...a
+                        .slice(a.length - suffix)
+                        .map((text): DiffLine => ({ type: ' ', text })),
+        )
+        return lines
+}
+
+/**
+ * Create a unified diff between two versions of a file
+ * @param oldName name of the old file, `/dev/null` when created
+ * @param newName name of the new file
+ * @param oldText
+ * @param newText
+ * @param context number of unchanged lines around each change
+ */
+export const createUnifiedDiff = (
+        oldName: string,
+        newName: string,
+        oldText: string,
+        newText: string,
+        context: number = 3,
+): string => {
+        const lines = diffLines(splitLines(oldText), splitLines(newText))
+        const changed = lines
+                .map((line, index) => (line.type === ' ' ? -1 : index))
+                .filter((index) => index >= 0)
+        if (!changed.length) {
+                return ''
+        }
+
+        // Group changes whose context overlaps into hunks
+        const hunks: Array<{ start: number; end: number }> = []
+        changed.forEach((index) => {
+                const last = hunks[hunks.length - 1]
+                if (last && index - context <= last.end) {
+                        last.end = Math.min(lines.length, index + context + 1)
+                } else {
+                        hunks.push({
+                                start: Math.max(0, index - context),
+                                end: Math.min(
+                                        lines.length,
+                                        index + context + 1,
+                                ),
+                        })
+                }
+        })
+
+        const output = [`--- ${oldName}`, `+++ ${newName}`]
+        hunks.forEach(({ start, end }) => {
+                const before = lines.slice(0, start)
+                const hunk = lines.slice(start, end)
+                const oldStart = before.filter((l) => l.type !== '+').length
+                const newStart = before.filter((l) => l.type !== '-').length
+                const oldCount = hunk.filter((l) => l.type !== '+').length
+                const newCount = hunk.filter((l) => l.type !== '-').length
+                output.push(
+                        `@@ -${oldCount ? oldStart + 1 : oldStart},${oldCount} +${newCount ? newStart + 1 : newStart},${newCount} @@`,
+                        ...hunk.map(printLine),
+                )
+        })
+        return `${output.join('\n')}\n`
+}
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test'
+import {
+        convertGeneratedIndentation,
+        DEFAULT_INDENT,
+        dedentLines,
+        detectIndentation,
+        getLineIndentation,
+        indentLines,
+} from './indentation'
+
+describe('detectIndentation', () => {
+        test('detects the most common step of spaces', () => {
+                const code = `function App() {
+   return (
+      <div>
+         <p />
+      </div>
+   )
+}
+/**
+ * Comment lines are ignored
+ */
+`
+                expect(detectIndentation(code)).toBe('   ')
+        })
+
+        test('detects tabs, and defaults without indented lines', () => {
+                expect(detectIndentation('if (a) {\n\tb()\n}\n')).toBe('\t')
+                expect(detectIndentation('const a = 1\n')).toBe(DEFAULT_INDENT)
+        })
+})
+
+describe('line indentation', () => {
+        test('finds the indentation of the line of an offset', () => {
+                const code = 'a\n    b + c\n'
+                expect(getLineIndentation(code, code.indexOf('c'))).toBe('    ')
+        })
+
+        test('removes and adds indentation after the first line', () => {
+                expect(
+                        dedentLines('<div>\n      <p />\n    </div>', '    '),
+                ).toBe('<div>\n  <p />\n</div>')
+                expect(indentLines('<div>\n  <p />\n\n</div>', '  ')).toBe(
+                        '<div>\n    <p />\n\n  </div>',
+                )
+        })
+})
+
+describe('convertGeneratedIndentation', () => {
+        test('converts indentation levels, keeping template literal lines', () => {
+                const code = `function Title() {
+  const text = \`a
+  b\`
+  return text
+}`
+                expect(convertGeneratedIndentation(code, '\t')).toBe(
+                        `function Title() {
+\tconst text = \`a
+  b\`
+\treturn text
+}`,
+                )
+        })
+})
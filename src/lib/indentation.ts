@@ -0,0 +1,136 @@
+/**
+ * Indentation of source code, detected from the code and normalised
+ */
+
+/**
+ * Indentation unit used when the code has no indented lines
+ */
+export const DEFAULT_INDENT = '    '
+
+const getIndent = (line: string): string => /^[ \t]*/.exec(line)?.[0] ?? ''
+
+/**
+ * Detect the indentation unit of the code: a tab, or the most common
+ * number of spaces added from one line to the next
+ * @param code
+ */
+export const detectIndentation = (code: string): string => {
+        let tabLines = 0
+        let spaceLines = 0
+        let previous = 0
+        const steps = new Map<number, number>()
+        code.split('\n').forEach((line) => {
+                const text = line.trim()
+                // Skip blank lines and the continuation of block comments
+                if (!text || text.startsWith('*')) {
+                        return
+                }
+                const indent = getIndent(line)
+                if (indent.startsWith('\t')) {
+                        tabLines++
+                        return
+                }
+                if (indent) {
+                        spaceLines++
+                }
+                const step = indent.length - previous
+                if (step > 0) {
+                        steps.set(step, (steps.get(step) ?? 0) + 1)
+                }
+                previous = indent.length
+        })
+
+        if (tabLines > spaceLines) {
+                return '\t'
+        }
+        let width = 0
+        let count = 0
+        steps.forEach((stepCount, step) => {
+                if (stepCount > count) {
+                        width = step
+                        count = stepCount
+                }
+        })
+        return width ? ' '.repeat(width) : DEFAULT_INDENT
+}
+
+/**
+ * Indentation of the line containing an offset
+ * @param code
+ * @param offset
+ */
+export const getLineIndentation = (code: string, offset: number): string =>
+        getIndent(code.slice(code.lastIndexOf('\n', offset - 1) + 1))
+
+/**
+ * Remove the indentation of the line code was copied from, from the lines
+ * after its first one
+ * @param text
+ * @param indent indentation of the first line in the source
+ */
+export const dedentLines = (text: string, indent: string): string =>
+        text
+                .split('\n')
+                .map((line, index) =>
+                        index > 0 && line.startsWith(indent)
+                                ? line.slice(indent.length)
+                                : line,
+                )
+                .join('\n')
+
+/**
+ * Indent the non-blank lines after the first one, for code inserted after
+ * an indentation
+ * @param text
+ * @param indent
+ */
+export const indentLines = (text: string, indent: string): string =>
+        text
+                .split('\n')
+                .map((line, index) =>
+                        index > 0 && line.trim() ? `${indent}${line}` : line,
+                )
+                .join('\n')
+
+/**
+ * Indentation unit of the code printed by the Babel generator
+ */
+const GENERATOR_INDENT = '  '
+
+/**
+ * Map the lines of code, except those continuing a multiline template
+ * literal whose text must not change
+ * @param code
+ * @param map
+ */
+export const mapCodeLines = (
+        code: string,
+        map: (line: string) => string,
+): string => {
+        let inTemplate = false
+        return code
+                .split('\n')
+                .map((line) => {
+                        const mapped = inTemplate ? line : map(line)
+                        const backticks = line.match(/(?<!\\)`/g)?.length ?? 0
+                        inTemplate =
+                                backticks % 2 === 1 ? !inTemplate : inTemplate
+                        return mapped
+                })
+                .join('\n')
+}
+
+/**
+ * Replace the indentation of generated code with the unit of the source
+ * @param text
+ * @param indent
+ */
+export const convertGeneratedIndentation = (
+        text: string,
+        indent: string,
+): string =>
+        mapCodeLines(text, (line) =>
+                line.replace(/^( {2})+/, (levels) =>
+                        indent.repeat(levels.length / GENERATOR_INDENT.length),
+                ),
+        )
@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'bun:test'
+import {
+        findJsonProperty,
+        JsonSyntaxError,
+        parseJson,
+        parseJsonc,
+} from './json'
+
+describe('parseJson', () => {
+        test('keeps the ranges of the values and keys', () => {
+                const text = '{ "a": [1, true], "b": { "c": null } }'
+                const root = parseJson(text)
+                const b = findJsonProperty(root, 'b')
+
+                expect(root.value).toEqual({ a: [1, true], b: { c: null } })
+                expect(text.slice(b?.keyRange.start, b?.keyRange.end)).toBe(
+                        '"b"',
+                )
+                expect(text.slice(b?.node.range.start, b?.node.range.end)).toBe(
+                        '{ "c": null }',
+                )
+                expect(
+                        findJsonProperty(root, 'a')?.node.items?.map(
+                                ({ range }) =>
+                                        text.slice(range.start, range.end),
+                        ),
+                ).toEqual(['1', 'true'])
+        })
+
+        test('throws syntax errors at their offset', () => {
+                const text = '{ "a": 1, }'
+                let error: unknown
+                try {
+                        parseJson(text)
+                } catch (caught) {
+                        error = caught
+                }
+
+                expect(error).toBeInstanceOf(JsonSyntaxError)
+                expect((error as JsonSyntaxError).offset).toBe(
+                        text.indexOf('}'),
+                )
+        })
+})
+
+describe('parseJsonc', () => {
+        test('ignores comments and trailing commas outside strings', () => {
+                expect(
+                        parseJsonc(`{
+  // Options
+  "url": "http://a/*b*/",
+  "items": [1, 2,], /* last */
+}`),
+                ).toEqual({ url: 'http://a/*b*/', items: [1, 2] })
+        })
+})
@@ -0,0 +1,244 @@
+/**
+ * JSON - Parse JSON documents keeping the offsets of their values
+ */
+
+import type { TextRange } from '../types'
+
+/**
+ * JSON value with its range in the document, and its properties or items
+ */
+export interface JsonNode {
+        value: unknown
+        range: TextRange
+        properties?: JsonProperty[]
+        items?: JsonNode[]
+}
+
+/**
+ * Property of a JSON object, with the range of its key
+ */
+export interface JsonProperty {
+        key: string
+        keyRange: TextRange
+        node: JsonNode
+}
+
+/**
+ * Syntax error at an offset of a JSON document
+ */
+export class JsonSyntaxError extends Error {
+        constructor(
+                message: string,
+                public readonly offset: number,
+        ) {
+                super(message)
+                this.name = 'JsonSyntaxError'
+        }
+}
+
+const LITERALS: Record<string, unknown> = {
+        true: true,
+        false: false,
+        null: null,
+}
+
+/**
+ * Parse a JSON document
+ * @param text
+ */
+export const parseJson = (text: string): JsonNode => {
+        let offset = 0
+
+        const fail = (message: string): never => {
+                throw new JsonSyntaxError(message, offset)
+        }
+        const skipWhitespace = () => {
+                while (/\s/.test(text[offset] ?? '')) {
+                        offset++
+                }
+        }
+        const expect = (char: string) => {
+                skipWhitespace()
+                if (text[offset] !== char) {
+                        fail(`Expected '${char}'`)
+                }
+                offset++
+        }
+
+        const parseString = (): { value: string; range: TextRange } => {
+                const start = offset
+                offset++
+                while (offset < text.length && text[offset] !== '"') {
+                        offset += text[offset] === '\\' ? 2 : 1
+                }
+                if (offset >= text.length) {
+                        offset = start
+                        fail('Unterminated string')
+                }
+                offset++
+                try {
+                        return {
+                                value: JSON.parse(text.slice(start, offset)),
+                                range: { start, end: offset },
+                        }
+                } catch {
+                        offset = start
+                        return fail('Invalid string')
+                }
+        }
+
+        const parseValue = (): JsonNode => {
+                skipWhitespace()
+                const start = offset
+                const char = text[offset]
+                if (char === '{') {
+                        offset++
+                        const properties: JsonProperty[] = []
+                        skipWhitespace()
+                        if (text[offset] === '}') {
+                                offset++
+                        } else {
+                                while (true) {
+                                        skipWhitespace()
+                                        if (text[offset] !== '"') {
+                                                fail('Expected a property name')
+                                        }
+                                        const key = parseString()
+                                        expect(':')
+                                        properties.push({
+                                                key: key.value,
+                                                keyRange: key.range,
+                                                node: parseValue(),
+                                        })
+                                        skipWhitespace()
+                                        if (text[offset] === ',') {
+                                                offset++
+                                                continue
+                                        }
+                                        expect('}')
+                                        break
+                                }
+                        }
+                        return {
+                                value: Object.fromEntries(
+                                        properties.map(({ key, node }) => [
+                                                key,
+                                                node.value,
+                                        ]),
+                                ),
+                                range: { start, end: offset },
+                                properties,
+                        }
+                }
+                if (char === '[') {
+                        offset++
+                        const items: JsonNode[] = []
+                        skipWhitespace()
+                        if (text[offset] === ']') {
+                                offset++
+                        } else {
+                                while (true) {
+                                        items.push(parseValue())
+                                        skipWhitespace()
+                                        if (text[offset] === ',') {
+                                                offset++
+                                                continue
+                                        }
+                                        expect(']')
+                                        break
+                                }
+                        }
+                        return {
+                                value: items.map((item) => item.value),
+                                range: { start, end: offset },
+                                items,
+                        }
+                }
+                if (char === '"') {
+                        const { value, range } = parseString()
+                        return { value, range }
+                }
+
+                const token =
+                        /^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null)/.exec(
+                                text.slice(offset),
+                        )?.[0]
+                if (!token) {
+                        return fail(
+                                offset < text.length
+                                        ? 'Unexpected character'
+                                        : 'Unexpected end of file',
+                        )
+                }
+                offset += token.length
+                return {
+                        value:
+                                token in LITERALS
+                                        ? LITERALS[token]
+                                        : Number(token),
+                        range: { start, end: offset },
+                }
+        }
+
+        const root = parseValue()
+        skipWhitespace()
+        if (offset < text.length) {
+                fail('Unexpected content after the end of the document')
+        }
+        return root
+}
+
+/**
+ * Property of an object node, by key
+ * @param node
+ * @param key
+ */
+export const findJsonProperty = (
+        node: JsonNode,
+        key: string,
+): JsonProperty | undefined =>
+        node.properties?.findLast((property) => property.key === key)
+
+/**
+ * Remove the comments of a JSON document, or its trailing commas
+ */
+const stripJsonc = (text: string, trailingCommas: boolean): string => {
+        let json = ''
+        let offset = 0
+        while (offset < text.length) {
+                const char = text[offset]
+                if (char === '"') {
+                        const start = offset
+                        offset++
+                        while (offset < text.length && text[offset] !== '"') {
+                                offset += text[offset] === '\\' ? 2 : 1
+                        }
+                        offset++
+                        json += text.slice(start, offset)
+                } else if (!trailingCommas && text.startsWith('//', offset)) {
+                        const end = text.indexOf('\n', offset)
+                        offset = end === -1 ? text.length : end
+                } else if (!trailingCommas && text.startsWith('/*', offset)) {
+                        const end = text.indexOf('*/', offset + 2)
+                        offset = end === -1 ? text.length : end + 2
+                } else {
+                        if (
+                                !trailingCommas ||
+                                char !== ',' ||
+                                !/^\s*[}\]]/.test(text.slice(offset + 1))
+                        ) {
+                                json += char
+                        }
+                        offset++
+                }
+        }
+        return json
+}
+
+/**
+ * Parse a JSON document that may have comments and trailing commas, like
+ * tsconfig.json
+ * @param text
+ */
+export const parseJsonc = (text: string): unknown =>
+        JSON.parse(stripJsonc(stripJsonc(text, false), true))
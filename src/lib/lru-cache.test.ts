@@ -0,0 +1,33 @@
+import { describe, expect, test } from 'bun:test'
+import { LRUCache } from './lru-cache'
+
+describe('LRUCache', () => {
+        test('evicts the least recently used entry when full', () => {
+                const cache = new LRUCache<string, number>(2)
+                cache.set('a', 1)
+                cache.set('b', 2)
+                cache.get('a')
+                cache.set('c', 3)
+
+                expect(cache.size).toBe(2)
+                expect(cache.get('b')).toBeUndefined()
+                expect(cache.get('a')).toBe(1)
+                expect(cache.get('c')).toBe(3)
+        })
+
+        test('updates an entry without growing', () => {
+                const cache = new LRUCache<string, number>(2)
+                cache.set('a', 1)
+                cache.set('b', 2)
+                cache.set('a', 3)
+                cache.set('c', 4)
+
+                expect(cache.get('a')).toBe(3)
+                expect(cache.get('b')).toBeUndefined()
+
+                cache.delete('a')
+                expect(cache.size).toBe(1)
+                cache.clear()
+                expect(cache.size).toBe(0)
+        })
+})
@@ -0,0 +1,49 @@
+/**
+ * LRU Cache - Bounded map evicting the least recently used entries
+ */
+
+/**
+ * Map of at most `capacity` entries, dropping the least recently used one
+ * when full
+ */
+export class LRUCache<K, V> {
+        // Maps iterate in insertion order: the first key is the least recently
+        // used one
+        private readonly entries = new Map<K, V>()
+
+        constructor(private readonly capacity: number) {}
+
+        get size(): number {
+                return this.entries.size
+        }
+
+        /**
+         * Get an entry, marking it as the most recently used
+         */
+        get(key: K): V | undefined {
+                if (!this.entries.has(key)) {
+                        return undefined
+                }
+                const value = this.entries.get(key) as V
+                this.entries.delete(key)
+                this.entries.set(key, value)
+                return value
+        }
+
+        set(key: K, value: V): void {
+                this.entries.delete(key)
+                this.entries.set(key, value)
+                if (this.entries.size > this.capacity) {
+                        const [oldest] = this.entries.keys()
+                        this.entries.delete(oldest as K)
+                }
+        }
+
+        delete(key: K): void {
+                this.entries.delete(key)
+        }
+
+        clear(): void {
+                this.entries.clear()
+        }
+}
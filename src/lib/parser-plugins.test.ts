@@ -0,0 +1,143 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {
+        detectParserPlugins,
+        findSyntaxConfig,
+        resolveParserPlugins,
+} from './parser-plugins'
+
+const project = mkdtempSync(path.join(os.tmpdir(), 'parser-plugins-'))
+afterAll(() => rmSync(project, { recursive: true, force: true }))
+
+function writeProject(name: string, files: Record<string, string>) {
+        const directory = path.join(project, name)
+        for (const [fileName, content] of Object.entries(files)) {
+                mkdirSync(path.dirname(path.join(directory, fileName)), {
+                        recursive: true,
+                })
+                writeFileSync(path.join(directory, fileName), content)
+        }
+        return directory
+}
+
+describe('detectParserPlugins', () => {
+        test('detects the language from the extension or language identifier', () => {
+                const directory = writeProject('language', {})
+                const pluginsOf = (fileName?: string, languageId?: string) =>
+                        detectParserPlugins({
+                                fileName:
+                                        fileName &&
+                                        path.join(directory, fileName),
+                                languageId,
+                        }).plugins
+
+                expect(pluginsOf('App.jsx')).toEqual([
+                        'objectRestSpread',
+                        'classProperties',
+                        'jsx',
+                ])
+                expect(pluginsOf('utils.ts')).toEqual([
+                        'objectRestSpread',
+                        'classProperties',
+                        'typescript',
+                ])
+                expect(pluginsOf('App.tsx')).toContain('jsx')
+                expect(pluginsOf('Untitled-1', 'typescriptreact')).toEqual([
+                        'objectRestSpread',
+                        'classProperties',
+                        'typescript',
+                        'jsx',
+                ])
+                expect(pluginsOf()).toEqual(pluginsOf('App.tsx'))
+        })
+
+        test('reads decorators and import attributes from the nearest tsconfig.json', () => {
+                const directory = writeProject('typescript', {
+                        'tsconfig.base.json': `{
+  // Shared options
+  "compilerOptions": { "experimentalDecorators": true, },
+}`,
+                        'tsconfig.json':
+                                '{ "extends": "./tsconfig.base", "compilerOptions": { "module": "NodeNext" } }',
+                        'src/App.tsx': '',
+                })
+                const tsconfig = path.join(directory, 'tsconfig.json')
+
+                expect(
+                        detectParserPlugins({
+                                fileName: path.join(directory, 'src/App.tsx'),
+                        }).reasons,
+                ).toMatchObject({
+                        'decorators-legacy': tsconfig,
+                        importAttributes: tsconfig,
+                })
+        })
+
+        test('detects Flow from a pragma, a .flowconfig or the Babel configuration', () => {
+                const pragma = writeProject('pragma', {})
+                const flowConfig = writeProject('flowconfig', {
+                        '.flowconfig': '[options]',
+                })
+                const babel = writeProject('babel', {
+                        '.babelrc': `{
+  "presets": ["@babel/preset-flow"],
+  "plugins": [["@babel/plugin-proposal-decorators", { "legacy": true }]]
+}`,
+                })
+
+                expect(
+                        detectParserPlugins({
+                                fileName: path.join(pragma, 'App.js'),
+                                code: '// @flow strict\nexport const a = 1\n',
+                        }).reasons.flow,
+                ).toBe('@flow pragma')
+                expect(
+                        detectParserPlugins({
+                                fileName: path.join(flowConfig, 'App.js'),
+                        }).reasons.flow,
+                ).toBe(path.join(flowConfig, '.flowconfig'))
+                expect(
+                        detectParserPlugins({
+                                fileName: path.join(babel, 'App.js'),
+                        }).reasons,
+                ).toMatchObject({
+                        flow: path.join(babel, '.babelrc'),
+                        'decorators-legacy': path.join(babel, '.babelrc'),
+                })
+                expect(
+                        detectParserPlugins({
+                                fileName: path.join(flowConfig, 'App.tsx'),
+                        }).plugins,
+                ).not.toContain('flow')
+        })
+
+        test('uses the given configuration files', () => {
+                const directory = writeProject('config', {
+                        '.flowconfig': '[options]',
+                })
+                const config = findSyntaxConfig(directory)
+
+                expect(config.flowConfig).toBe(
+                        path.join(directory, '.flowconfig'),
+                )
+                expect(
+                        detectParserPlugins({ fileName: 'App.js' }, config)
+                                .plugins,
+                ).toContain('flow')
+        })
+})
+
+describe('resolveParserPlugins', () => {
+        test('prefers the configured plugins to the detected ones', () => {
+                expect(
+                        resolveParserPlugins(['jsx', 'flow'], {
+                                fileName: 'App.tsx',
+                        }),
+                ).toEqual(['jsx', 'flow'])
+                expect(
+                        resolveParserPlugins([], { languageId: 'javascript' }),
+                ).toEqual(['objectRestSpread', 'classProperties', 'jsx'])
+        })
+})
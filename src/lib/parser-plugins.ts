@@ -0,0 +1,267 @@
+/**
+ * Parser Plugins - Babel parser plugins of a file, from its language and the
+ * nearest TypeScript, Babel and Flow configurations
+ */
+
+import { existsSync, readFileSync } from 'node:fs'
+import * as path from 'node:path'
+import { parseJsonc } from './json'
+
+/**
+ * File whose parser plugins are detected
+ */
+export interface ParserPluginsSource {
+        fileName?: string
+        /** VS Code language identifier, like `typescriptreact` */
+        languageId?: string
+        code?: string
+}
+
+/**
+ * Nearest configuration files of a directory deciding the parser plugins
+ */
+export interface SyntaxConfig {
+        babelConfig?: string
+        /** Content of the Babel configuration */
+        babelText: string
+        tsconfig?: string
+        compilerOptions: Record<string, unknown>
+        flowConfig?: string
+}
+
+/**
+ * Detected parser plugins, with the reason each one was chosen
+ */
+export interface DetectedParserPlugins {
+        plugins: string[]
+        reasons: Record<string, string>
+}
+
+/**
+ * Syntax plugins needed by code that older parser versions reject
+ */
+const BASE_PLUGINS = ['objectRestSpread', 'classProperties']
+
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts']
+
+const TYPESCRIPT_LANGUAGES = ['typescript', 'typescriptreact']
+
+const BABEL_CONFIG_FILES = [
+        'babel.config.json',
+        'babel.config.js',
+        'babel.config.cjs',
+        'babel.config.mjs',
+        'babel.config.cts',
+        '.babelrc',
+        '.babelrc.json',
+        '.babelrc.js',
+        '.babelrc.cjs',
+        '.babelrc.mjs',
+]
+
+/**
+ * TypeScript module settings allowing import attributes
+ */
+const IMPORT_ATTRIBUTES_MODULES = [
+        'esnext',
+        'node16',
+        'node18',
+        'node20',
+        'nodenext',
+        'preserve',
+]
+
+/**
+ * Find the configuration files deciding the parser plugins of the files of a
+ * directory, from the directory up to the root
+ * @param dir
+ */
+export const findSyntaxConfig = (dir: string): SyntaxConfig => {
+        const babelConfig = findNearestFile(dir, BABEL_CONFIG_FILES)
+        const tsconfig = findNearestFile(dir, ['tsconfig.json'])
+        return {
+                babelConfig,
+                babelText: babelConfig ? readText(babelConfig) : '',
+                tsconfig,
+                compilerOptions: tsconfig ? readCompilerOptions(tsconfig) : {},
+                flowConfig: findNearestFile(dir, ['.flowconfig']),
+        }
+}
+
+/**
+ * Detect the parser plugins of a file. Without a file name or language, the
+ * code is parsed as TypeScript with JSX.
+ * @param source
+ * @param config configuration files of the directory of the file, found
+ * from its name by default
+ */
+export const detectParserPlugins = (
+        source: ParserPluginsSource,
+        config: SyntaxConfig | undefined = source.fileName
+                ? findSyntaxConfig(path.dirname(source.fileName))
+                : undefined,
+): DetectedParserPlugins => {
+        const { fileName, languageId, code } = source
+        const extension = fileName ? path.extname(fileName).toLowerCase() : ''
+        const reasons: Record<string, string> = {}
+        const add = (plugin: string, reason: string) => {
+                reasons[plugin] ??= reason
+        }
+        BASE_PLUGINS.forEach((plugin) => {
+                add(plugin, 'default')
+        })
+
+        const isTypeScript = languageId
+                ? TYPESCRIPT_LANGUAGES.includes(languageId)
+                : !extension || TYPESCRIPT_EXTENSIONS.includes(extension)
+        const language = languageId
+                ? `language ${languageId}`
+                : extension
+                  ? `extension ${extension}`
+                  : 'no file name'
+        if (isTypeScript) {
+                add('typescript', language)
+        }
+        // Type assertions like `<T>value` conflict with JSX in .ts files
+        if (
+                languageId !== 'typescript' &&
+                (languageId || !['.ts', '.mts', '.cts'].includes(extension))
+        ) {
+                add('jsx', language)
+        }
+
+        const {
+                babelConfig,
+                babelText = '',
+                tsconfig,
+                flowConfig,
+        } = config ?? {}
+        const compilerOptions = config?.compilerOptions ?? {}
+
+        if (!isTypeScript) {
+                if (code && /^\s*(\/\/|\/\*)[^\n]*@flow\b/.test(code)) {
+                        add('flow', '@flow pragma')
+                } else if (flowConfig) {
+                        add('flow', flowConfig)
+                } else if (
+                        babelConfig &&
+                        /preset-flow|plugin-(syntax|transform)-flow/.test(
+                                babelText,
+                        )
+                ) {
+                        add('flow', babelConfig)
+                }
+        }
+
+        if (
+                babelConfig &&
+                /plugin-(proposal|syntax)-decorators/.test(babelText)
+        ) {
+                add(
+                        /legacy['"]?\s*:\s*true|version['"]?\s*:\s*['"]legacy/.test(
+                                babelText,
+                        )
+                                ? 'decorators-legacy'
+                                : 'decorators',
+                        babelConfig,
+                )
+        } else if (tsconfig && isTypeScript) {
+                add(
+                        compilerOptions.experimentalDecorators === true
+                                ? 'decorators-legacy'
+                                : 'decorators',
+                        tsconfig,
+                )
+        }
+
+        if (babelConfig && /plugin-syntax-import-attributes/.test(babelText)) {
+                add('importAttributes', babelConfig)
+        } else if (
+                tsconfig &&
+                typeof compilerOptions.module === 'string' &&
+                IMPORT_ATTRIBUTES_MODULES.includes(
+                        compilerOptions.module.toLowerCase(),
+                )
+        ) {
+                add('importAttributes', tsconfig)
+        }
+
+        return { plugins: Object.keys(reasons), reasons }
+}
+
+/**
+ * Parser plugins of a file: the configured ones, or the detected ones when
+ * none are configured
+ * @param override configured plugins
+ * @param source
+ */
+export const resolveParserPlugins = (
+        override: string[],
+        source: ParserPluginsSource,
+): string[] =>
+        override.length ? override : detectParserPlugins(source).plugins
+
+/**
+ * Nearest file with one of the names, from a directory up to the root
+ */
+const findNearestFile = (
+        fromDir: string,
+        names: string[],
+): string | undefined => {
+        let dir = path.resolve(fromDir)
+        while (true) {
+                for (const name of names) {
+                        const filePath = path.join(dir, name)
+                        if (existsSync(filePath)) {
+                                return filePath
+                        }
+                }
+                const parent = path.dirname(dir)
+                if (parent === dir) {
+                        return undefined
+                }
+                dir = parent
+        }
+}
+
+const readText = (fileName: string): string => {
+        try {
+                return readFileSync(fileName, 'utf8')
+        } catch {
+                return ''
+        }
+}
+
+/**
+ * Compiler options of a tsconfig.json, with the ones of the configurations
+ * it extends by relative path
+ */
+const readCompilerOptions = (
+        tsconfig: string,
+        depth = 0,
+): Record<string, unknown> => {
+        let config: {
+                extends?: unknown
+                compilerOptions?: Record<string, unknown>
+        }
+        try {
+                config = parseJsonc(readText(tsconfig)) as typeof config
+        } catch {
+                return {}
+        }
+        const base =
+                typeof config?.extends === 'string' &&
+                config.extends.startsWith('.') &&
+                depth < 5
+                        ? readCompilerOptions(
+                                  path.resolve(
+                                          path.dirname(tsconfig),
+                                          config.extends.endsWith('.json')
+                                                  ? config.extends
+                                                  : `${config.extends}.json`,
+                                  ),
+                                  depth + 1,
+                          )
+                        : {}
+        return { ...base, ...config?.compilerOptions }
+}
@@ -0,0 +1,107 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {
+        createTemplateGenerator,
+        DEFAULT_TEMPLATES_DIRECTORY,
+        findComponentTemplate,
+} from './templates'
+
+const project = mkdtempSync(path.join(os.tmpdir(), 'templates-'))
+const templates = path.join(project, DEFAULT_TEMPLATES_DIRECTORY)
+mkdirSync(templates, { recursive: true })
+
+afterAll(() => rmSync(project, { recursive: true, force: true }))
+
+/**
+ * Write a template of the project and return its path
+ */
+function writeTemplate(name: string, content: string): string {
+        const templatePath = path.join(templates, name)
+        writeFileSync(templatePath, content)
+        return templatePath
+}
+
+describe('findComponentTemplate', () => {
+        test('finds the template of the language up from the file', () => {
+                writeTemplate('function.tsx.template', '')
+                const fileName = path.join(project, 'src', 'App.tsx')
+
+                expect(
+                        findComponentTemplate(
+                                'function',
+                                fileName,
+                                DEFAULT_TEMPLATES_DIRECTORY,
+                        ),
+                ).toBe(path.join(templates, 'function.tsx.template'))
+                expect(
+                        findComponentTemplate(
+                                'function',
+                                path.join(project, 'src', 'App.jsx'),
+                                DEFAULT_TEMPLATES_DIRECTORY,
+                        ),
+                ).toBeUndefined()
+                expect(
+                        findComponentTemplate('class', fileName, templates),
+                ).toBeUndefined()
+        })
+})
+
+describe('createTemplateGenerator', () => {
+        const generate = createTemplateGenerator(
+                writeTemplate(
+                        'arrowFunction.tsx.template',
+                        `{{imports}}
+
+export const {{ name }}: FC<{{propsType}}> = ({{props}}) => (
+  {{jsx}}
+)
+`,
+                ),
+        )
+
+        test('fills the placeholders, indenting the JSX like its line', () => {
+                expect(
+                        generate(
+                                'Title',
+                                '<h1>\n  {props.text}\n</h1>',
+                                'TitleProps',
+                                '  ',
+                                "import type { FC } from 'react'",
+                        ),
+                ).toBe(`
+import type { FC } from 'react'
+
+export const Title: FC<TitleProps> = (props: TitleProps) => (
+  <h1>
+    {props.text}
+  </h1>
+)
+`)
+        })
+
+        test('leaves out the imports line and the type argument without them', () => {
+                expect(generate('Logo', '<img />')).toBe(`
+export const Logo: FC = () => (
+  <img />
+)
+`)
+        })
+
+        test('rejects an unknown placeholder', () => {
+                const templatePath = writeTemplate(
+                        'class.jsx.template',
+                        'class {{name}} extends {{base}} {}',
+                )
+
+                expect(() =>
+                        createTemplateGenerator(templatePath)(
+                                'Logo',
+                                '<img />',
+                        ),
+                ).toThrow(
+                        `Unknown placeholder {{base}} in template ${templatePath}`,
+                )
+        })
+})
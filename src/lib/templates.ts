@@ -0,0 +1,154 @@
+/**
+ * Component Templates - Template files of the generated components
+ *
+ * Templates are named `<componentType>.<tsx|jsx>.template`, like
+ * `arrowFunction.tsx.template`, and use the placeholders:
+ *
+ * - `{{name}}`: component name
+ * - `{{props}}`: props parameter, `props: NameProps`, `props` or nothing
+ *   when the JSX does not use props
+ * - `{{propsType}}`: props interface name. Without props interface, a type
+ *   argument `<{{propsType}}>`, as in `FC<{{propsType}}>`, is left out and
+ *   the placeholder is `unknown` elsewhere
+ * - `{{jsx}}`: rendered JSX, indented like the placeholder's line
+ * - `{{imports}}`: imports of a component extracted to its own file, the
+ *   line is left out when there are none
+ *
+ * Import declarations written in a template are merged into the imports of
+ * the file the component is inserted in.
+ */
+
+import { existsSync, readFileSync } from 'node:fs'
+import * as path from 'node:path'
+import type { ComponentGenerator, ComponentType } from '../types'
+import { ErrorCode, RefactoringError } from '../types'
+import { propsParam } from '../utils'
+import { indentLines } from './indentation'
+
+/**
+ * Directory searched for templates when none is configured
+ */
+export const DEFAULT_TEMPLATES_DIRECTORY = '.react-refactor/templates'
+
+const TEMPLATE_EXTENSION = '.template'
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g
+
+const PROPS_TYPE_ARGUMENT = /<\s*\{\{\s*propsType\s*\}\}\s*>/g
+
+/**
+ * Find the templates directory: an absolute path, or a relative one looked
+ * up from a directory up to the root
+ * @param fromDir
+ * @param directory
+ */
+export const findTemplatesDirectory = (
+        fromDir: string,
+        directory: string,
+): string | undefined => {
+        if (path.isAbsolute(directory)) {
+                return existsSync(directory) ? directory : undefined
+        }
+        let dir = path.resolve(fromDir)
+        while (true) {
+                const templatesDir = path.join(dir, directory)
+                if (existsSync(templatesDir)) {
+                        return templatesDir
+                }
+                const parent = path.dirname(dir)
+                if (parent === dir) {
+                        return undefined
+                }
+                dir = parent
+        }
+}
+
+/**
+ * Path of the template of a component type for the language of a file,
+ * when the project has one
+ * @param type
+ * @param fileName file the component is extracted from
+ * @param directory templates directory
+ */
+export const findComponentTemplate = (
+        type: ComponentType,
+        fileName: string,
+        directory: string,
+): string | undefined => {
+        const templatesDir = findTemplatesDirectory(
+                path.dirname(fileName),
+                directory,
+        )
+        if (!templatesDir) {
+                return undefined
+        }
+        const language = /\.tsx?$/.test(fileName) ? 'tsx' : 'jsx'
+        const templatePath = path.join(
+                templatesDir,
+                `${type}.${language}${TEMPLATE_EXTENSION}`,
+        )
+        return existsSync(templatePath) ? templatePath : undefined
+}
+
+/**
+ * Component generator filling a template file
+ * @param templatePath
+ */
+export const createTemplateGenerator = (
+        templatePath: string,
+): ComponentGenerator => {
+        const template = readFileSync(templatePath, 'utf8')
+        return (name, renderCode, propsType, _indent, imports = '') => {
+                const values: Record<string, string> = {
+                        name,
+                        props: propsParam(renderCode, propsType),
+                        propsType: propsType ?? 'unknown',
+                        imports,
+                }
+                const lines = template
+                        .trim()
+                        .split('\n')
+                        .filter(
+                                (line) =>
+                                        imports ||
+                                        !/^\s*\{\{\s*imports\s*\}\}\s*$/.test(
+                                                line,
+                                        ),
+                        )
+                        .map((line) => {
+                                const lineIndent = /^[ \t]*/.exec(line)?.[0]
+                                return (
+                                        propsType
+                                                ? line
+                                                : line.replace(
+                                                          PROPS_TYPE_ARGUMENT,
+                                                          '',
+                                                  )
+                                ).replace(
+                                        PLACEHOLDER,
+                                        (placeholder, key: string) => {
+                                                if (key === 'jsx') {
+                                                        return indentLines(
+                                                                renderCode,
+                                                                lineIndent ??
+                                                                        '',
+                                                        )
+                                                }
+                                                if (
+                                                        !Object.hasOwn(
+                                                                values,
+                                                                key,
+                                                        )
+                                                ) {
+                                                        throw new RefactoringError(
+                                                                ErrorCode.INVALID_CONFIG,
+                                                                `Unknown placeholder ${placeholder} in template ${templatePath}`,
+                                                        )
+                                                }
+                                                return values[key]
+                                        },
+                                )
+                        })
+                return `\n${lines.join('\n').trim()}\n`
+        }
+}
@@ -0,0 +1,251 @@
+/**
+ * JSON-RPC Connection - Messages framed with `Content-Length` headers over streams
+ */
+
+import type { Readable, Writable } from 'node:stream'
+import { ResponseErrorCode } from './protocol'
+
+type RequestHandler = (params: unknown) => unknown
+type NotificationHandler = (params: unknown) => void
+
+interface Message {
+        jsonrpc: '2.0'
+        id?: number | string | null
+        method?: string
+        params?: unknown
+        result?: unknown
+        error?: { code: number; message: string; data?: unknown }
+}
+
+const HEADER_SEPARATOR = '\r\n\r\n'
+
+/**
+ * Error sent back as the response to a request
+ */
+export class ResponseError extends Error {
+        constructor(
+                public readonly code: number,
+                message: string,
+                public readonly data?: unknown,
+        ) {
+                super(message)
+                this.name = 'ResponseError'
+        }
+}
+
+/**
+ * Two-way JSON-RPC connection, as used by the Language Server Protocol
+ */
+export class JsonRpcConnection {
+        private buffer = Buffer.alloc(0)
+        private nextId = 0
+        private readonly pending = new Map<
+                number | string,
+                {
+                        resolve: (result: unknown) => void
+                        reject: (error: ResponseError) => void
+                }
+        >()
+        private readonly requestHandlers = new Map<string, RequestHandler>()
+        private readonly notificationHandlers = new Map<
+                string,
+                NotificationHandler
+        >()
+
+        constructor(
+                private readonly input: Readable,
+                private readonly output: Writable,
+        ) {}
+
+        /**
+         * Handle the requests of a method, the handler result is the response
+         */
+        onRequest<P, R>(
+                method: string,
+                handler: (params: P) => R | Promise<R>,
+        ): void {
+                this.requestHandlers.set(method, handler as RequestHandler)
+        }
+
+        /**
+         * Handle the notifications of a method
+         */
+        onNotification<P>(method: string, handler: (params: P) => void): void {
+                this.notificationHandlers.set(
+                        method,
+                        handler as NotificationHandler,
+                )
+        }
+
+        /**
+         * Send a request to the other side and wait for its response
+         */
+        sendRequest<R>(method: string, params: unknown): Promise<R> {
+                const id = this.nextId++
+                return new Promise<R>((resolve, reject) => {
+                        this.pending.set(id, {
+                                resolve: resolve as (result: unknown) => void,
+                                reject,
+                        })
+                        this.write({ jsonrpc: '2.0', id, method, params })
+                })
+        }
+
+        /**
+         * Send a notification to the other side
+         */
+        sendNotification(method: string, params: unknown): void {
+                this.write({ jsonrpc: '2.0', method, params })
+        }
+
+        /**
+         * Start reading messages, calling `onClose` when the input ends
+         */
+        listen(onClose: () => void): void {
+                this.input.on('data', (chunk: Buffer) => {
+                        this.buffer = Buffer.concat([this.buffer, chunk])
+                        this.readMessages()
+                })
+                this.input.on('end', onClose)
+        }
+
+        /**
+         * Dispatch every complete message of the buffer
+         */
+        private readMessages(): void {
+                while (true) {
+                        const headerEnd = this.buffer.indexOf(HEADER_SEPARATOR)
+                        if (headerEnd === -1) {
+                                return
+                        }
+                        const headers = this.buffer
+                                .subarray(0, headerEnd)
+                                .toString('ascii')
+                        const length = Number(
+                                /Content-Length:\s*(\d+)/i.exec(headers)?.[1],
+                        )
+                        const bodyStart = headerEnd + HEADER_SEPARATOR.length
+                        if (Number.isNaN(length)) {
+                                // Skip a malformed header block
+                                this.buffer = this.buffer.subarray(bodyStart)
+                                continue
+                        }
+                        if (this.buffer.length < bodyStart + length) {
+                                return
+                        }
+                        const body = this.buffer
+                                .subarray(bodyStart, bodyStart + length)
+                                .toString('utf8')
+                        this.buffer = this.buffer.subarray(bodyStart + length)
+
+                        let message: Message
+                        try {
+                                message = JSON.parse(body)
+                        } catch {
+                                this.write({
+                                        jsonrpc: '2.0',
+                                        id: null,
+                                        error: {
+                                                code: ResponseErrorCode.PARSE_ERROR,
+                                                message: 'Invalid JSON message',
+                                        },
+                                })
+                                continue
+                        }
+                        this.dispatch(message)
+                }
+        }
+
+        /**
+         * Route a message to its handler or to the request awaiting it
+         */
+        private dispatch(message: Message): void {
+                if (message.method === undefined) {
+                        const id = message.id ?? null
+                        const request =
+                                id === null ? undefined : this.pending.get(id)
+                        if (id === null || !request) {
+                                return
+                        }
+                        this.pending.delete(id)
+                        if (message.error) {
+                                const {
+                                        code,
+                                        message: text,
+                                        data,
+                                } = message.error
+                                request.reject(
+                                        new ResponseError(code, text, data),
+                                )
+                        } else {
+                                request.resolve(message.result ?? null)
+                        }
+                        return
+                }
+
+                if (message.id === undefined) {
+                        this.notificationHandlers.get(message.method)?.(
+                                message.params,
+                        )
+                        return
+                }
+
+                this.handleRequest(message.id, message.method, message.params)
+        }
+
+        /**
+         * Run a request handler and send its result or error back
+         */
+        private async handleRequest(
+                id: number | string | null,
+                method: string,
+                params: unknown,
+        ): Promise<void> {
+                const handler = this.requestHandlers.get(method)
+                if (!handler) {
+                        this.write({
+                                jsonrpc: '2.0',
+                                id,
+                                error: {
+                                        code: ResponseErrorCode.METHOD_NOT_FOUND,
+                                        message: `Unhandled method ${method}`,
+                                },
+                        })
+                        return
+                }
+
+                try {
+                        const result = await handler(params)
+                        this.write({
+                                jsonrpc: '2.0',
+                                id,
+                                result: result ?? null,
+                        })
+                } catch (error) {
+                        const { code, message, data } =
+                                error instanceof ResponseError
+                                        ? error
+                                        : new ResponseError(
+                                                  ResponseErrorCode.INTERNAL_ERROR,
+                                                  error instanceof Error
+                                                          ? error.message
+                                                          : String(error),
+                                          )
+                        this.write({
+                                jsonrpc: '2.0',
+                                id,
+                                error: { code, message, data },
+                        })
+                }
+        }
+
+        /**
+         * Write a message with its `Content-Length` header
+         */
+        private write(message: Message): void {
+                const json = JSON.stringify(message)
+                this.output.write(
+                        `Content-Length: ${Buffer.byteLength(json, 'utf8')}${HEADER_SEPARATOR}${json}`,
+                )
+        }
+}
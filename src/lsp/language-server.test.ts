@@ -0,0 +1,146 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { PassThrough } from 'node:stream'
+import { pathToFileURL } from 'node:url'
+import { JsonRpcConnection } from './connection'
+import { ReactRefactorLanguageServer } from './language-server'
+import type { CodeAction, Diagnostic, WorkspaceEdit } from './protocol'
+
+const directory = mkdtempSync(path.join(os.tmpdir(), 'lsp-'))
+
+const uri = pathToFileURL(path.join(directory, 'App.jsx')).href
+
+const text = `import React from 'react'
+
+function Title({ text }) {
+  return <h1>{text}</h1>
+}
+
+export function App({ user }) {
+  return <div><Title text={user.name} /><p>{user.bio}</p></div>
+}
+`
+
+/**
+ * Client connected to a server through in-memory streams
+ */
+function connect() {
+        const toServer = new PassThrough()
+        const toClient = new PassThrough()
+        const server = new ReactRefactorLanguageServer(
+                new JsonRpcConnection(toServer, toClient),
+        )
+        const exitCode = server.listen()
+        const client = new JsonRpcConnection(toClient, toServer)
+        const diagnostics = new Map<string, Diagnostic[]>()
+        const appliedEdits: WorkspaceEdit[] = []
+        client.onNotification(
+                'textDocument/publishDiagnostics',
+                (params: { uri: string; diagnostics: Diagnostic[] }) => {
+                        diagnostics.set(params.uri, params.diagnostics)
+                },
+        )
+        client.onRequest(
+                'workspace/applyEdit',
+                ({ edit }: { edit: WorkspaceEdit }) => {
+                        appliedEdits.push(edit)
+                        return { applied: true }
+                },
+        )
+        client.listen(() => {})
+        return { client, exitCode, diagnostics, appliedEdits }
+}
+
+function range(line: number, start: number, end = start) {
+        return {
+                start: { line, character: start },
+                end: { line, character: end },
+        }
+}
+
+describe('ReactRefactorLanguageServer', () => {
+        const { client, exitCode, diagnostics, appliedEdits } = connect()
+
+        beforeAll(async () => {
+                await client.sendRequest('initialize', {
+                        processId: null,
+                        capabilities: { workspace: { applyEdit: true } },
+                })
+                client.sendNotification('textDocument/didOpen', {
+                        textDocument: {
+                                uri,
+                                languageId: 'javascriptreact',
+                                version: 1,
+                                text,
+                        },
+                })
+        })
+        afterAll(() => rmSync(directory, { recursive: true, force: true }))
+
+        const codeActions = (selection: ReturnType<typeof range>) =>
+                client.sendRequest<CodeAction[]>('textDocument/codeAction', {
+                        textDocument: { uri },
+                        range: selection,
+                        context: { diagnostics: [] },
+                })
+
+        test('offers the refactorings of a selection and of a cursor', async () => {
+                const selected = await codeActions(range(7, 40, 57))
+                expect(selected.map(({ title }) => title)).toContain(
+                        'Extract JSX to Functional Component',
+                )
+
+                const onTag = await codeActions(range(7, 17))
+                expect(onTag.map(({ title }) => title)).toEqual(
+                        expect.arrayContaining([
+                                'Inline Component',
+                                'Extract <Title> to Functional Component',
+                        ]),
+                )
+        })
+
+        test('applies the edit of a command in the client', async () => {
+                const edit = await client.sendRequest<WorkspaceEdit>(
+                        'workspace/executeCommand',
+                        {
+                                command: 'extension.react-refactor.extractToFunction',
+                                arguments: [
+                                        {
+                                                uri,
+                                                range: range(7, 40, 57),
+                                                name: 'Bio',
+                                        },
+                                ],
+                        },
+                )
+
+                expect(appliedEdits).toEqual([edit])
+                expect(edit.changes?.[uri]).toContainEqual({
+                        range: range(7, 40, 57),
+                        newText: '<Bio bio={user.bio}></Bio>',
+                })
+        })
+
+        test('reports an invalid project configuration as a diagnostic', async () => {
+                const configPath = path.join(directory, '.reactrefactorrc.json')
+                writeFileSync(configPath, '{ "functionType": "method" }')
+
+                const actions = await codeActions(range(7, 40, 57))
+
+                expect(actions.length).toBeGreaterThan(0)
+                expect(
+                        diagnostics
+                                .get(pathToFileURL(configPath).href)
+                                ?.map(({ message }) => message),
+                ).toEqual(['Expected one of "function", "arrowFunction"'])
+        })
+
+        test('exits with 0 after a shutdown request', async () => {
+                await client.sendRequest('shutdown', null)
+                client.sendNotification('exit', null)
+
+                expect(await exitCode).toBe(0)
+        })
+})
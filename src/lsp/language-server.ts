@@ -0,0 +1,949 @@
+/**
+ * Language Server - The React refactorings for any editor speaking LSP
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { readFileSync } from 'node:fs'
+import * as path from 'node:path'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+import { LinesAndColumns } from 'lines-and-columns'
+import {
+        findProjectConfig,
+        readProjectConfig,
+        toEngineOptions,
+} from '../config/project-config'
+import {
+        CONVERT_COMPONENT_ACTIONS,
+        getRefactoringActions,
+        NO_CURSOR_TARGETS,
+        REFACTORING_ACTIONS,
+} from '../core/code-actions'
+import { ServiceContainer, ServiceKeys } from '../core/di/container'
+import {
+        DEFAULT_ENGINE_OPTIONS,
+        type RefactoringEngine,
+        registerEngineServices,
+} from '../core/engine'
+import { suggestComponentNames, validateComponentName } from '../core/naming'
+import {
+        detectParserPlugins,
+        resolveParserPlugins,
+} from '../lib/parser-plugins'
+import type {
+        ComponentType,
+        ConditionExtractionMode,
+        CursorTargets,
+        EngineOptions,
+        EngineResult,
+        IASTService,
+        JSXSelection,
+        ParserOptions,
+        RefactoringAction,
+        RefactoringAvailability,
+        RefactoringOptions,
+        RefactoringType,
+} from '../types'
+import { ErrorCode, RefactoringError } from '../types'
+import { normalizeComponentName, normalizeHookName } from '../utils'
+import { type JsonRpcConnection, ResponseError } from './connection'
+import {
+        type ApplyWorkspaceEditResult,
+        type ClientCapabilities,
+        type CodeAction,
+        type CodeActionParams,
+        DIAGNOSTIC_SEVERITY_ERROR,
+        DIAGNOSTIC_SEVERITY_WARNING,
+        type DidChangeTextDocumentParams,
+        type DidCloseTextDocumentParams,
+        type DidOpenTextDocumentParams,
+        type ExecuteCommandParams,
+        type InitializeParams,
+        type MessageActionItem,
+        MessageType,
+        type Position,
+        type Range,
+        ResponseErrorCode,
+        TEXT_DOCUMENT_SYNC_FULL,
+        type TextDocumentItem,
+        type TextEdit,
+        type WorkspaceEdit,
+} from './protocol'
+
+/**
+ * Arguments of the commands sent with each code action
+ */
+export interface RefactoringCommandArguments {
+        uri: string
+        range: Range
+        /** Name of the extracted component or hook, prompted for when missing */
+        name?: string
+        conditionMode?: ConditionExtractionMode
+        /** Delete an inlined component without usages, prompted for when missing */
+        deleteUnused?: boolean
+}
+
+/**
+ * Refactoring run by a command, and the name it needs
+ */
+interface CommandRefactoring {
+        type: RefactoringType
+        produceClass?: boolean
+        targetType?: ComponentType
+        name?: 'component' | 'hook'
+}
+
+const COMMAND_REFACTORINGS: Record<string, CommandRefactoring> = {
+        [REFACTORING_ACTIONS.extractToFunction.command]: {
+                type: 'extract',
+                name: 'component',
+        },
+        [REFACTORING_ACTIONS.extractToClass.command]: {
+                type: 'extract',
+                produceClass: true,
+                name: 'component',
+        },
+        [REFACTORING_ACTIONS.extractToFile.command]: {
+                type: 'extractToFile',
+                name: 'component',
+        },
+        [REFACTORING_ACTIONS.extractMapItem.command]: {
+                type: 'extractMapItem',
+                name: 'component',
+        },
+        [REFACTORING_ACTIONS.extractToHook.command]: {
+                type: 'extractToHook',
+                name: 'hook',
+        },
+        [REFACTORING_ACTIONS.inlineComponent.command]: { type: 'inline' },
+        [REFACTORING_ACTIONS.convertClassToFunction.command]: {
+                type: 'convertClassToFunction',
+        },
+        ...Object.fromEntries(
+                Object.entries(CONVERT_COMPONENT_ACTIONS).map(
+                        ([targetType, action]) => [
+                                action.command,
+                                {
+                                        type: 'convertComponentType',
+                                        produceClass: targetType === 'class',
+                                        targetType: targetType as ComponentType,
+                                },
+                        ],
+                ),
+        ),
+}
+
+/**
+ * Code actions of the server, the wrapper extraction needs several
+ * selections that LSP clients can not send
+ */
+const SERVER_ACTIONS = [
+        ...Object.values(REFACTORING_ACTIONS),
+        ...Object.values(CONVERT_COMPONENT_ACTIONS),
+].filter((action) => action !== REFACTORING_ACTIONS.extractWrapper)
+
+const CONDITION_MODES: Record<string, ConditionExtractionMode> = {
+        'Extract the whole condition': 'whole',
+        'Extract the consequent only': 'consequent',
+}
+
+const DIAGNOSTIC_SOURCE = 'React Refactor'
+
+/**
+ * Parser options outside of a request, for documents without a language
+ */
+const DEFAULT_PARSER_OPTIONS: ParserOptions = {
+        plugins: detectParserPlugins({}).plugins,
+        sourceType: 'module',
+}
+
+/**
+ * Language server answering code actions and running their commands
+ */
+export class ReactRefactorLanguageServer {
+        private readonly documents = new Map<string, TextDocumentItem>()
+        private readonly astService: IASTService
+        private readonly engine: RefactoringEngine
+        // Requests run concurrently while they wait for the client, so each
+        // one parses with the options of its own document
+        private readonly parserOptions = new AsyncLocalStorage<ParserOptions>()
+        /** Problems last published for each project configuration file */
+        private readonly configProblems = new Map<string, string>()
+        private capabilities: ClientCapabilities = {}
+        private clientOptions: Partial<EngineOptions> = {}
+        private shutdownRequested = false
+
+        constructor(private readonly connection: JsonRpcConnection) {
+                const container = new ServiceContainer()
+                registerEngineServices(
+                        container,
+                        () =>
+                                this.parserOptions.getStore() ??
+                                DEFAULT_PARSER_OPTIONS,
+                )
+                this.astService = container.get<IASTService>(
+                        ServiceKeys.ASTService,
+                )
+                this.engine = container.get<RefactoringEngine>(
+                        ServiceKeys.RefactoringEngine,
+                )
+        }
+
+        /**
+         * Serve the connection and resolve to the process exit code
+         */
+        listen(): Promise<number> {
+                return new Promise((resolve) => {
+                        this.registerHandlers((exitCode) => resolve(exitCode))
+                        this.connection.listen(() => resolve(1))
+                })
+        }
+
+        private registerHandlers(exit: (exitCode: number) => void): void {
+                const { connection } = this
+                connection.onRequest('initialize', (params: InitializeParams) =>
+                        this.initialize(params),
+                )
+                connection.onRequest('shutdown', () => {
+                        this.shutdownRequested = true
+                        return null
+                })
+                connection.onNotification('exit', () =>
+                        exit(this.shutdownRequested ? 0 : 1),
+                )
+                connection.onNotification(
+                        'textDocument/didOpen',
+                        ({ textDocument }: DidOpenTextDocumentParams) => {
+                                this.documents.set(
+                                        textDocument.uri,
+                                        textDocument,
+                                )
+                        },
+                )
+                connection.onNotification(
+                        'textDocument/didChange',
+                        (params: DidChangeTextDocumentParams) =>
+                                this.changeDocument(params),
+                )
+                connection.onNotification(
+                        'textDocument/didClose',
+                        ({ textDocument }: DidCloseTextDocumentParams) => {
+                                this.documents.delete(textDocument.uri)
+                                this.astService.evictDocument(textDocument.uri)
+                                this.publishDiagnostics(
+                                        textDocument.uri,
+                                        '',
+                                        [],
+                                )
+                        },
+                )
+                connection.onRequest(
+                        'textDocument/codeAction',
+                        (params: CodeActionParams) =>
+                                this.provideCodeActions(params),
+                )
+                connection.onRequest(
+                        'workspace/executeCommand',
+                        (params: ExecuteCommandParams) =>
+                                this.executeCommand(params),
+                )
+        }
+
+        private initialize(params: InitializeParams) {
+                this.capabilities = params.capabilities ?? {}
+                this.clientOptions = toEngineOptions(
+                        params.initializationOptions ?? {},
+                )
+                return {
+                        capabilities: {
+                                textDocumentSync: TEXT_DOCUMENT_SYNC_FULL,
+                                codeActionProvider: {
+                                        codeActionKinds: [
+                                                ...new Set(
+                                                        SERVER_ACTIONS.map(
+                                                                ({ kind }) =>
+                                                                        kind,
+                                                        ),
+                                                ),
+                                        ],
+                                },
+                                executeCommandProvider: {
+                                        commands: SERVER_ACTIONS.map(
+                                                ({ command }) => command,
+                                        ),
+                                },
+                        },
+                        serverInfo: { name: 'react-refactor' },
+                }
+        }
+
+        private changeDocument({
+                textDocument,
+                contentChanges,
+        }: DidChangeTextDocumentParams): void {
+                const document = this.documents.get(textDocument.uri)
+                const change = contentChanges[contentChanges.length - 1]
+                if (document && change) {
+                        this.documents.set(textDocument.uri, {
+                                ...document,
+                                version: textDocument.version,
+                                text: change.text,
+                        })
+                }
+        }
+
+        /**
+         * Code actions for a range, like the VS Code code action provider
+         */
+        private provideCodeActions({
+                textDocument,
+                range,
+                context,
+        }: CodeActionParams): CodeAction[] {
+                const document = this.getDocument(textDocument.uri)
+                const { parserOptions } = this.loadOptions(document)
+                return this.parserOptions.run(parserOptions, () =>
+                        this.getCodeActions(document, range, context?.only),
+                )
+        }
+
+        private getCodeActions(
+                document: TextDocumentItem,
+                range: Range,
+                only?: string[],
+        ): CodeAction[] {
+                const { text } = document
+                const lines = new LinesAndColumns(text)
+                const start = toOffset(lines, text, range.start)
+                const end = toOffset(lines, text, range.end)
+                const availability: RefactoringAvailability = {
+                        isCodeActionAvailable: (code) =>
+                                this.astService.isJSX(code) ||
+                                this.astService.isJSXCondition(code),
+                        isHookExtractionAvailable: (code) =>
+                                this.astService.containsHookCall(code),
+                }
+                const actions = getRefactoringActions(
+                        availability,
+                        this.findCursorTargets(document, start),
+                        text,
+                        start,
+                        end,
+                        availability.isCodeActionAvailable(
+                                text.slice(start, end),
+                        )
+                                ? undefined
+                                : this.expandSelection(document, start, end),
+                )
+                const disabledSupport =
+                        this.capabilities.textDocument?.codeAction
+                                ?.disabledSupport === true
+                return actions
+                        .filter(
+                                (action) =>
+                                        SERVER_ACTIONS.some(
+                                                ({ command }) =>
+                                                        command ===
+                                                        action.command,
+                                        ) &&
+                                        matchesKinds(action, only) &&
+                                        (!action.disabled || disabledSupport),
+                        )
+                        .map(
+                                ({
+                                        title,
+                                        kind,
+                                        command,
+                                        disabled,
+                                        ...action
+                                }) => {
+                                        // Extract the expanded selection
+                                        const args: RefactoringCommandArguments =
+                                                {
+                                                        uri: document.uri,
+                                                        range: action.range
+                                                                ? {
+                                                                          start: toPosition(
+                                                                                  lines,
+                                                                                  action
+                                                                                          .range
+                                                                                          .start,
+                                                                          ),
+                                                                          end: toPosition(
+                                                                                  lines,
+                                                                                  action
+                                                                                          .range
+                                                                                          .end,
+                                                                          ),
+                                                                  }
+                                                                : range,
+                                                }
+                                        return {
+                                                title,
+                                                kind,
+                                                command: {
+                                                        title,
+                                                        command,
+                                                        arguments: [args],
+                                                },
+                                                ...(disabled && {
+                                                        disabled: {
+                                                                reason: disabled,
+                                                        },
+                                                }),
+                                        }
+                                },
+                        )
+        }
+
+        /**
+         * JSX to extract around a selection or a cursor, none while the
+         * document does not parse
+         */
+        private expandSelection(
+                document: TextDocumentItem,
+                start: number,
+                end: number,
+        ): JSXSelection | undefined {
+                try {
+                        return this.astService.expandJSXSelection(
+                                this.astService.codeToAst(
+                                        document.text,
+                                        document,
+                                ),
+                                start,
+                                end,
+                        )
+                } catch {
+                        return undefined
+                }
+        }
+
+        private findCursorTargets(
+                document: TextDocumentItem,
+                offset: number,
+        ): CursorTargets {
+                try {
+                        return this.astService.findCursorTargets(
+                                this.astService.codeToAst(
+                                        document.text,
+                                        document,
+                                ),
+                                offset,
+                        )
+                } catch {
+                        return NO_CURSOR_TARGETS
+                }
+        }
+
+        /**
+         * Run the refactoring of a command, apply its edit in the client
+         * and return it
+         */
+        private async executeCommand({
+                command,
+                arguments: commandArguments,
+        }: ExecuteCommandParams): Promise<WorkspaceEdit> {
+                const refactoring = COMMAND_REFACTORINGS[command]
+                const args = commandArguments?.[0] as
+                        | RefactoringCommandArguments
+                        | undefined
+                if (!refactoring || !args?.uri || !args.range) {
+                        throw new ResponseError(
+                                ResponseErrorCode.INVALID_PARAMS,
+                                `Unknown command or missing arguments: ${command}`,
+                        )
+                }
+
+                try {
+                        const edit = await this.runRefactoring(
+                                refactoring,
+                                args,
+                        )
+                        if (this.capabilities.workspace?.applyEdit) {
+                                const { applied, failureReason } =
+                                        await this.connection.sendRequest<ApplyWorkspaceEditResult>(
+                                                'workspace/applyEdit',
+                                                {
+                                                        label: SERVER_ACTIONS.find(
+                                                                (action) =>
+                                                                        action.command ===
+                                                                        command,
+                                                        )?.title,
+                                                        edit,
+                                                },
+                                        )
+                                if (!applied) {
+                                        throw new RefactoringError(
+                                                ErrorCode.EXTRACTION_ERROR,
+                                                `The edit was not applied${failureReason ? `: ${failureReason}` : ''}`,
+                                        )
+                                }
+                        }
+                        return edit
+                } catch (error) {
+                        if (error instanceof RefactoringError) {
+                                throw new ResponseError(
+                                        ResponseErrorCode.REQUEST_FAILED,
+                                        `${error.code}: ${error.message}`,
+                                        {
+                                                code: error.code,
+                                                location: error.location,
+                                        },
+                                )
+                        }
+                        throw error
+                }
+        }
+
+        private async runRefactoring(
+                refactoring: CommandRefactoring,
+                args: RefactoringCommandArguments,
+        ): Promise<WorkspaceEdit> {
+                const document = this.getDocument(args.uri)
+                const { options, parserOptions } = this.loadOptions(document)
+                return this.parserOptions.run(parserOptions, () =>
+                        this.refactor(refactoring, args, document, options),
+                )
+        }
+
+        private async refactor(
+                refactoring: CommandRefactoring,
+                args: RefactoringCommandArguments,
+                document: TextDocumentItem,
+                options: RefactoringOptions,
+        ): Promise<WorkspaceEdit> {
+                const { text } = document
+                const fileName = toFileName(args.uri)
+                const lines = new LinesAndColumns(text)
+                const start = toOffset(lines, text, args.range.start)
+                const end = toOffset(lines, text, args.range.end)
+
+                const conditionMode =
+                        refactoring.name === 'component' &&
+                        this.astService.isJSXCondition(text.slice(start, end))
+                                ? (args.conditionMode ??
+                                  (await this.askForConditionMode()))
+                                : undefined
+                const name = refactoring.name
+                        ? await this.getName(
+                                  refactoring.name,
+                                  args.name,
+                                  document,
+                                  start,
+                                  end,
+                          )
+                        : ''
+
+                const result = await this.engine.run(refactoring.type, {
+                        name,
+                        code: text,
+                        start,
+                        end,
+                        produceClass: refactoring.produceClass ?? false,
+                        fileName,
+                        targetType: refactoring.targetType,
+                        conditionMode,
+                        options,
+                })
+
+                if (refactoring.type === 'convertClassToFunction') {
+                        this.reportIssues(args.uri, text, result)
+                }
+
+                const removable = result.removableDeclaration
+                if (
+                        removable &&
+                        (args.deleteUnused ??
+                                (await this.confirm(
+                                        `'${removable.name}' has no usages left. Delete its declaration?`,
+                                        'Delete',
+                                        'Keep',
+                                )))
+                ) {
+                        result.edits.push(
+                                ...removable.ranges.map((range) => ({
+                                        range,
+                                        newText: '',
+                                        label: `Delete ${removable.name}`,
+                                })),
+                        )
+                        this.engine.validate(text, result.edits, fileName)
+                }
+
+                return this.createWorkspaceEdit(document, result)
+        }
+
+        /**
+         * Convert the offset edits of a result to a workspace edit, creating
+         * the new file of an extraction when there is one
+         */
+        private createWorkspaceEdit(
+                document: TextDocumentItem,
+                result: EngineResult,
+        ): WorkspaceEdit {
+                const lines = new LinesAndColumns(document.text)
+                const edits: TextEdit[] = result.edits.map(
+                        ({ range, newText }) => ({
+                                range: {
+                                        start: toPosition(lines, range.start),
+                                        end: toPosition(lines, range.end),
+                                },
+                                newText,
+                        }),
+                )
+                if (!result.newFile) {
+                        return { changes: { [document.uri]: edits } }
+                }
+
+                const workspaceEdit = this.capabilities.workspace?.workspaceEdit
+                if (
+                        !workspaceEdit?.documentChanges ||
+                        !workspaceEdit.resourceOperations?.includes('create')
+                ) {
+                        throw new RefactoringError(
+                                ErrorCode.FILE_SYSTEM_ERROR,
+                                'The editor can not create files from a workspace edit',
+                        )
+                }
+                const uri = pathToFileURL(result.newFile.fileName).href
+                const origin = { line: 0, character: 0 }
+                return {
+                        documentChanges: [
+                                { kind: 'create', uri },
+                                {
+                                        textDocument: { uri, version: null },
+                                        edits: [
+                                                {
+                                                        range: {
+                                                                start: origin,
+                                                                end: origin,
+                                                        },
+                                                        newText: result.newFile
+                                                                .content,
+                                                },
+                                        ],
+                                },
+                                {
+                                        textDocument: {
+                                                uri: document.uri,
+                                                version: this.documents.has(
+                                                        document.uri,
+                                                )
+                                                        ? document.version
+                                                        : null,
+                                        },
+                                        edits,
+                                },
+                        ],
+                }
+        }
+
+        /**
+         * Publish the constructs a class conversion can not handle, and fail
+         */
+        private reportIssues(
+                uri: string,
+                text: string,
+                result: EngineResult,
+        ): void {
+                const issues = result.issues ?? []
+                this.publishDiagnostics(
+                        uri,
+                        text,
+                        issues.map(({ range, message }) => ({
+                                range,
+                                message,
+                        })),
+                )
+                if (issues.length > 0) {
+                        throw new RefactoringError(
+                                ErrorCode.UNSUPPORTED_CONSTRUCT,
+                                `${issues.length} construct(s) can not be converted`,
+                        )
+                }
+        }
+
+        private publishDiagnostics(
+                uri: string,
+                text: string,
+                issues: Array<{
+                        range: { start: number; end: number }
+                        message: string
+                }>,
+                severity: number = DIAGNOSTIC_SEVERITY_WARNING,
+        ): void {
+                const lines = new LinesAndColumns(text)
+                this.connection.sendNotification(
+                        'textDocument/publishDiagnostics',
+                        {
+                                uri,
+                                diagnostics: issues.map(
+                                        ({ range, message }) => ({
+                                                range: {
+                                                        start: toPosition(
+                                                                lines,
+                                                                range.start,
+                                                        ),
+                                                        end: toPosition(
+                                                                lines,
+                                                                range.end,
+                                                        ),
+                                                },
+                                                message,
+                                                severity,
+                                                source: DIAGNOSTIC_SOURCE,
+                                        }),
+                                ),
+                        },
+                )
+        }
+
+        /**
+         * Name of the extracted component or hook, from the command
+         * arguments or picked by the user among the suggested names
+         */
+        private async getName(
+                kind: 'component' | 'hook',
+                name: string | undefined,
+                document: TextDocumentItem,
+                start: number,
+                end: number,
+        ): Promise<string> {
+                const suggestions =
+                        kind === 'hook'
+                                ? ['useNewHook']
+                                : suggestComponentNames(
+                                          this.astService,
+                                          document.text,
+                                          start,
+                                          end,
+                                          document,
+                                  )
+                const picked =
+                        name ??
+                        (await this.ask(
+                                kind === 'hook'
+                                        ? 'Hook name (pass a `name` argument to choose another one)'
+                                        : 'Component name (pass a `name` argument to choose another one)',
+                                ...(suggestions.length
+                                        ? suggestions
+                                        : ['NewComponent']),
+                        ))
+                const normalized =
+                        picked &&
+                        (kind === 'hook'
+                                ? normalizeHookName(picked)
+                                : normalizeComponentName(picked))
+                if (!normalized || normalized === 'use') {
+                        throw new RefactoringError(
+                                ErrorCode.EXTRACTION_ERROR,
+                                'Name is required',
+                        )
+                }
+                if (kind === 'hook') {
+                        return normalized
+                }
+
+                const { message, alternative } = validateComponentName(
+                        this.astService,
+                        document.text,
+                        normalized,
+                        document,
+                )
+                if (!message) {
+                        return normalized
+                }
+                if (alternative && (await this.ask(message, alternative))) {
+                        return alternative
+                }
+                throw new RefactoringError(ErrorCode.INVALID_ARGUMENT, message)
+        }
+
+        private async askForConditionMode(): Promise<ConditionExtractionMode> {
+                const picked = await this.ask(
+                        'What should the new component render?',
+                        ...Object.keys(CONDITION_MODES),
+                )
+                if (!picked) {
+                        throw new RefactoringError(
+                                ErrorCode.EXTRACTION_ERROR,
+                                'Extraction mode is required',
+                        )
+                }
+                return CONDITION_MODES[picked]
+        }
+
+        private async confirm(
+                message: string,
+                yes: string,
+                no: string,
+        ): Promise<boolean> {
+                return (await this.ask(message, yes, no)) === yes
+        }
+
+        /**
+         * Ask the user to pick one of the actions of a message
+         */
+        private async ask(
+                message: string,
+                ...actions: string[]
+        ): Promise<string | undefined> {
+                const item =
+                        await this.connection.sendRequest<MessageActionItem | null>(
+                                'window/showMessageRequest',
+                                {
+                                        type: MessageType.INFO,
+                                        message,
+                                        actions: actions.map((title) => ({
+                                                title,
+                                        })),
+                                },
+                        )
+                return item?.title
+        }
+
+        /**
+         * Open document, or the file on disk for documents the client did
+         * not open
+         */
+        private getDocument(uri: string): TextDocumentItem {
+                const document = this.documents.get(uri)
+                if (document) {
+                        return document
+                }
+
+                const fileName = toFileName(uri)
+                try {
+                        return {
+                                uri,
+                                languageId: '',
+                                version: 0,
+                                text: readFileSync(fileName ?? '', 'utf8'),
+                        }
+                } catch (error) {
+                        throw new RefactoringError(
+                                ErrorCode.FILE_SYSTEM_ERROR,
+                                `Can not read ${uri}`,
+                                error instanceof Error ? error : undefined,
+                        )
+                }
+        }
+
+        /**
+         * Options for a document, from the defaults, the client
+         * initialization options and the nearest project configuration, with
+         * the parser options of their Babel plugins or of the ones detected
+         * for the document
+         */
+        private loadOptions(document: TextDocumentItem): {
+                options: RefactoringOptions
+                parserOptions: ParserOptions
+        } {
+                const fileName = toFileName(document.uri)
+                const { babelPlugins, ...options }: EngineOptions = {
+                        ...DEFAULT_ENGINE_OPTIONS,
+                        ...this.clientOptions,
+                        ...(fileName
+                                ? this.loadProjectOptions(
+                                          path.dirname(fileName),
+                                  )
+                                : {}),
+                }
+                return {
+                        options,
+                        parserOptions: {
+                                plugins: resolveParserPlugins(babelPlugins, {
+                                        fileName,
+                                        languageId: document.languageId,
+                                        code: document.text,
+                                }),
+                                sourceType: 'module',
+                        },
+                }
+        }
+
+        /**
+         * Valid options of the nearest project configuration. Its problems
+         * are published as diagnostics of the file when they change, rather
+         * than failing every request
+         */
+        private loadProjectOptions(fromDir: string): Partial<EngineOptions> {
+                const configPath = findProjectConfig(fromDir)
+                if (!configPath) {
+                        return {}
+                }
+                let text: string
+                try {
+                        text = readFileSync(configPath, 'utf8')
+                } catch {
+                        return {}
+                }
+
+                const { options, problems } = readProjectConfig(
+                        configPath,
+                        text,
+                )
+                const published = JSON.stringify(problems)
+                if (this.configProblems.get(configPath) !== published) {
+                        this.configProblems.set(configPath, published)
+                        this.publishDiagnostics(
+                                pathToFileURL(configPath).href,
+                                text,
+                                problems,
+                                DIAGNOSTIC_SEVERITY_ERROR,
+                        )
+                }
+                return options
+        }
+}
+
+/**
+ * Check if an action is of one of the kinds requested by the client
+ */
+function matchesKinds(action: RefactoringAction, only?: string[]): boolean {
+        return (
+                !only ||
+                only.some(
+                        (kind) =>
+                                action.kind === kind ||
+                                action.kind.startsWith(`${kind}.`),
+                )
+        )
+}
+
+/**
+ * Path of a `file:` URI
+ */
+function toFileName(uri: string): string | undefined {
+        return uri.startsWith('file:') ? fileURLToPath(uri) : undefined
+}
+
+/**
+ * Offset of a position, clamped to the end of its line as LSP requires
+ */
+function toOffset(
+        lines: LinesAndColumns,
+        text: string,
+        position: Position,
+): number {
+        const lineStart = lines.indexForLocation({
+                line: position.line,
+                column: 0,
+        })
+        if (lineStart === null) {
+                return text.length
+        }
+        const lineEnd = text.indexOf('\n', lineStart)
+        return Math.min(
+                lineStart + position.character,
+                lineEnd === -1 ? text.length : lineEnd,
+        )
+}
+
+function toPosition(lines: LinesAndColumns, offset: number): Position {
+        const location = lines.locationForIndex(offset)
+        return {
+                line: location?.line ?? 0,
+                character: location?.column ?? 0,
+        }
+}
@@ -0,0 +1,155 @@
+/**
+ * Language Server Protocol - The subset of messages used by the server
+ */
+
+/**
+ * JSON-RPC and LSP error codes
+ */
+export enum ResponseErrorCode {
+        PARSE_ERROR = -32700,
+        INVALID_REQUEST = -32600,
+        METHOD_NOT_FOUND = -32601,
+        INVALID_PARAMS = -32602,
+        INTERNAL_ERROR = -32603,
+        SERVER_NOT_INITIALIZED = -32002,
+        REQUEST_FAILED = -32803,
+}
+
+/**
+ * Type of a `window/showMessage` and `window/showMessageRequest` message
+ */
+export enum MessageType {
+        ERROR = 1,
+        WARNING = 2,
+        INFO = 3,
+        LOG = 4,
+}
+
+/**
+ * Document synchronization kind, the server always receives full texts
+ */
+export const TEXT_DOCUMENT_SYNC_FULL = 1
+
+/**
+ * Error severity of a diagnostic
+ */
+export const DIAGNOSTIC_SEVERITY_ERROR = 1
+
+/**
+ * Warning severity of a diagnostic
+ */
+export const DIAGNOSTIC_SEVERITY_WARNING = 2
+
+/**
+ * Zero-based line and UTF-16 character of a document
+ */
+export interface Position {
+        line: number
+        character: number
+}
+
+export interface Range {
+        start: Position
+        end: Position
+}
+
+export interface TextEdit {
+        range: Range
+        newText: string
+}
+
+export interface TextDocumentEdit {
+        textDocument: { uri: string; version: number | null }
+        edits: TextEdit[]
+}
+
+export interface CreateFile {
+        kind: 'create'
+        uri: string
+        options?: { overwrite?: boolean; ignoreIfExists?: boolean }
+}
+
+export interface WorkspaceEdit {
+        changes?: Record<string, TextEdit[]>
+        documentChanges?: Array<TextDocumentEdit | CreateFile>
+}
+
+export interface Command {
+        title: string
+        command: string
+        arguments?: unknown[]
+}
+
+export interface CodeAction {
+        title: string
+        kind: string
+        command: Command
+        disabled?: { reason: string }
+}
+
+export interface Diagnostic {
+        range: Range
+        message: string
+        severity: number
+        source: string
+}
+
+export interface MessageActionItem {
+        title: string
+}
+
+export interface ClientCapabilities {
+        workspace?: {
+                applyEdit?: boolean
+                workspaceEdit?: {
+                        documentChanges?: boolean
+                        resourceOperations?: string[]
+                }
+        }
+        textDocument?: {
+                codeAction?: {
+                        disabledSupport?: boolean
+                }
+        }
+}
+
+export interface InitializeParams {
+        capabilities: ClientCapabilities
+        initializationOptions?: Record<string, unknown>
+}
+
+export interface TextDocumentItem {
+        uri: string
+        languageId: string
+        version: number
+        text: string
+}
+
+export interface DidOpenTextDocumentParams {
+        textDocument: TextDocumentItem
+}
+
+export interface DidChangeTextDocumentParams {
+        textDocument: { uri: string; version: number }
+        contentChanges: Array<{ text: string }>
+}
+
+export interface DidCloseTextDocumentParams {
+        textDocument: { uri: string }
+}
+
+export interface CodeActionParams {
+        textDocument: { uri: string }
+        range: Range
+        context: { only?: string[] }
+}
+
+export interface ExecuteCommandParams {
+        command: string
+        arguments?: unknown[]
+}
+
+export interface ApplyWorkspaceEditResult {
+        applied: boolean
+        failureReason?: string
+}
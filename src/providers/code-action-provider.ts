@@ -2,43 +2,102 @@
  * Code Action Provider - VSCode provider for code actions
  */
 
-import type * as vscode from 'vscode'
+import * as vscode from 'vscode'
+import { getRefactoringActions } from '../core/code-actions'
 import type { RefactoringService } from '../services/refactoring-service'
-import type { IVSCodeService } from '../types'
+import type { RefactoringAvailability } from '../types'
+
+/**
+ * Availability of a selection whose extraction was not requested
+ */
+const NOT_REQUESTED: RefactoringAvailability = {
+	isCodeActionAvailable: () => false,
+	isHookExtractionAvailable: () => false,
+}
 
 /**
  * Code Action Provider using the new architecture
  */
 export class CodeActionProvider implements vscode.CodeActionProvider {
-	constructor(
-		private readonly refactoringService: RefactoringService,
-		private readonly vscodeService: IVSCodeService,
-	) {}
+	/**
+	 * Kinds of the provided code actions, so they are listed in the
+	 * Refactor menu and requested only when they can match
+	 */
+	static readonly providedCodeActionKinds = [
+		vscode.CodeActionKind.RefactorExtract,
+		vscode.CodeActionKind.RefactorInline,
+		vscode.CodeActionKind.RefactorRewrite,
+	]
+
+	constructor(private readonly refactoringService: RefactoringService) {}
 
-	public provideCodeActions(): vscode.Command[] {
-		const editor = this.vscodeService.getActiveEditor()
-		if (!editor || editor.selection.isEmpty) {
+	public async provideCodeActions(
+		document: vscode.TextDocument,
+		range: vscode.Range | vscode.Selection,
+		context: vscode.CodeActionContext,
+		token: vscode.CancellationToken,
+	): Promise<vscode.CodeAction[]> {
+		const { only } = context
+		const start = document.offsetAt(range.start)
+		const end = document.offsetAt(range.end)
+		const isExtractRequested =
+			!only || only.intersects(vscode.CodeActionKind.RefactorExtract)
+		// The selection is parsed in the engine worker, unless no
+		// extraction is requested
+		const availability = isExtractRequested
+			? await this.refactoringService.getAvailability(
+					document,
+					document.getText(range),
+				)
+			: NOT_REQUESTED
+		// A cursor or a selection that is not extractable JSX is expanded
+		// to the JSX around it
+		const expansion =
+			isExtractRequested &&
+			!availability.isCodeActionAvailable(document.getText(range))
+				? await this.refactoringService.expandSelection(
+						document,
+						start,
+						end,
+					)
+				: undefined
+		// Inline, list item and conversion actions depend on the AST at
+		// the cursor
+		const targets = await this.refactoringService.findCursorTargets(
+			document,
+			start,
+		)
+		if (token.isCancellationRequested) {
 			return []
 		}
 
-		const selectedText = editor.document.getText(editor.selection)
-		const codeActions: vscode.Command[] = []
-
-		if (
-			this.refactoringService.isCodeActionAvailable(
-				selectedText,
-			)
-		) {
-			codeActions.push({
-				command: 'extension.react-refactor.extractToFunction',
-				title: 'Extract JSX to Functional Component',
-			})
-			codeActions.push({
-				command: 'extension.react-refactor.extractToClass',
-				title: 'Extract JSX to Class Component',
+		return getRefactoringActions(
+			availability,
+			targets,
+			document.getText(),
+			start,
+			end,
+			expansion,
+		)
+			.map(({ command, title, kind, disabled, range: expanded }) => {
+				const action = new vscode.CodeAction(
+					title,
+					vscode.CodeActionKind.Empty.append(kind),
+				)
+				// The command selects an expanded range before extracting it
+				action.command = {
+					command,
+					title,
+					arguments: expanded ? [expanded] : undefined,
+				}
+				if (disabled) {
+					action.disabled = { reason: disabled }
+				}
+				return action
 			})
-		}
-
-		return codeActions
+			.filter(
+				(action) =>
+					!only || (action.kind && only.contains(action.kind)),
+			)
 	}
 }
@@ -0,0 +1,16 @@
+/**
+ * Language Server Entry - Serve the refactorings over stdio
+ */
+
+import { JsonRpcConnection } from './lsp/connection'
+import { ReactRefactorLanguageServer } from './lsp/language-server'
+
+if (require.main === module) {
+        new ReactRefactorLanguageServer(
+                new JsonRpcConnection(process.stdin, process.stdout),
+        )
+                .listen()
+                .then((exitCode) => {
+                        process.exit(exitCode)
+                })
+}
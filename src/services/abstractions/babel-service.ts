@@ -7,6 +7,14 @@ import { wrapErrorSync } from '../../core/errors'
 import type { IBabelService, ParserOptions } from '../../types'
 import { ErrorCode } from '../../types'
 
+/**
+ * Parser options used when none are provided
+ */
+const DEFAULT_PARSER_OPTIONS: ParserOptions = {
+        plugins: ['jsx', 'typescript'],
+        sourceType: 'module',
+}
+
 /**
  * Babel service implementation
  */
@@ -18,6 +26,18 @@ export class BabelService implements IBabelService {
                 null
         private _t: typeof import('@babel/types') | null = null
 
+        constructor(
+                private readonly resolveParserOptions: () => ParserOptions = () =>
+                        DEFAULT_PARSER_OPTIONS,
+        ) {}
+
+        /**
+         * Get the options of the parser, for the active document
+         */
+        getParserOptions(): ParserOptions {
+                return this.resolveParserOptions()
+        }
+
         /**
          * Lazy load Babel parser
          */
@@ -77,10 +97,8 @@ export class BabelService implements IBabelService {
                 return wrapErrorSync(
                         () => {
                                 const parse = this.getParser()
-                                const parserOptions = options || {
-                                        plugins: ['jsx', 'typescript'],
-                                        sourceType: 'module' as const,
-                                }
+                                const parserOptions =
+                                        options || this.getParserOptions()
                                 return parse(
                                         code,
                                         parserOptions as import('@babel/parser').ParserOptions,
@@ -120,9 +138,13 @@ export class BabelService implements IBabelService {
                         () => {
                                 const template = this.getTemplate()
                                 const result = template.ast(code, {
-                                        plugins: ['jsx', 'typescript'],
+                                        plugins: this.getParserOptions()
+                                                .plugins as import('@babel/template').TemplateBuilderOptions['plugins'],
                                 })
-                                return result as t.Statement | t.Statement[] | null
+                                return result as
+                                        | t.Statement
+                                        | t.Statement[]
+                                        | null
                         },
                         ErrorCode.PARSER_ERROR,
                         `Failed to create AST from template: ${code.substring(0, 50)}...`,
@@ -136,21 +158,54 @@ export class BabelService implements IBabelService {
                 const trimmed = code.trim()
                 const firstChar = trimmed[0]
                 const lastChar = trimmed[trimmed.length - 1]
-                if (firstChar !== '<' || lastChar !== '>') {
+                if (
+                        !['<', '{'].includes(firstChar) ||
+                        !['>', '}'].includes(lastChar)
+                ) {
                         return false
                 }
 
-                const ast = this.jsxToAst(code)
-                if (!ast || Array.isArray(ast)) {
-                        return false
+                const t = this.getTypes()
+                const ast = firstChar === '<' && this.jsxToAst(code)
+                if (ast && !Array.isArray(ast)) {
+                        const statement = ast as t.Statement
+                        return (
+                                t.isExpressionStatement(statement) &&
+                                t.isJSX(statement.expression)
+                        )
                 }
 
+                return this.isJSXSiblings(code)
+        }
+
+        /**
+         * Check if code is a run of sibling JSX children
+         */
+        private isJSXSiblings(code: string): boolean {
                 const t = this.getTypes()
-                const statement = ast as t.Statement
-                if (t.isExpressionStatement(statement)) {
-                        return t.isJSX(statement.expression)
+                const ast = this.jsxToAst(`<>${code}</>`)
+                if (
+                        !ast ||
+                        Array.isArray(ast) ||
+                        !t.isExpressionStatement(ast) ||
+                        !t.isJSXFragment(ast.expression)
+                ) {
+                        return false
                 }
-                return false
+
+                const children = ast.expression.children.filter(
+                        (child) =>
+                                !t.isJSXText(child) ||
+                                child.value.trim() !== '',
+                )
+                return (
+                        children.length > 1 &&
+                        children.some(
+                                (child) =>
+                                        t.isJSXElement(child) ||
+                                        t.isJSXFragment(child),
+                        )
+                )
         }
 
         /**
@@ -10,6 +10,8 @@ import { ErrorCode, RefactoringError } from '../../types'
  * VSCode service implementation
  */
 export class VSCodeService implements IVSCodeService {
+        private diagnostics?: vscode.DiagnosticCollection
+
         /**
          * Get the active text editor
          */
@@ -40,6 +42,16 @@ export class VSCodeService implements IVSCodeService {
                 vscode.window.showErrorMessage(message)
         }
 
+        /**
+         * Show information message with optional actions
+         */
+        showInformationMessage(
+                message: string,
+                ...items: string[]
+        ): Thenable<string | undefined> {
+                return vscode.window.showInformationMessage(message, ...items)
+        }
+
         /**
          * Execute a command
          */
@@ -63,10 +75,12 @@ export class VSCodeService implements IVSCodeService {
         registerCodeActionsProvider(
                 selector: vscode.DocumentSelector,
                 provider: vscode.CodeActionProvider,
+                metadata?: vscode.CodeActionProviderMetadata,
         ): vscode.Disposable {
                 return vscode.languages.registerCodeActionsProvider(
                         selector,
                         provider,
+                        metadata,
                 )
         }
 
@@ -84,6 +98,37 @@ export class VSCodeService implements IVSCodeService {
                 return vscode.workspace.openTextDocument(uri)
         }
 
+        /**
+         * Check whether a file exists
+         */
+        async fileExists(uri: vscode.Uri): Promise<boolean> {
+                try {
+                        await vscode.workspace.fs.stat(uri)
+                        return true
+                } catch {
+                        return false
+                }
+        }
+
+        /**
+         * Listen for documents being closed
+         */
+        onDidCloseTextDocument(
+                listener: (document: vscode.TextDocument) => void,
+        ): vscode.Disposable {
+                return vscode.workspace.onDidCloseTextDocument(listener)
+        }
+
+        /**
+         * Open an untitled document with the given content
+         */
+        openUntitledDocument(
+                content: string,
+                language: string,
+        ): Thenable<vscode.TextDocument> {
+                return vscode.workspace.openTextDocument({ content, language })
+        }
+
         /**
          * Show a text document
          */
@@ -93,6 +138,39 @@ export class VSCodeService implements IVSCodeService {
                 })
         }
 
+        /**
+         * Apply a workspace edit
+         */
+        applyEdit(edit: vscode.WorkspaceEdit): Thenable<boolean> {
+                return vscode.workspace.applyEdit(edit)
+        }
+
+        /**
+         * Show quick pick
+         */
+        showQuickPick<T extends vscode.QuickPickItem>(
+                items: T[],
+                options?: vscode.QuickPickOptions,
+        ): Thenable<T | undefined> {
+                return vscode.window.showQuickPick(items, options)
+        }
+
+        /**
+         * Replace the refactoring diagnostics of a document
+         */
+        setDiagnostics(
+                uri: vscode.Uri,
+                diagnostics: readonly vscode.Diagnostic[],
+        ): void {
+                if (!this.diagnostics) {
+                        this.diagnostics =
+                                vscode.languages.createDiagnosticCollection(
+                                        'react-refactor',
+                                )
+                }
+                this.diagnostics.set(uri, diagnostics)
+        }
+
         /**
          * Validate editor exists
          */
@@ -0,0 +1,205 @@
+import { describe, expect, test } from 'bun:test'
+import { BabelService } from './abstractions/babel-service'
+import { ASTService } from './ast-service'
+
+const astService = new ASTService(new BabelService())
+
+function findCursorTargets(code: string, text: string, shift = 0) {
+        return astService.findCursorTargets(
+                astService.codeToAst(code),
+                code.indexOf(text) + shift,
+        )
+}
+
+describe('findCursorTargets', () => {
+        const code = `import { PureComponent } from 'react'
+
+export class List extends PureComponent {
+  render() {
+    return (
+      <ul>
+        {this.props.items.map((item) =>
+          <Item key={item.id} item={item} />
+        )}
+      </ul>
+    )
+  }
+}
+
+const Item = ({ item }) => <li>{item.label}</li>
+`
+
+        test('finds the component declared before the cursor', () => {
+                expect(findCursorTargets(code, 'List').componentType).toBe(
+                        'class',
+                )
+                expect(
+                        findCursorTargets(code, 'const Item').componentType,
+                ).toBe('arrowFunction')
+                expect(
+                        findCursorTargets(code, 'render').componentType,
+                ).toBeUndefined()
+        })
+
+        test('finds a component tag and a map callback around the cursor', () => {
+                expect(findCursorTargets(code, 'Item key', 2)).toEqual({
+                        componentTag: true,
+                        mapCallback: true,
+                })
+                expect(findCursorTargets(code, 'key={item.id}')).toEqual({
+                        componentTag: false,
+                        mapCallback: true,
+                })
+                expect(findCursorTargets(code, '<ul>', 1)).toEqual({
+                        componentTag: false,
+                        mapCallback: false,
+                })
+        })
+})
+
+describe('findSelectedJSXChildren', () => {
+        const code = `const App = () => (
+  <div>
+    <h1>Title</h1>
+    text
+    {open && <p>Open</p>}
+  </div>
+)
+`
+        const find = (from: string, to: string) =>
+                astService
+                        .findSelectedJSXChildren(
+                                astService.codeToAst(code),
+                                code.indexOf(from),
+                                code.indexOf(to) + to.length,
+                        )
+                        .map(({ node }) => node.type)
+
+        test('finds the siblings covered by the selection', () => {
+                expect(find('<h1>', '</p>}')).toEqual([
+                        'JSXElement',
+                        'JSXText',
+                        'JSXExpressionContainer',
+                ])
+        })
+
+        test('ignores a single child or a child selected in part', () => {
+                expect(find('<h1>', '</h1>')).toEqual([])
+                expect(find('Title', '</p>}')).toEqual([])
+        })
+})
+
+describe('expandJSXSelection', () => {
+        const code = `const App = () => (
+  <div className="card primary">
+    <h1>Title</h1>
+    <ui.Button>Save</ui.Button>
+    <>
+      <p>Text</p>
+    </>
+  </div>
+)
+`
+        /**
+         * Expand the selection from a text to the end of another, or the
+         * cursor at the start of a text
+         */
+        const expand = (from: string, to?: string) => {
+                const start = code.indexOf(from)
+                const expansion = astService.expandJSXSelection(
+                        astService.codeToAst(code),
+                        start,
+                        to === undefined ? start : code.indexOf(to) + to.length,
+                )
+                return (
+                        expansion && {
+                                label: expansion.label,
+                                text: code.slice(
+                                        expansion.range.start,
+                                        expansion.range.end,
+                                ),
+                        }
+                )
+        }
+
+        test('expands a cursor or a partial selection to the enclosing element', () => {
+                expect(expand('Title')).toEqual({
+                        label: '<h1>',
+                        text: '<h1>Title</h1>',
+                })
+                expect(expand('card', 'Save')).toMatchObject({
+                        label: '<div.card>',
+                })
+                expect(expand('Save', 'Save</ui')).toEqual({
+                        label: '<ui.Button>',
+                        text: '<ui.Button>Save</ui.Button>',
+                })
+                expect(expand('<p>', '</p>\n    </>')).toMatchObject({
+                        label: '<>',
+                })
+        })
+
+        test('expands a selection between the tags to the spanned siblings', () => {
+                expect(expand('\n    <h1>', '</ui.Button>\n  ')).toEqual({
+                        label: '<h1> … <ui.Button>',
+                        text: `<h1>Title</h1>
+    <ui.Button>Save</ui.Button>`,
+                })
+        })
+
+        test('selects an element only when the selection covers it alone', () => {
+                const ast = astService.codeToAst(code)
+                const select = (from: string, to: string) =>
+                        astService.findSelectedJSXElement(
+                                ast,
+                                code.indexOf(from),
+                                code.indexOf(to) + to.length,
+                        )?.node.type
+
+                expect(select(' <h1>', '</h1>\n')).toBe('JSXElement')
+                expect(select('<h1>', '<ui.Button>')).toBeUndefined()
+                expect(select('<h1>', '</ui.Button>')).toBeUndefined()
+        })
+
+        test('finds nothing outside JSX', () => {
+                expect(expand('const App')).toBeUndefined()
+        })
+})
+
+describe('isJSX', () => {
+        test('accepts sibling elements as JSX', () => {
+                expect(astService.isJSX('<h1>Title</h1>\n<p>Text</p>')).toBe(
+                        true,
+                )
+                expect(astService.isJSX('<h1>Title</h1>\n<p>Text')).toBe(false)
+        })
+})
+
+describe('codeToAst', () => {
+        test('caches the AST of a document version', () => {
+                const service = new ASTService(new BabelService())
+                const code = 'export const a = <p>a</p>\n'
+                const document = { uri: 'file:///App.jsx', version: 1 }
+
+                const ast = service.codeToAst(code, document)
+                expect(service.codeToAst(code, document)).toBe(ast)
+                expect(
+                        service.codeToAst(code, { ...document, version: 2 }),
+                ).not.toBe(ast)
+                expect(service.codeToAst(code)).not.toBe(ast)
+                expect(
+                        service.codeToAst(`${code}export const b = 2\n`, {
+                                uri: 'file:///Other.jsx',
+                                version: 1,
+                        }).program.body,
+                ).toHaveLength(2)
+                expect(service.getCacheStats()).toEqual({
+                        hits: 1,
+                        misses: 3,
+                        size: 2,
+                })
+
+                service.evictDocument(document.uri)
+                expect(service.getCacheStats().size).toBe(1)
+        })
+})
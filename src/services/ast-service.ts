@@ -3,58 +3,94 @@
  */
 
 import traverse, { type NodePath } from '@babel/traverse'
-import type * as t from '@babel/types'
-import { findComponentMemberReferences } from '../lib/ast'
-import type { IASTService, IBabelService } from '../types'
+import * as t from '@babel/types'
+import {
+        findComponentMemberReferences,
+        findUnboundIdentifiers,
+        getReturnedJSX,
+        isHookCall,
+        isJSXCondition,
+} from '../lib/ast'
+import { LRUCache } from '../lib/lru-cache'
+import type {
+        ASTCacheEntry,
+        ASTCacheStats,
+        ComponentType,
+        CursorTargets,
+        DocumentVersion,
+        IASTService,
+        IBabelService,
+        JSXSelection,
+} from '../types'
 import { ErrorCode, RefactoringError } from '../types'
 
+/**
+ * Number of open documents whose AST is cached
+ */
+const AST_CACHE_SIZE = 20
+
 /**
  * AST Service implementation
  */
 export class ASTService implements IASTService {
-        private readonly astCache = new Map<
-                string,
-                { ast: t.File; timestamp: number }
-        >()
-        private readonly AST_CACHE_TTL = 5000 // 5 seconds
+        private readonly astCache = new LRUCache<string, ASTCacheEntry>(
+                AST_CACHE_SIZE,
+        )
+        private cacheHits = 0
+        private cacheMisses = 0
 
         constructor(private readonly babelService: IBabelService) {}
 
         /**
-         * Convert code to AST
+         * Convert code to AST. The AST of an open document is cached by URI,
+         * version and parser options, so it must not be mutated
          */
-        codeToAst(code: string): t.File {
-                // Use cache for full document parsing
-                const cacheKey = code.substring(0, 100)
-                const cached = this.astCache.get(cacheKey)
-                const now = Date.now()
-
-                if (cached && now - cached.timestamp < this.AST_CACHE_TTL) {
-                        if (cached.ast.program.body.length > 0) {
-                                return cached.ast
-                        }
+        codeToAst(code: string, document?: DocumentVersion): t.File {
+                if (!document) {
+                        return this.babelService.parse(code)
                 }
 
-                const ast = this.babelService.parse(code)
-
-                // Cache full document ASTs
-                if (code.length > 1000) {
-                        this.astCache.set(cacheKey, { ast, timestamp: now })
-                        // Limit cache size
-                        if (this.astCache.size > 10) {
-                                const oldestKey = Array.from(
-                                        this.astCache.entries(),
-                                ).sort(
-                                        (a, b) =>
-                                                a[1].timestamp - b[1].timestamp,
-                                )[0][0]
-                                this.astCache.delete(oldestKey)
-                        }
+                const parserOptions = this.babelService.getParserOptions()
+                const optionsKey = JSON.stringify(parserOptions)
+                const cached = this.astCache.get(document.uri)
+                if (
+                        cached?.version === document.version &&
+                        cached.parserOptions === optionsKey &&
+                        cached.code === code
+                ) {
+                        this.cacheHits++
+                        return cached.ast
                 }
 
+                this.cacheMisses++
+                const ast = this.babelService.parse(code, parserOptions)
+                this.astCache.set(document.uri, {
+                        ast,
+                        code,
+                        version: document.version,
+                        parserOptions: optionsKey,
+                })
                 return ast
         }
 
+        /**
+         * Drop the cached AST of a closed document
+         */
+        evictDocument(uri: string): void {
+                this.astCache.delete(uri)
+        }
+
+        /**
+         * Get the hit and miss counters of the AST cache
+         */
+        getCacheStats(): ASTCacheStats {
+                return {
+                        hits: this.cacheHits,
+                        misses: this.cacheMisses,
+                        size: this.astCache.size,
+                }
+        }
+
         /**
          * Convert AST to code
          */
@@ -106,25 +142,196 @@ export class ASTService implements IASTService {
         }
 
         /**
-         * Find selected JSX element in AST
+         * Check if code is a `&&` or ternary expression rendering JSX,
+         * optionally wrapped in braces
+         */
+        isJSXCondition(code: string): boolean {
+                const trimmed = code.trim()
+                const expression =
+                        trimmed.startsWith('{') && trimmed.endsWith('}')
+                                ? trimmed.slice(1, -1)
+                                : trimmed
+                let ast: t.File
+                try {
+                        ast = this.babelService.parse(`(${expression})`)
+                } catch {
+                        return false
+                }
+
+                const [statement, ...rest] = ast.program.body
+                return (
+                        rest.length === 0 &&
+                        t.isExpressionStatement(statement) &&
+                        isJSXCondition(statement.expression)
+                )
+        }
+
+        /**
+         * Check if code is a list of statements calling a React hook
+         */
+        containsHookCall(code: string): boolean {
+                let ast: t.File
+                try {
+                        ast = this.babelService.parse(code)
+                } catch {
+                        return false
+                }
+
+                let found = false
+                traverse(ast as unknown as Parameters<typeof traverse>[0], {
+                        CallExpression(path) {
+                                if (isHookCall(path.node)) {
+                                        found = true
+                                        path.stop()
+                                }
+                        },
+                })
+                return found
+        }
+
+        /**
+         * Find the JSX element or fragment covered by the selection
+         *
+         * The selection may hold blank text around it, but no other element
+         * and no part of an element it does not cover.
          */
         findSelectedJSXElement(
                 ast: t.File,
                 start: number,
                 end: number,
-        ): NodePath<t.JSXElement> | undefined {
-                let selectedPath: NodePath<t.JSXElement> | undefined
+        ): NodePath<t.JSXElement | t.JSXFragment> | undefined {
+                const selectedPaths: NodePath<t.JSXElement | t.JSXFragment>[] =
+                        []
+                let isPartial = false
 
                 traverse(ast as unknown as Parameters<typeof traverse>[0], {
-                        JSXElement(path) {
+                        'JSXElement|JSXFragment'(path) {
+                                const nodeStart = path.node.start ?? 0
+                                const nodeEnd = path.node.end ?? 0
+                                if (start <= nodeStart && nodeEnd <= end) {
+                                        selectedPaths.push(
+                                                path as unknown as NodePath<
+                                                        | t.JSXElement
+                                                        | t.JSXFragment
+                                                >,
+                                        )
+                                        path.skip()
+                                } else if (
+                                        nodeStart < end &&
+                                        start < nodeEnd &&
+                                        (start < nodeStart || nodeEnd < end)
+                                ) {
+                                        isPartial = true
+                                }
+                        },
+                })
+
+                return selectedPaths.length === 1 && !isPartial
+                        ? selectedPaths[0]
+                        : undefined
+        }
+
+        /**
+         * Find a run of sibling JSX children covered by the selection
+         *
+         * Returns an empty list unless at least `minChildren` meaningful
+         * children (elements, fragments, expressions or non blank text) are
+         * selected.
+         */
+        findSelectedJSXChildren(
+                ast: t.File,
+                start: number,
+                end: number,
+                minChildren = 2,
+        ): NodePath[] {
+                let parentPath:
+                        | NodePath<t.JSXElement | t.JSXFragment>
+                        | undefined
+
+                traverse(ast as unknown as Parameters<typeof traverse>[0], {
+                        'JSXElement|JSXFragment'(path) {
+                                const node = path.node as
+                                        | t.JSXElement
+                                        | t.JSXFragment
+                                const opening = t.isJSXElement(node)
+                                        ? node.openingElement
+                                        : node.openingFragment
+                                const closing = t.isJSXElement(node)
+                                        ? node.closingElement
+                                        : node.closingFragment
                                 if (
-                                        path.node.start &&
-                                        path.node.end &&
-                                        path.node.start >= start &&
-                                        path.node.end <= end
+                                        closing &&
+                                        (opening.end ??
+                                                Number.POSITIVE_INFINITY) <=
+                                                start &&
+                                        (closing.start ?? 0) >= end
                                 ) {
-                                        selectedPath =
-                                                path as unknown as NodePath<t.JSXElement>
+                                        parentPath =
+                                                path as unknown as NodePath<
+                                                        | t.JSXElement
+                                                        | t.JSXFragment
+                                                >
+                                }
+                        },
+                })
+                if (!parentPath) {
+                        return []
+                }
+
+                const children = (
+                        parentPath.get('children') as NodePath[]
+                ).filter(
+                        (child) =>
+                                (child.node.end ?? 0) > start &&
+                                (child.node.start ?? 0) < end,
+                )
+                const isMeaningful = (child: NodePath) =>
+                        !t.isJSXText(child.node) ||
+                        child.node.value.trim() !== ''
+                const first = children.findIndex(isMeaningful)
+                const last = children.findLastIndex(isMeaningful)
+                const selected =
+                        first === -1 ? [] : children.slice(first, last + 1)
+
+                const isPartial = selected.some(
+                        (child) =>
+                                !t.isJSXText(child.node) &&
+                                ((child.node.start ?? 0) < start ||
+                                        (child.node.end ?? 0) > end),
+                )
+                if (
+                        isPartial ||
+                        selected.filter(isMeaningful).length < minChildren
+                ) {
+                        return []
+                }
+                return selected
+        }
+
+        /**
+         * Find the expression container of a selected JSX condition
+         *
+         * The selection may cover the braces or only the expression.
+         */
+        findSelectedJSXCondition(
+                ast: t.File,
+                start: number,
+                end: number,
+        ): NodePath<t.JSXExpressionContainer> | undefined {
+                let selectedPath: NodePath<t.JSXExpressionContainer> | undefined
+
+                traverse(ast as unknown as Parameters<typeof traverse>[0], {
+                        JSXExpressionContainer(path) {
+                                const { node } = path
+                                const expression = node.expression
+                                if (
+                                        isJSXCondition(expression) &&
+                                        (node.start ?? 0) <= start &&
+                                        end <= (node.end ?? 0) &&
+                                        start <= (expression.start ?? 0) &&
+                                        (expression.end ?? 0) <= end
+                                ) {
+                                        selectedPath = path
                                         path.stop()
                                 }
                         },
@@ -133,6 +340,150 @@ export class ASTService implements IASTService {
                 return selectedPath
         }
 
+        /**
+         * Expand a selection or a cursor to the smallest JSX around it that
+         * can be extracted: the sibling elements it spans inside their
+         * parent, or else the innermost element or fragment containing it
+         */
+        expandJSXSelection(
+                ast: t.File,
+                start: number,
+                end: number,
+        ): JSXSelection | undefined {
+                let enclosing: t.JSXElement | t.JSXFragment | undefined
+
+                traverse(ast as unknown as Parameters<typeof traverse>[0], {
+                        'JSXElement|JSXFragment'(path) {
+                                const node = path.node as
+                                        | t.JSXElement
+                                        | t.JSXFragment
+                                if (
+                                        (node.start ?? 0) <= start &&
+                                        end <= (node.end ?? 0)
+                                ) {
+                                        enclosing = node
+                                } else {
+                                        path.skip()
+                                }
+                        },
+                })
+                if (!enclosing) {
+                        return undefined
+                }
+
+                const opening = t.isJSXElement(enclosing)
+                        ? enclosing.openingElement
+                        : enclosing.openingFragment
+                const closing = t.isJSXElement(enclosing)
+                        ? enclosing.closingElement
+                        : enclosing.closingFragment
+                // Children spanned by a selection between the tags
+                const spanned =
+                        closing &&
+                        (opening.end ?? 0) <= start &&
+                        end <= (closing.start ?? 0)
+                                ? enclosing.children.filter(
+                                          (child) =>
+                                                  (child.end ?? 0) > start &&
+                                                  (child.start ?? 0) < end &&
+                                                  (!t.isJSXText(child) ||
+                                                          child.value.trim() !==
+                                                                  ''),
+                                  )
+                                : []
+                const first = spanned[0]
+                const last = spanned[spanned.length - 1]
+                if (
+                        spanned.length > 1 &&
+                        (t.isJSXElement(first) || t.isJSXFragment(first)) &&
+                        (t.isJSXElement(last) || t.isJSXFragment(last))
+                ) {
+                        return {
+                                range: {
+                                        start: first.start ?? 0,
+                                        end: last.end ?? 0,
+                                },
+                                label: `${getJSXLabel(first)} … ${getJSXLabel(last)}`,
+                        }
+                }
+
+                return {
+                        range: {
+                                start: enclosing.start ?? 0,
+                                end: enclosing.end ?? 0,
+                        },
+                        label: getJSXLabel(enclosing),
+                }
+        }
+
+        /**
+         * Find the refactorings a cursor targets: the component element whose
+         * tag name it is on, a `.map()` call around it with an arrow callback
+         * returning JSX, and the top level component whose declaration it is
+         * on, before the body
+         */
+        findCursorTargets(ast: t.File, offset: number): CursorTargets {
+                const contains = (node: t.Node, end = node.end) =>
+                        (node.start ?? 0) <= offset && offset <= (end ?? 0)
+                const targets: CursorTargets = {
+                        componentTag: false,
+                        mapCallback: false,
+                }
+
+                traverse(ast as unknown as Parameters<typeof traverse>[0], {
+                        enter(path) {
+                                const { node } = path
+                                if (!contains(node)) {
+                                        path.skip()
+                                        return
+                                }
+                                if (
+                                        (t.isJSXOpeningElement(node) ||
+                                                t.isJSXClosingElement(node)) &&
+                                        t.isJSXIdentifier(node.name) &&
+                                        /^[A-Z]/.test(node.name.name) &&
+                                        contains(node.name)
+                                ) {
+                                        targets.componentTag = true
+                                }
+                                if (
+                                        t.isCallExpression(node) &&
+                                        t.isMemberExpression(node.callee) &&
+                                        !node.callee.computed &&
+                                        t.isIdentifier(node.callee.property, {
+                                                name: 'map',
+                                        }) &&
+                                        t.isArrowFunctionExpression(
+                                                node.arguments[0],
+                                        ) &&
+                                        node.arguments[0].params.length > 0 &&
+                                        getReturnedJSX(node.arguments[0])
+                                ) {
+                                        targets.mapCallback = true
+                                }
+                        },
+                })
+
+                for (const statement of ast.program.body) {
+                        const declaration =
+                                t.isExportNamedDeclaration(statement) ||
+                                t.isExportDefaultDeclaration(statement)
+                                        ? statement.declaration
+                                        : statement
+                        const component =
+                                declaration &&
+                                getComponentDeclaration(declaration)
+                        if (
+                                component &&
+                                contains(statement, component.body.start)
+                        ) {
+                                targets.componentType = component.type
+                                break
+                        }
+                }
+                return targets
+        }
+
         /**
          * Find parent component
          */
@@ -164,6 +515,15 @@ export class ASTService implements IASTService {
                 return findComponentMemberReferences(componentPath, targetPath)
         }
 
+        /**
+         * Find identifiers without a binding in any scope of the module
+         */
+        findUnboundIdentifiers(
+                ast: t.File,
+        ): Array<t.Identifier | t.JSXIdentifier> {
+                return findUnboundIdentifiers(ast)
+        }
+
         /**
          * Clear AST cache
          */
@@ -171,3 +531,65 @@ export class ASTService implements IASTService {
                 this.astCache.clear()
         }
 }
+
+/**
+ * Form and body of a component declaration: a function, an arrow function
+ * assigned to a variable or a class extending `Component` or `PureComponent`
+ */
+function getComponentDeclaration(
+        node: t.Node,
+): { type: ComponentType; body: t.Node } | undefined {
+        if (t.isFunctionDeclaration(node) && isComponentName(node.id)) {
+                return { type: 'function', body: node.body }
+        }
+        if (t.isClassDeclaration(node) && isComponentName(node.id)) {
+                const { superClass } = node
+                const base = t.isMemberExpression(superClass)
+                        ? superClass.property
+                        : superClass
+                return t.isIdentifier(base) &&
+                        ['Component', 'PureComponent'].includes(base.name)
+                        ? { type: 'class', body: node.body }
+                        : undefined
+        }
+        if (t.isVariableDeclaration(node) && node.declarations.length === 1) {
+                const { id, init } = node.declarations[0]
+                return isComponentName(id) && t.isArrowFunctionExpression(init)
+                        ? { type: 'arrowFunction', body: init.body }
+                        : undefined
+        }
+        return undefined
+}
+
+function isComponentName(id: t.Node | null | undefined): id is t.Identifier {
+        return t.isIdentifier(id) && /^[A-Z]/.test(id.name)
+}
+
+/**
+ * Tag of an element with its first class name, like `<div.card>`
+ */
+function getJSXLabel(node: t.JSXElement | t.JSXFragment): string {
+        if (t.isJSXFragment(node)) {
+                return '<>'
+        }
+        const { name, attributes } = node.openingElement
+        const tag = t.isJSXNamespacedName(name)
+                ? `${name.namespace.name}:${name.name.name}`
+                : getJSXTagName(name)
+        const className = attributes.find(
+                (attribute): attribute is t.JSXAttribute =>
+                        t.isJSXAttribute(attribute) &&
+                        t.isJSXIdentifier(attribute.name) &&
+                        ['className', 'class'].includes(attribute.name.name),
+        )?.value
+        const classes = t.isStringLiteral(className)
+                ? className.value.trim().split(/\s+/)
+                : []
+        return classes[0] ? `<${tag}.${classes[0]}>` : `<${tag}>`
+}
+
+function getJSXTagName(name: t.JSXIdentifier | t.JSXMemberExpression): string {
+        return t.isJSXIdentifier(name)
+                ? name.name
+                : `${getJSXTagName(name.object)}.${name.property.name}`
+}
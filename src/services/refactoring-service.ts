@@ -5,16 +5,33 @@
 import * as path from 'node:path'
 import { LinesAndColumns } from 'lines-and-columns'
 import * as vscode from 'vscode'
+import type { ConfigService } from '../config'
+import type { RefactoringEngine } from '../core/engine'
 import { wrapError } from '../core/errors'
 import type {
+        ComponentType,
+        ConditionExtractionMode,
+        CursorTargets,
+        DocumentVersion,
+        EngineResult,
         ExtractionContext,
-        IASTService,
-        IRefactoringStrategy,
         IVSCodeService,
+        JSXSelection,
+        RefactoringAvailability,
+        RefactoringOptions,
         RefactoringType,
-        RefactorResult,
+        TextEdit,
+        TextRange,
 } from '../types'
 import { ErrorCode, RefactoringError } from '../types'
+import { normalizeComponentName, normalizeHookName } from '../utils'
+import type { EngineWorkerApi, EngineWorkerMethod } from '../worker/protocol'
+import type { EngineWorkerClient } from '../worker/worker-client'
+
+/**
+ * Quick pick item typing a name instead of picking a suggestion
+ */
+const OTHER_NAME = 'Other name…'
 
 /**
  * Refactoring service implementation
@@ -22,182 +39,893 @@ import { ErrorCode, RefactoringError } from '../types'
 export class RefactoringService {
         constructor(
                 private readonly vscodeService: IVSCodeService,
-                private readonly astService: IASTService,
-                private readonly strategies: IRefactoringStrategy[],
+                private readonly engine: RefactoringEngine,
+                private readonly configService: ConfigService,
+                private readonly engineWorker: EngineWorkerClient,
         ) {}
 
         /**
          * Extract JSX to component
+         *
+         * @param range expanded selection to extract, selected first
+         */
+        async extractToComponent(
+                produceClass: boolean = false,
+                range?: TextRange,
+        ): Promise<void> {
+                return wrapError(
+                        async () => {
+                                const editor =
+                                        this.vscodeService.requireActiveEditor()
+                                this.selectRange(editor, range)
+                                const applied =
+                                        await this.extractAndReplaceSelection(
+                                                editor,
+                                                produceClass,
+                                        )
+                                if (!applied) {
+                                        return
+                                }
+                                this.resetSelection(editor)
+                        },
+                        ErrorCode.EXTRACTION_ERROR,
+                        'Failed to extract component',
+                )
+        }
+
+        /**
+         * Extract the selected JSX to a wrapper component, keeping some of
+         * its children at the call site
          */
-        async extractToComponent(produceClass: boolean = false): Promise<void> {
+        async extractWrapper(range?: TextRange): Promise<void> {
                 return wrapError(
                         async () => {
                                 const editor =
                                         this.vscodeService.requireActiveEditor()
-                                await this.extractAndReplaceSelection(
+                                this.selectRange(editor, range)
+                                const childrenRange =
+                                        await this.askForChildrenRange(editor)
+                                if (!childrenRange) {
+                                        throw new RefactoringError(
+                                                ErrorCode.EXTRACTION_ERROR,
+                                                'Children to keep are required',
+                                        )
+                                }
+                                const result = await this.runExtraction(
                                         editor,
-                                        produceClass,
+                                        'extract',
+                                        false,
+                                        undefined,
+                                        { childrenRange },
                                 )
-                                await this.executeFormatCommand()
+                                if (
+                                        !(await this.applyExtraction(
+                                                editor,
+                                                result,
+                                        ))
+                                ) {
+                                        return
+                                }
                                 this.resetSelection(editor)
                         },
                         ErrorCode.EXTRACTION_ERROR,
-                        'Failed to extract component',
+                        'Failed to extract wrapper component',
                 )
         }
 
         /**
-         * Extract JSX to file
+         * Extract JSX to a component in a new file
          */
-        async extractToFile(): Promise<void> {
+        async extractToFile(range?: TextRange): Promise<void> {
                 return wrapError(
                         async () => {
                                 const editor =
                                         this.vscodeService.requireActiveEditor()
-                                const result =
-                                        await this.extractAndReplaceSelection(
+                                this.selectRange(editor, range)
+                                const result = await this.runExtraction(
+                                        editor,
+                                        'extractToFile',
+                                        false,
+                                )
+
+                                if (
+                                        !(await this.applyExtraction(
                                                 editor,
-                                                true,
+                                                result,
+                                        ))
+                                ) {
+                                        return
+                                }
+
+                                // The file creation may be unchecked in the preview
+                                const uri = result.newFile
+                                        ? vscode.Uri.file(
+                                                  result.newFile.fileName,
+                                          )
+                                        : undefined
+                                if (
+                                        uri &&
+                                        (await this.vscodeService.fileExists(
+                                                uri,
+                                        ))
+                                ) {
+                                        const doc =
+                                                await this.vscodeService.openTextDocument(
+                                                        uri,
+                                                )
+                                        await doc.save()
+                                        await this.vscodeService.showTextDocument(
+                                                doc,
                                         )
-                                const document = editor.document
+                                }
+                        },
+                        ErrorCode.EXTRACTION_ERROR,
+                        'Failed to extract to file',
+                )
+        }
+
+        /**
+         * Extract selected statements to a custom hook
+         */
+        async extractToHook(): Promise<void> {
+                return wrapError(
+                        async () => {
+                                const editor =
+                                        this.vscodeService.requireActiveEditor()
+                                const result = await this.runExtraction(
+                                        editor,
+                                        'extractToHook',
+                                        false,
+                                        () => this.askForHookName(),
+                                )
+                                await this.applyToEditor(editor, result)
+                                this.resetSelection(editor)
+                        },
+                        ErrorCode.EXTRACTION_ERROR,
+                        'Failed to extract custom hook',
+                )
+        }
 
-                                const documentDir = path.dirname(
-                                        document.fileName,
+        /**
+         * Extract the JSX of the `.map()` callback around the selection
+         */
+        async extractMapItem(): Promise<void> {
+                return wrapError(
+                        async () => {
+                                const editor =
+                                        this.vscodeService.requireActiveEditor()
+                                const result = await this.runExtraction(
+                                        editor,
+                                        'extractMapItem',
+                                        false,
                                 )
-                                const watcher =
-                                        this.vscodeService.createFileSystemWatcher(
-                                                path.join(
-                                                        documentDir,
-                                                        '*.{js,jsx,ts,tsx}',
-                                                ),
+                                if (
+                                        !(await this.applyExtraction(
+                                                editor,
+                                                result,
+                                        ))
+                                ) {
+                                        return
+                                }
+                                this.resetSelection(editor)
+                        },
+                        ErrorCode.EXTRACTION_ERROR,
+                        'Failed to extract list item component',
+                )
+        }
+
+        /**
+         * Inline the component used by the selected JSX element
+         */
+        async inlineComponent(): Promise<void> {
+                return wrapError(
+                        async () => {
+                                const editor =
+                                        this.vscodeService.requireActiveEditor()
+                                const document = editor.document
+                                const documentText = document.getText()
+                                const [start, end] =
+                                        this.getIndexesForSelection(
+                                                documentText,
+                                                editor.selection,
                                         )
 
-                                const disposable = watcher.onDidCreate(
-                                        async (uri) => {
-                                                disposable.dispose()
-                                                await this.executeFormatCommand()
-                                                const doc =
-                                                        await this.vscodeService.openTextDocument(
-                                                                uri,
-                                                        )
-                                                await this.vscodeService.showTextDocument(
-                                                        doc,
-                                                )
-                                                await this.executeFormatCommand()
-                                                const activeEditor =
-                                                        this.vscodeService.getActiveEditor()
-                                                if (activeEditor) {
-                                                        this.ensureReactIsImported(
-                                                                activeEditor,
-                                                        )
-                                                }
+                                const result = await this.callWorker(
+                                        document,
+                                        'run',
+                                        'inline',
+                                        {
+                                                name: '',
+                                                code: documentText,
+                                                start,
+                                                end,
+                                                produceClass: false,
+                                                options: this.getOptions(
+                                                        document,
+                                                ),
                                         },
                                 )
 
-                                const insertPos = document.positionAt(
-                                        result.insertAt,
-                                )
-                                const cmpLines =
-                                        result.componentCode.split(/\n/).length
+                                const removable = result.removableDeclaration
+                                if (removable) {
+                                        const answer =
+                                                await this.vscodeService.showInformationMessage(
+                                                        `'${removable.name}' has no usages left. Delete its declaration?`,
+                                                        'Delete',
+                                                        'Keep',
+                                                )
+                                        if (answer === 'Delete') {
+                                                result.edits.push(
+                                                        ...removable.ranges.map(
+                                                                (range) => ({
+                                                                        range,
+                                                                        newText: '',
+                                                                        label: `Delete ${removable.name}`,
+                                                                }),
+                                                        ),
+                                                )
+                                                await this.callWorker(
+                                                        document,
+                                                        'validate',
+                                                        documentText,
+                                                        result.edits,
+                                                        document.fileName,
+                                                )
+                                        }
+                                }
 
-                                const start = new vscode.Position(
-                                        insertPos.line,
-                                        0,
-                                )
-                                const end = new vscode.Position(
-                                        insertPos.line + cmpLines,
-                                        0,
+                                await this.applyToEditor(editor, result)
+                                this.resetSelection(editor)
+                        },
+                        ErrorCode.EXTRACTION_ERROR,
+                        'Failed to inline component',
+                )
+        }
+
+        /**
+         * Convert the class component around the selection to a function component
+         */
+        async convertClassToFunction(): Promise<void> {
+                return wrapError(
+                        async () => {
+                                const editor =
+                                        this.vscodeService.requireActiveEditor()
+                                const document = editor.document
+                                const documentText = document.getText()
+                                const [start, end] =
+                                        this.getIndexesForSelection(
+                                                documentText,
+                                                editor.selection,
+                                        )
+
+                                const result = await this.callWorker(
+                                        document,
+                                        'run',
+                                        'convertClassToFunction',
+                                        {
+                                                name: '',
+                                                code: documentText,
+                                                start,
+                                                end,
+                                                produceClass: false,
+                                                options: this.getOptions(
+                                                        document,
+                                                ),
+                                        },
                                 )
-                                const selection = new vscode.Selection(
-                                        start,
-                                        end,
+
+                                const issues = result.issues ?? []
+                                this.vscodeService.setDiagnostics(
+                                        document.uri,
+                                        issues.map((issue) => {
+                                                const diagnostic =
+                                                        new vscode.Diagnostic(
+                                                                new vscode.Range(
+                                                                        document.positionAt(
+                                                                                issue
+                                                                                        .range
+                                                                                        .start,
+                                                                        ),
+                                                                        document.positionAt(
+                                                                                issue
+                                                                                        .range
+                                                                                        .end,
+                                                                        ),
+                                                                ),
+                                                                issue.message,
+                                                                vscode
+                                                                        .DiagnosticSeverity
+                                                                        .Warning,
+                                                        )
+                                                diagnostic.source =
+                                                        'React Refactor'
+                                                return diagnostic
+                                        }),
                                 )
+                                if (issues.length > 0) {
+                                        throw new RefactoringError(
+                                                ErrorCode.UNSUPPORTED_CONSTRUCT,
+                                                `${issues.length} construct(s) can not be converted, see the Problems panel`,
+                                        )
+                                }
 
-                                await this.executeMoveToNewFileCodeAction(
-                                        document,
-                                        selection,
+                                await this.applyToEditor(editor, result)
+                                this.resetSelection(editor)
+                        },
+                        ErrorCode.EXTRACTION_ERROR,
+                        'Failed to convert class component',
+                )
+        }
+
+        /**
+         * Convert the component declaration around the selection to another form
+         */
+        async convertComponentType(targetType: ComponentType): Promise<void> {
+                return wrapError(
+                        async () => {
+                                const editor =
+                                        this.vscodeService.requireActiveEditor()
+                                const documentText = editor.document.getText()
+                                const [start, end] =
+                                        this.getIndexesForSelection(
+                                                documentText,
+                                                editor.selection,
+                                        )
+
+                                const result = await this.callWorker(
+                                        editor.document,
+                                        'run',
+                                        'convertComponentType',
+                                        {
+                                                name: '',
+                                                code: documentText,
+                                                start,
+                                                end,
+                                                produceClass:
+                                                        targetType === 'class',
+                                                options: this.getOptions(
+                                                        editor.document,
+                                                ),
+                                                targetType,
+                                        },
                                 )
+
+                                await this.applyToEditor(editor, result)
+                                this.resetSelection(editor)
                         },
                         ErrorCode.EXTRACTION_ERROR,
-                        'Failed to extract to file',
+                        'Failed to convert component',
+                )
+        }
+
+        /**
+         * Find the refactorings available for the selected code of a
+         * document, parsing it in the engine worker
+         */
+        async getAvailability(
+                document: vscode.TextDocument,
+                code: string,
+        ): Promise<RefactoringAvailability> {
+                if (!code.trim()) {
+                        return {
+                                isCodeActionAvailable: () => false,
+                                isHookExtractionAvailable: () => false,
+                        }
+                }
+                const { jsx, jsxCondition, hookCall } = await this.callWorker(
+                        document,
+                        'analyzeSelection',
+                        code,
+                )
+                return {
+                        isCodeActionAvailable: () => jsx || jsxCondition,
+                        isHookExtractionAvailable: () => hookCall,
+                }
+        }
+
+        /**
+         * Find the JSX to extract around a selection or a cursor that does
+         * not cover extractable JSX
+         */
+        expandSelection(
+                document: vscode.TextDocument,
+                start: number,
+                end: number,
+        ): Promise<JSXSelection | undefined> {
+                return this.callWorker(
+                        document,
+                        'expandSelection',
+                        document.getText(),
+                        start,
+                        end,
+                        this.getDocumentVersion(document),
                 )
         }
 
         /**
-         * Check if code action is available
+         * Find the refactorings a cursor targets, in the cached AST of the
+         * document
          */
-        isCodeActionAvailable(code: string): boolean {
-                return this.astService.isJSX(code)
+        findCursorTargets(
+                document: vscode.TextDocument,
+                offset: number,
+        ): Promise<CursorTargets> {
+                return this.callWorker(
+                        document,
+                        'findCursorTargets',
+                        document.getText(),
+                        offset,
+                        this.getDocumentVersion(document),
+                )
         }
 
         /**
-         * Execute extraction and replacement
+         * Execute extraction and replacement, returning whether it was applied
          */
         private async extractAndReplaceSelection(
                 editor: vscode.TextEditor,
                 produceClass: boolean,
-        ): Promise<RefactorResult> {
-                const name = await this.askForName()
-                if (!name) {
+        ): Promise<boolean> {
+                const result = await this.runExtraction(
+                        editor,
+                        'extract',
+                        produceClass,
+                )
+                return this.applyExtraction(editor, result)
+        }
+
+        /**
+         * Apply an extraction, through the refactor preview when enabled.
+         * Resolves to false when the changes are rejected in the preview.
+         */
+        private applyExtraction(
+                editor: vscode.TextEditor,
+                result: EngineResult,
+        ): Promise<boolean> {
+                return this.applyToEditor(
+                        editor,
+                        result,
+                        this.isPreviewEnabled(),
+                )
+        }
+
+        /**
+         * Check if extractions should be reviewed in the refactor preview
+         */
+        private isPreviewEnabled(): boolean {
+                return this.vscodeService
+                        .getConfiguration()
+                        .get('vscodeReactRefactor.previewChanges', true)
+        }
+
+        /**
+         * Read the options of generated code for a document, from the
+         * settings and the project configuration
+         */
+        private getOptions(document: vscode.TextDocument): RefactoringOptions {
+                return this.configService.getOptions(
+                        document.isUntitled ? undefined : document.fileName,
+                )
+        }
+
+        /**
+         * Run an operation of the engine worker, parsing with the parser
+         * options of a document
+         */
+        private callWorker<M extends EngineWorkerMethod>(
+                document: vscode.TextDocument,
+                method: M,
+                ...params: Parameters<EngineWorkerApi[M]>
+        ) {
+                return this.engineWorker.call(
+                        method,
+                        params,
+                        this.configService.getParserOptions(document),
+                )
+        }
+
+        /**
+         * Identify the text of a document, to reuse its cached AST
+         */
+        private getDocumentVersion(
+                document: vscode.TextDocument,
+        ): DocumentVersion {
+                return {
+                        uri: document.uri.toString(),
+                        version: document.version,
+                }
+        }
+
+        /**
+         * Apply all changes of a validated refactoring as a single workspace
+         * edit, so nothing is applied when one part fails
+         */
+        private async applyToEditor(
+                editor: vscode.TextEditor,
+                result: EngineResult,
+                needsConfirmation: boolean = false,
+        ): Promise<boolean> {
+                const code = editor.document.getText()
+                const applied = await this.vscodeService.applyEdit(
+                        this.createWorkspaceEdit(
+                                editor.document,
+                                result,
+                                needsConfirmation,
+                        ),
+                )
+                if (!applied && !needsConfirmation) {
                         throw new RefactoringError(
-                                ErrorCode.EXTRACTION_ERROR,
-                                'Component name is required',
+                                result.newFile
+                                        ? ErrorCode.FILE_SYSTEM_ERROR
+                                        : ErrorCode.EXTRACTION_ERROR,
+                                'Failed to apply the refactoring, the document may have changed',
+                        )
+                }
+                if (applied) {
+                        await this.formatEditedRanges(
+                                editor,
+                                code,
+                                result.edits,
                         )
                 }
+                return applied
+        }
 
+        /**
+         * Ask for a component name and run the strategy for the selection
+         */
+        private async runExtraction(
+                editor: vscode.TextEditor,
+                type: RefactoringType,
+                produceClass: boolean,
+                askForName: (
+                        code: string,
+                        start: number,
+                        end: number,
+                        document: vscode.TextDocument,
+                ) => Promise<string | false> = (code, start, end, document) =>
+                        this.askForName(code, start, end, document),
+                options: Partial<ExtractionContext> = {},
+        ): Promise<EngineResult> {
                 const document = editor.document
                 const selection = editor.selection
                 const documentText = document.getText()
 
+                const { jsxCondition } = await this.callWorker(
+                        document,
+                        'analyzeSelection',
+                        document.getText(selection),
+                )
+                const conditionMode = jsxCondition
+                        ? await this.askForConditionMode()
+                        : undefined
+                if (conditionMode === false) {
+                        throw new RefactoringError(
+                                ErrorCode.EXTRACTION_ERROR,
+                                'Extraction mode is required',
+                        )
+                }
+
                 const [start, end] = this.getIndexesForSelection(
                         documentText,
                         selection,
                 )
 
-                const strategy = this.getStrategy('extract')
+                const name = await askForName(
+                        documentText,
+                        start,
+                        end,
+                        document,
+                )
+                if (!name) {
+                        throw new RefactoringError(
+                                ErrorCode.EXTRACTION_ERROR,
+                                'Name is required',
+                        )
+                }
+
                 const context: ExtractionContext = {
                         name,
                         code: documentText,
                         start,
                         end,
                         produceClass,
+                        options: this.getOptions(document),
+                        fileName: document.isUntitled
+                                ? undefined
+                                : document.fileName,
+                        conditionMode,
+                        ...options,
                 }
 
-                const result = await strategy.execute(context)
-                const insertAtLine = document.positionAt(result.insertAt).line
+                return this.callWorker(document, 'run', type, context)
+        }
+
+        /**
+         * Build a single workspace edit applying a refactoring result, with
+         * each change labelled for the refactor preview
+         */
+        private createWorkspaceEdit(
+                document: vscode.TextDocument,
+                result: EngineResult,
+                needsConfirmation: boolean,
+        ): vscode.WorkspaceEdit {
+                const edit = new vscode.WorkspaceEdit()
+                const metadata = (
+                        label: string,
+                ): vscode.WorkspaceEditEntryMetadata => ({
+                        label,
+                        needsConfirmation,
+                })
+
+                result.edits.forEach(({ range, newText, label }) => {
+                        edit.replace(
+                                document.uri,
+                                new vscode.Range(
+                                        document.positionAt(range.start),
+                                        document.positionAt(range.end),
+                                ),
+                                newText,
+                                metadata(label ?? 'Update references'),
+                        )
+                })
 
-                await editor.edit((edit) => {
-                        edit.replace(selection, result.replaceJSXCode)
+                if (result.newFile) {
+                        const uri = vscode.Uri.file(result.newFile.fileName)
+                        const fileMetadata = metadata(
+                                `Create ${path.basename(result.newFile.fileName)}`,
+                        )
+                        edit.createFile(
+                                uri,
+                                { ignoreIfExists: false },
+                                fileMetadata,
+                        )
                         edit.insert(
-                                new vscode.Position(insertAtLine, 0),
-                                `${result.componentCode}\n\n`,
+                                uri,
+                                new vscode.Position(0, 0),
+                                result.newFile.content,
+                                fileMetadata,
+                        )
+                }
+
+                return edit
+        }
+
+        /**
+         * Ask for component name, offering the names suggested by the
+         * selected JSX and a unique alternative to a name already declared
+         */
+        private async askForName(
+                code: string,
+                start: number,
+                end: number,
+                document: vscode.TextDocument,
+        ): Promise<string | false> {
+                const version = this.getDocumentVersion(document)
+                const suggestions = await this.callWorker(
+                        document,
+                        'suggestComponentNames',
+                        code,
+                        start,
+                        end,
+                        version,
+                )
+                let value: string | undefined = suggestions[0]
+                if (suggestions.length > 1) {
+                        const items: vscode.QuickPickItem[] = [
+                                ...suggestions.map((label) => ({ label })),
+                                {
+                                        label: OTHER_NAME,
+                                        description: 'Type a component name',
+                                },
+                        ]
+                        const picked = await this.vscodeService.showQuickPick(
+                                items,
+                                { placeHolder: 'Component name' },
+                        )
+                        if (!picked) {
+                                return false
+                        }
+                        if (picked.label !== OTHER_NAME) {
+                                return picked.label
+                        }
+                        value = undefined
+                }
+
+                const input = await this.vscodeService.showInputBox({
+                        prompt: 'Component name',
+                        value,
+                        validateInput: async (text) => {
+                                if (!text.trim()) {
+                                        return undefined
+                                }
+                                const { message, alternative } =
+                                        await this.callWorker(
+                                                document,
+                                                'validateComponentName',
+                                                code,
+                                                normalizeComponentName(
+                                                        text.trim(),
+                                                ),
+                                                version,
+                                        )
+                                // A declared name is still accepted, to offer
+                                // its alternative
+                                return message && alternative
+                                        ? {
+                                                  message,
+                                                  severity: vscode
+                                                          .InputBoxValidationSeverity
+                                                          .Warning,
+                                          }
+                                        : message
+                        },
+                })
+                if (!input?.trim()) {
+                        return false
+                }
+                const name = normalizeComponentName(input.trim())
+                const { message, alternative } = await this.callWorker(
+                        document,
+                        'validateComponentName',
+                        code,
+                        name,
+                        version,
+                )
+                if (!message) {
+                        return name
+                }
+                if (!alternative) {
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_ARGUMENT,
+                                message,
                         )
+                }
+                const answer = await this.vscodeService.showInformationMessage(
+                        message,
+                        `Use ${alternative}`,
+                )
+                return answer ? alternative : false
+        }
+
+        /**
+         * Get the children kept at the call site of a wrapper, either from
+         * a second selection inside the wrapper or from a direct child pick
+         */
+        private async askForChildrenRange(
+                editor: vscode.TextEditor,
+        ): Promise<TextRange | false> {
+                const documentText = editor.document.getText()
+                const selections = editor.selections
+                if (selections.length > 1) {
+                        const outer = selections.find((selection) =>
+                                selections.every((other) =>
+                                        selection.contains(other),
+                                ),
+                        )
+                        if (!outer) {
+                                throw new RefactoringError(
+                                        ErrorCode.NO_SELECTION,
+                                        'Select the wrapper and, inside it, the children to keep',
+                                )
+                        }
+                        const inner = selections
+                                .filter((selection) => selection !== outer)
+                                .map((selection) =>
+                                        this.getIndexesForSelection(
+                                                documentText,
+                                                selection,
+                                        ),
+                                )
+                        editor.selection = outer
+                        return {
+                                start: Math.min(
+                                        ...inner.map(([start]) => start),
+                                ),
+                                end: Math.max(...inner.map(([, end]) => end)),
+                        }
+                }
+
+                const [start, end] = this.getIndexesForSelection(
+                        documentText,
+                        editor.selection,
+                )
+                const children = await this.callWorker(
+                        editor.document,
+                        'findJSXChildren',
+                        documentText,
+                        start,
+                        end,
+                        this.getDocumentVersion(editor.document),
+                )
+                const items = children.map((range) => {
+                        const childCode = documentText
+                                .slice(range.start, range.end)
+                                .trim()
+                        return {
+                                label: childCode.split('\n')[0],
+                                description: childCode.includes('\n')
+                                        ? '…'
+                                        : undefined,
+                                range,
+                        }
                 })
+                if (!items.length) {
+                        throw new RefactoringError(
+                                ErrorCode.INVALID_JSX,
+                                'The selected element has no children to keep',
+                        )
+                }
 
-                return result
+                const picked = await this.vscodeService.showQuickPick(items, {
+                        placeHolder: 'Child kept at the call site as children',
+                })
+                return picked ? picked.range : false
         }
 
         /**
-         * Ask for component name
+         * Ask which part of a selected JSX condition to extract
          */
-        private async askForName(): Promise<string | false> {
+        private async askForConditionMode(): Promise<
+                ConditionExtractionMode | false
+        > {
+                const items: (vscode.QuickPickItem & {
+                        mode: ConditionExtractionMode
+                })[] = [
+                        {
+                                label: 'Extract the whole condition',
+                                description:
+                                        'The component renders null when the condition is false',
+                                mode: 'whole',
+                        },
+                        {
+                                label: 'Extract the consequent only',
+                                description:
+                                        'The condition stays in place around the component',
+                                mode: 'consequent',
+                        },
+                ]
+                const picked = await this.vscodeService.showQuickPick(items, {
+                        placeHolder: 'What should the new component render?',
+                })
+                return picked ? picked.mode : false
+        }
+
+        /**
+         * Ask for custom hook name
+         */
+        private async askForHookName(): Promise<string | false> {
                 const name = await this.vscodeService.showInputBox({
-                        prompt: 'Component name',
+                        prompt: 'Hook name',
+                        value: 'use',
                 })
-                if (!name) {
+                const hookName = name && normalizeHookName(name)
+                if (!hookName || hookName === 'use') {
                         return false
                 }
-                return this.normalizeComponentName(name)
+                return hookName
         }
 
         /**
-         * Normalize component name
+         * Select and reveal an expanded selection, showing what is extracted
+         * while the refactoring asks for its name
          */
-        private normalizeComponentName(name: string): string {
-                return name
-                        .split(/[\s-_]+/)
-                        .map((s) => s.charAt(0).toUpperCase() + s.slice(1))
-                        .join('')
+        private selectRange(
+                editor: vscode.TextEditor,
+                range?: TextRange,
+        ): void {
+                if (!range) {
+                        return
+                }
+                const selection = new vscode.Selection(
+                        editor.document.positionAt(range.start),
+                        editor.document.positionAt(range.end),
+                )
+                editor.selection = selection
+                editor.revealRange(
+                        selection,
+                        vscode.TextEditorRevealType.InCenterIfOutsideViewport,
+                )
         }
 
         /**
@@ -209,11 +937,70 @@ export class RefactoringService {
         }
 
         /**
-         * Execute format command
+         * Format the text inserted by the edits with the range formatter of
+         * the document, in the undo step of the refactoring and leaving the
+         * rest of the file untouched
          */
-        private executeFormatCommand(): Thenable<unknown> {
-                return this.vscodeService.executeCommand(
-                        'editor.action.formatDocument',
+        private async formatEditedRanges(
+                editor: vscode.TextEditor,
+                code: string,
+                edits: TextEdit[],
+        ): Promise<void> {
+                const document = editor.document
+                // Changes left out in the refactor preview move the ranges
+                if (
+                        document.getText() !==
+                        this.engine.applyEdits(code, edits)
+                ) {
+                        return
+                }
+
+                const rangeEdits = await Promise.all(
+                        this.engine
+                                .getEditedRanges(edits)
+                                .map(
+                                        async ({ start, end }) =>
+                                                ((await this.vscodeService.executeCommand(
+                                                        'vscode.executeFormatRangeProvider',
+                                                        document.uri,
+                                                        new vscode.Range(
+                                                                document.positionAt(
+                                                                        start,
+                                                                ),
+                                                                document.positionAt(
+                                                                        end,
+                                                                ),
+                                                        ),
+                                                        editor.options,
+                                                )) as
+                                                        | vscode.TextEdit[]
+                                                        | undefined) ?? [],
+                                ),
+                )
+                const formatEdits: vscode.TextEdit[] = []
+                rangeEdits.flat().forEach((edit) => {
+                        const overlaps = formatEdits.some(
+                                (other) =>
+                                        !(
+                                                other.range.intersection(
+                                                        edit.range,
+                                                )?.isEmpty ?? true
+                                        ),
+                        )
+                        if (!overlaps) {
+                                formatEdits.push(edit)
+                        }
+                })
+                if (!formatEdits.length) {
+                        return
+                }
+                await editor.edit(
+                        (builder) => {
+                                formatEdits.forEach(({ range, newText }) => {
+                                        builder.replace(range, newText)
+                                })
+                        },
+                        { undoStopBefore: false, undoStopAfter: true },
                 )
         }
 
@@ -236,59 +1023,4 @@ export class RefactoringService {
                 })
                 return [startIndex ?? 0, endIndex ?? 0]
         }
-
-        /**
-         * Ensure React is imported
-         */
-        private ensureReactIsImported(editor: vscode.TextEditor): void {
-                const text = editor.document.getText()
-                // Simple check for React import
-                const hasReactImport =
-                        text.includes('import') &&
-                        (text.includes('react') ||
-                                text.includes('React') ||
-                                text.includes("from 'react'") ||
-                                text.includes('from "react"'))
-
-                if (!hasReactImport) {
-                        editor.edit((edit) => {
-                                edit.insert(
-                                        new vscode.Position(0, 0),
-                                        'import React from "react";\n',
-                                )
-                        })
-                }
-        }
-
-        /**
-         * Execute move to new file code action
-         */
-        private async executeMoveToNewFileCodeAction(
-                document: vscode.TextDocument,
-                rangeOrSelection: vscode.Range | vscode.Selection,
-        ): Promise<unknown> {
-                const codeAction = 'Move to a new file'
-                return this.vscodeService.executeCommand(
-                        '_typescript.applyRefactoring',
-                        document,
-                        document.fileName,
-                        codeAction,
-                        codeAction,
-                        rangeOrSelection,
-                )
-        }
-
-        /**
-         * Get strategy for refactoring type
-         */
-        private getStrategy(type: RefactoringType): IRefactoringStrategy {
-                const strategy = this.strategies.find((s) => s.canHandle(type))
-                if (!strategy) {
-                        throw new RefactoringError(
-                                ErrorCode.EXTRACTION_ERROR,
-                                `No strategy found for type: ${type}`,
-                        )
-                }
-                return strategy
-        }
 }
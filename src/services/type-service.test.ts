@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'bun:test'
+import * as path from 'node:path'
+import { TypeService } from './type-service'
+
+/**
+ * File in the repository, resolving `typescript` and `@types/react` from it
+ */
+const fileName = path.join(__dirname, 'Fixture.tsx')
+
+/**
+ * Each program loads the type declarations of the workspace
+ */
+const TIMEOUT = 30_000
+
+function inferType(code: string, expression: string): string {
+        const start = code.lastIndexOf(expression)
+        return new TypeService().inferTypes(fileName, code, {
+                [expression]: { start, end: start + expression.length },
+        })[expression]
+}
+
+describe('TypeService', () => {
+        test(
+                'prints a useState setter through the React import',
+                () => {
+                        const code = `import React, { useState } from 'react'
+
+export function Counter() {
+        const [count, setCount] = useState(0)
+        return <button onClick={() => setCount(count + 1)}>{count}</button>
+}
+`
+
+                        expect(inferType(code, 'setCount')).toBe(
+                                'React.Dispatch<React.SetStateAction<number>>',
+                        )
+                        expect(inferType(code, 'count')).toBe('number')
+                },
+                TIMEOUT,
+        )
+
+        test(
+                'prints types with the namespace the file imports',
+                () => {
+                        const code = `import * as ts from 'typescript'
+
+export function Files({ program }: { program: ts.Program }) {
+        const files = program.getRootFileNames()
+        return <ul>{files.length}</ul>
+}
+`
+
+                        expect(inferType(code, 'program')).toBe('ts.Program')
+                },
+                TIMEOUT,
+        )
+
+        test(
+                'falls back to unknown for types the file does not import',
+                () => {
+                        const code = `import { createProgram } from 'typescript'
+
+export function Files() {
+        const program = createProgram([], {})
+        return <ul>{program.getRootFileNames().length}</ul>
+}
+`
+
+                        expect(inferType(code, 'program')).toBe('unknown')
+                },
+                TIMEOUT,
+        )
+
+        test(
+                'checks the latest code of a document in a reused project',
+                () => {
+                        const service = new TypeService()
+                        const infer = (code: string) => {
+                                const start = code.lastIndexOf('value')
+                                return service.inferTypes(fileName, code, {
+                                        value: { start, end: start + 5 },
+                                }).value
+                        }
+
+                        expect(infer('export const value = 1\nvalue\n')).toBe(
+                                'number',
+                        )
+                        expect(
+                                infer("export const value = 'one'\nvalue\n"),
+                        ).toBe('string')
+                },
+                TIMEOUT,
+        )
+})
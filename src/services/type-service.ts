@@ -0,0 +1,427 @@
+/**
+ * Type Service - Infer prop types with the workspace TypeScript compiler
+ */
+
+import { createRequire } from 'node:module'
+import * as path from 'node:path'
+import type * as ts from 'typescript'
+import { LRUCache } from '../lib/lru-cache'
+import type { ITypeService, TextRange } from '../types'
+
+/**
+ * Type printed when the checker cannot provide a usable type
+ */
+const FALLBACK_TYPE = 'unknown'
+
+/**
+ * Number of projects whose language service is kept
+ */
+const MAX_PROJECTS = 4
+
+/**
+ * Language service of the files using a tsconfig.json, or of a directory
+ * without one
+ */
+interface Project {
+        service: ts.LanguageService
+        /** Modification time of the tsconfig.json, to reload its options */
+        configVersion?: number
+        /** Documents checked from their code rather than from the disk */
+        documents: Map<string, { code: string; version: number }>
+}
+
+/**
+ * Type service implementation backed by the workspace `typescript` package
+ */
+export class TypeService implements ITypeService {
+        // The programs of a project reuse the files unchanged since the last
+        // inference, so each one only parses and checks the edited document
+        private readonly projects = new LRUCache<string, Project>(MAX_PROJECTS)
+
+        /**
+         * Infer the type of each expression range in the given source file
+         */
+        inferTypes(
+                fileName: string,
+                code: string,
+                ranges: Record<string, TextRange>,
+        ): Record<string, string> {
+                const types: Record<string, string> = {}
+                Object.keys(ranges).forEach((name) => {
+                        types[name] = FALLBACK_TYPE
+                })
+
+                const typescript = this.loadTypeScript(fileName)
+                if (!typescript) {
+                        return types
+                }
+
+                try {
+                        const project = this.getProject(typescript, fileName)
+                        const documentName = path.resolve(fileName)
+                        const document = project.documents.get(documentName)
+                        if (document?.code !== code) {
+                                project.documents.set(documentName, {
+                                        code,
+                                        version: (document?.version ?? 0) + 1,
+                                })
+                        }
+                        const program = project.service.getProgram()
+                        const sourceFile = program?.getSourceFile(documentName)
+                        if (!program || !sourceFile) {
+                                return types
+                        }
+                        const checker = program.getTypeChecker()
+
+                        Object.entries(ranges).forEach(([name, range]) => {
+                                const node = this.findNode(
+                                        typescript,
+                                        sourceFile,
+                                        range,
+                                )
+                                if (node) {
+                                        types[name] = this.printType(
+                                                typescript,
+                                                checker,
+                                                node,
+                                        )
+                                }
+                        })
+                } catch {
+                        // Keep the fallback types when the compiler fails
+                }
+
+                return types
+        }
+
+        /**
+         * Resolve the `typescript` package installed next to the file
+         */
+        private loadTypeScript(fileName: string): typeof ts | undefined {
+                try {
+                        return createRequire(fileName)('typescript')
+                } catch {
+                        return undefined
+                }
+        }
+
+        /**
+         * Get the project of the nearest tsconfig.json, creating its language
+         * service when the options changed
+         */
+        private getProject(typescript: typeof ts, fileName: string): Project {
+                const configPath = typescript.findConfigFile(
+                        path.dirname(fileName),
+                        typescript.sys.fileExists,
+                )
+                const key = configPath ?? path.dirname(fileName)
+                const configVersion = configPath
+                        ? typescript.sys
+                                  .getModifiedTime?.(configPath)
+                                  ?.getTime()
+                        : undefined
+
+                const cached = this.projects.get(key)
+                if (cached && cached.configVersion === configVersion) {
+                        return cached
+                }
+                cached?.service.dispose()
+                const project = this.createProject(
+                        typescript,
+                        configPath,
+                        configPath ? path.dirname(configPath) : key,
+                )
+                project.configVersion = configVersion
+                this.projects.set(key, project)
+                return project
+        }
+
+        /**
+         * Create a language service with the options of a tsconfig.json
+         */
+        private createProject(
+                typescript: typeof ts,
+                configPath: string | undefined,
+                directory: string,
+        ): Project {
+                let options: ts.CompilerOptions = {
+                        allowJs: true,
+                        jsx: typescript.JsxEmit.Preserve,
+                        strict: true,
+                }
+                if (configPath) {
+                        const { config } = typescript.readConfigFile(
+                                configPath,
+                                typescript.sys.readFile,
+                        )
+                        if (config) {
+                                options = typescript.parseJsonConfigFileContent(
+                                        config,
+                                        typescript.sys,
+                                        path.dirname(configPath),
+                                ).options
+                        }
+                }
+
+                const { sys } = typescript
+                const documents: Project['documents'] = new Map()
+                const host: ts.LanguageServiceHost = {
+                        getCompilationSettings: () => ({
+                                ...options,
+                                noEmit: true,
+                        }),
+                        getScriptFileNames: () => [...documents.keys()],
+                        // Files of the disk change with their modification time
+                        getScriptVersion: (name) =>
+                                String(
+                                        documents.get(name)?.version ??
+                                                sys
+                                                        .getModifiedTime?.(name)
+                                                        ?.getTime() ??
+                                                0,
+                                ),
+                        getScriptSnapshot: (name) => {
+                                const text =
+                                        documents.get(name)?.code ??
+                                        sys.readFile(name)
+                                return text === undefined
+                                        ? undefined
+                                        : typescript.ScriptSnapshot.fromString(
+                                                  text,
+                                          )
+                        },
+                        getCurrentDirectory: () => directory,
+                        getDefaultLibFileName: (settings) =>
+                                typescript.getDefaultLibFilePath(settings),
+                        fileExists: (name) =>
+                                documents.has(name) || sys.fileExists(name),
+                        readFile: (name) =>
+                                documents.get(name)?.code ?? sys.readFile(name),
+                        readDirectory: sys.readDirectory,
+                        directoryExists: sys.directoryExists,
+                        getDirectories: sys.getDirectories,
+                        realpath: sys.realpath,
+                }
+
+                return {
+                        service: typescript.createLanguageService(host),
+                        documents,
+                }
+        }
+
+        /**
+         * Find the deepest node spanning exactly the given range
+         */
+        private findNode(
+                typescript: typeof ts,
+                sourceFile: ts.SourceFile,
+                range: TextRange,
+        ): ts.Node | undefined {
+                let found: ts.Node | undefined
+                const visit = (node: ts.Node) => {
+                        const start = node.getStart(sourceFile)
+                        if (start > range.start || node.getEnd() < range.end) {
+                                return
+                        }
+                        if (
+                                start === range.start &&
+                                node.getEnd() === range.end
+                        ) {
+                                found = node
+                        }
+                        typescript.forEachChild(node, visit)
+                }
+                visit(sourceFile)
+                return found
+        }
+
+        /**
+         * Print the widened type of a node
+         */
+        private printType(
+                typescript: typeof ts,
+                checker: ts.TypeChecker,
+                node: ts.Node,
+        ): string {
+                let type = checker.getTypeAtLocation(node)
+                if (
+                        type.flags & typescript.TypeFlags.Any &&
+                        (type as { intrinsicName?: string }).intrinsicName ===
+                                'error'
+                ) {
+                        return FALLBACK_TYPE
+                }
+                if (
+                        type.isLiteral() ||
+                        type.flags & typescript.TypeFlags.BooleanLiteral
+                ) {
+                        type = checker.getBaseTypeOfLiteralType(type)
+                }
+                // Types declared outside the scope of the node are printed
+                // with their name, unless it is not declared at the node
+                const printed = [
+                        typescript.TypeFormatFlags
+                                .UseAliasDefinedOutsideCurrentScope,
+                        typescript.TypeFormatFlags.None,
+                ]
+                        .map((flags) =>
+                                this.mapImportTypes(
+                                        typescript,
+                                        checker,
+                                        node.getSourceFile(),
+                                        checker.typeToString(
+                                                type,
+                                                node,
+                                                typescript.TypeFormatFlags
+                                                        .NoTruncation | flags,
+                                        ),
+                                ),
+                        )
+                        .find(
+                                (text) =>
+                                        // Import types hold absolute paths of this machine
+                                        text &&
+                                        !text.includes('import(') &&
+                                        this.isDeclaredAt(
+                                                typescript,
+                                                checker,
+                                                node,
+                                                text,
+                                        ),
+                        )
+                return printed ?? FALLBACK_TYPE
+        }
+
+        /**
+         * Check that the names a printed type refers to are declared at a
+         * node
+         */
+        private isDeclaredAt(
+                typescript: typeof ts,
+                checker: ts.TypeChecker,
+                node: ts.Node,
+                printed: string,
+        ): boolean {
+                const names = new Set<string>()
+                const visit = (child: ts.Node) => {
+                        let name = typescript.isTypeReferenceNode(child)
+                                ? child.typeName
+                                : typescript.isTypeQueryNode(child)
+                                  ? child.exprName
+                                  : undefined
+                        while (name && typescript.isQualifiedName(name)) {
+                                name = name.left
+                        }
+                        if (name) {
+                                names.add(name.text)
+                        }
+                        typescript.forEachChild(child, visit)
+                }
+                visit(
+                        typescript.createSourceFile(
+                                'type.ts',
+                                `type Printed = ${printed}`,
+                                typescript.ScriptTarget.Latest,
+                        ),
+                )
+                if (!names.size) {
+                        return true
+                }
+
+                const declared = new Set(
+                        checker
+                                .getSymbolsInScope(
+                                        node,
+                                        typescript.SymbolFlags.Type |
+                                                typescript.SymbolFlags
+                                                        .Namespace |
+                                                typescript.SymbolFlags.Value |
+                                                typescript.SymbolFlags.Alias,
+                                )
+                                .map((symbol) => symbol.name),
+                )
+                return [...names].every((name) => declared.has(name))
+        }
+
+        /**
+         * Write import types like `import("…/@types/react/index").Dispatch`
+         * with the names the file imports from their module
+         */
+        private mapImportTypes(
+                typescript: typeof ts,
+                checker: ts.TypeChecker,
+                sourceFile: ts.SourceFile,
+                printed: string,
+        ): string {
+                if (!printed.includes('import(')) {
+                        return printed
+                }
+
+                // Local names of the imports by module path and imported name,
+                // `*` naming the module itself
+                const imports = new Map<string, Map<string, string>>()
+                sourceFile.statements.forEach((statement) => {
+                        const clause = typescript.isImportDeclaration(statement)
+                                ? statement.importClause
+                                : undefined
+                        const moduleSymbol =
+                                clause &&
+                                checker.getSymbolAtLocation(
+                                        (statement as ts.ImportDeclaration)
+                                                .moduleSpecifier,
+                                )
+                        const moduleFile = moduleSymbol?.declarations
+                                ?.find(typescript.isSourceFile)
+                                ?.fileName.replace(/(\.d)?\.[cm]?[jt]sx?$/, '')
+                        if (!clause || !moduleSymbol || !moduleFile) {
+                                return
+                        }
+
+                        const names =
+                                imports.get(moduleFile) ??
+                                new Map<string, string>()
+                        imports.set(moduleFile, names)
+                        // The default import of an `export =` module, like React
+                        if (
+                                clause.name &&
+                                moduleSymbol.exports?.has(
+                                        typescript.InternalSymbolName
+                                                .ExportEquals,
+                                )
+                        ) {
+                                names.set('*', clause.name.text)
+                        }
+                        const bindings = clause.namedBindings
+                        if (
+                                bindings &&
+                                typescript.isNamespaceImport(bindings)
+                        ) {
+                                names.set('*', bindings.name.text)
+                        } else if (bindings) {
+                                bindings.elements.forEach((element) => {
+                                        names.set(
+                                                (
+                                                        element.propertyName ??
+                                                        element.name
+                                                ).text,
+                                                element.name.text,
+                                        )
+                                })
+                        }
+                })
+
+                return printed.replace(
+                        /import\("([^"]+)"\)\.([\w$]+)/g,
+                        (importType, modulePath: string, name: string) => {
+                                const names = imports.get(modulePath)
+                                const namespace = names?.get('*')
+                                return (
+                                        names?.get(name) ??
+                                        (namespace
+                                                ? `${namespace}.${name}`
+                                                : importType)
+                                )
+                        },
+                )
+        }
+}
@@ -13,12 +13,133 @@ export interface RefactorResult {
         replaceJSXCode: string
         componentCode: string
         insertAt: number
+        replaceRange?: TextRange
+        propsInterface?: string
+        edits?: TextEdit[]
+        newFile?: NewFile
+        removableDeclaration?: RemovableDeclaration
+        issues?: RefactoringIssue[]
+        /** Props passed to the extracted component */
+        props?: string[]
+}
+
+/**
+ * Character offset range in a source document
+ */
+export interface TextRange {
+        start: number
+        end: number
+}
+
+/**
+ * Additional edit to the source document, expressed in character offsets
+ */
+export interface TextEdit {
+        range: TextRange
+        newText: string
+        /**
+         * Description of the change shown in the refactor preview
+         */
+        label?: string
+}
+
+/**
+ * Declaration left without usages by a refactoring
+ */
+export interface RemovableDeclaration {
+        name: string
+        ranges: TextRange[]
+}
+
+/**
+ * Construct a refactoring could not convert
+ */
+export interface RefactoringIssue {
+        message: string
+        range: TextRange
+}
+
+/**
+ * File created by a refactoring
+ */
+export interface NewFile {
+        fileName: string
+        content: string
 }
 
 /**
  * Component generation function type
  */
-export type ComponentGenerator = (name: string, renderCode: string) => string
+export type ComponentGenerator = (
+        name: string,
+        renderCode: string,
+        propsType?: string,
+        indent?: string,
+        /** Imports of a component written to its own file */
+        imports?: string,
+) => string
+
+/**
+ * Props typing mode for generated components
+ */
+export type PropsTypingMode = 'interface' | 'none'
+
+/**
+ * Fragment syntax used when wrapping sibling JSX nodes
+ */
+export type FragmentSyntax = 'short' | 'long'
+
+/**
+ * Naming convention of the files of components extracted to a new file
+ */
+export type FileNamingConvention = 'PascalCase' | 'camelCase' | 'kebab-case'
+
+/**
+ * Options of generated code, passed to the strategies with each refactoring
+ */
+export interface RefactoringOptions {
+        functionType: 'function' | 'arrowFunction'
+        fragmentSyntax: FragmentSyntax
+        propsTyping: PropsTypingMode
+        fileNaming: FileNamingConvention
+        /** Directory of the component template files */
+        templatesDirectory: string
+}
+
+/**
+ * Options of the headless refactoring engine
+ */
+export interface EngineOptions extends RefactoringOptions {
+        /** Plugins of @babel/parser, detected from the file when empty */
+        babelPlugins: string[]
+}
+
+/**
+ * Options of an extraction run with the headless engine
+ */
+export interface ExtractOptions extends Partial<EngineOptions> {
+        name: string
+        fileName?: string
+        produceClass?: boolean
+}
+
+/**
+ * Result of a refactoring run by the engine, with all edits to the source
+ * document in offsets
+ */
+export interface EngineResult extends Omit<RefactorResult, 'edits'> {
+        /** Edits to the source document, none when there are `issues` */
+        edits: TextEdit[]
+        props: string[]
+}
+
+/**
+ * Part of a selected JSX condition moved to the new component
+ *
+ * - `whole`: the condition, rendering `null` when it is falsy
+ * - `consequent`: only the JSX rendered when the condition holds
+ */
+export type ConditionExtractionMode = 'whole' | 'consequent'
 
 /**
  * Component type options
@@ -28,7 +149,57 @@ export type ComponentType = 'function' | 'arrowFunction' | 'class'
 /**
  * Refactoring strategy type
  */
-export type RefactoringType = 'extract' | 'extractToFile'
+export type RefactoringType =
+        | 'extract'
+        | 'extractToFile'
+        | 'extractToHook'
+        | 'inline'
+        | 'convertClassToFunction'
+        | 'convertComponentType'
+        | 'extractMapItem'
+
+/**
+ * Refactoring offered as a code action
+ */
+export interface RefactoringAction {
+        command: string
+        title: string
+        /** Code action kind, e.g. `refactor.extract.component.function` */
+        kind: string
+        /** Why the refactoring can not be applied to the selection */
+        disabled?: string
+        /** Range the refactoring applies to, when the selection is expanded */
+        range?: TextRange
+}
+
+/**
+ * Extractable JSX a selection expands to
+ */
+export interface JSXSelection {
+        range: TextRange
+        /** Name shown in code action titles, like `<div.card>` */
+        label: string
+}
+
+/**
+ * Refactoring targets at a cursor, found in the AST of the document
+ */
+export interface CursorTargets {
+        /** On the tag name of a component element */
+        componentTag: boolean
+        /** In a `.map()` call with an arrow callback returning JSX */
+        mapCallback: boolean
+        /** Form of the component declared before the cursor's body */
+        componentType?: ComponentType
+}
+
+/**
+ * Checks deciding which refactorings a selected text offers
+ */
+export interface RefactoringAvailability {
+        isCodeActionAvailable(code: string): boolean
+        isHookExtractionAvailable(code: string): boolean
+}
 
 /**
  * Parser options configuration
@@ -39,11 +210,31 @@ export interface ParserOptions {
 }
 
 /**
- * AST cache entry
+ * Version of an open document, identifying the text of its cached AST
+ */
+export interface DocumentVersion {
+        uri: string
+        version: number
+}
+
+/**
+ * AST cache entry of a document version
  */
 export interface ASTCacheEntry {
         ast: t.File
-        timestamp: number
+        code: string
+        version: number
+        /** Serialized parser options the AST was parsed with */
+        parserOptions: string
+}
+
+/**
+ * Hit and miss counters of the AST cache
+ */
+export interface ASTCacheStats {
+        hits: number
+        misses: number
+        size: number
 }
 
 /**
@@ -72,6 +263,14 @@ export interface ExtractionContext {
         start: number
         end: number
         produceClass: boolean
+        options: RefactoringOptions
+        fileName?: string
+        targetType?: ComponentType
+        conditionMode?: ConditionExtractionMode
+        /** Identifiers passed whole to the extracted component, by prop name */
+        propAliases?: Record<string, string>
+        /** JSX children kept at the call site and rendered as `children` */
+        childrenRange?: TextRange
 }
 
 /**
@@ -88,6 +287,7 @@ export interface IServiceContainer {
  */
 export interface IBabelService {
         parse(code: string, options?: ParserOptions): t.File
+        getParserOptions(): ParserOptions
         generate(ast: t.File): string
         template(code: string): t.Statement | t.Statement[] | null
         isJSX(code: string): boolean
@@ -106,6 +306,10 @@ export interface IVSCodeService {
                 options: vscode.InputBoxOptions,
         ): Thenable<string | undefined>
         showErrorMessage(message: string): void
+        showInformationMessage(
+                message: string,
+                ...items: string[]
+        ): Thenable<string | undefined>
         executeCommand(command: string, ...rest: unknown[]): Thenable<unknown>
         registerCommand(
                 command: string,
@@ -114,38 +318,95 @@ export interface IVSCodeService {
         registerCodeActionsProvider(
                 selector: vscode.DocumentSelector,
                 provider: vscode.CodeActionProvider,
+                metadata?: vscode.CodeActionProviderMetadata,
         ): vscode.Disposable
         createFileSystemWatcher(pattern: string): vscode.FileSystemWatcher
         openTextDocument(uri: vscode.Uri): Thenable<vscode.TextDocument>
+        fileExists(uri: vscode.Uri): Promise<boolean>
+        onDidCloseTextDocument(
+                listener: (document: vscode.TextDocument) => void,
+        ): vscode.Disposable
+        openUntitledDocument(
+                content: string,
+                language: string,
+        ): Thenable<vscode.TextDocument>
         showTextDocument(document: vscode.TextDocument): Thenable<void>
+        applyEdit(edit: vscode.WorkspaceEdit): Thenable<boolean>
+        showQuickPick<T extends vscode.QuickPickItem>(
+                items: T[],
+                options?: vscode.QuickPickOptions,
+        ): Thenable<T | undefined>
+        setDiagnostics(
+                uri: vscode.Uri,
+                diagnostics: readonly vscode.Diagnostic[],
+        ): void
 }
 
 /**
  * AST service interface
  */
 export interface IASTService {
-        codeToAst(code: string): t.File
+        codeToAst(code: string, document?: DocumentVersion): t.File
+        evictDocument(uri: string): void
+        getCacheStats(): ASTCacheStats
         astToCode(ast: t.File): string
         codeFromNode(node: t.Node): string
         jsxToAst(code: string): t.Statement | t.Statement[] | false
         isJSX(code: string): boolean
+        isJSXCondition(code: string): boolean
+        containsHookCall(code: string): boolean
         findSelectedJSXElement(
                 ast: t.File,
                 start: number,
                 end: number,
-        ): NodePath<t.JSXElement> | undefined
+        ): NodePath<t.JSXElement | t.JSXFragment> | undefined
+        findSelectedJSXChildren(
+                ast: t.File,
+                start: number,
+                end: number,
+                minChildren?: number,
+        ): NodePath[]
+        findSelectedJSXCondition(
+                ast: t.File,
+                start: number,
+                end: number,
+        ): NodePath<t.JSXExpressionContainer> | undefined
+        expandJSXSelection(
+                ast: t.File,
+                start: number,
+                end: number,
+        ): JSXSelection | undefined
+        findCursorTargets(ast: t.File, offset: number): CursorTargets
         findParentComponent(path: NodePath): NodePath
         findComponentMemberReferences(
                 componentPath: NodePath,
                 targetPath: NodePath,
         ): NodePath[]
+        findUnboundIdentifiers(
+                ast: t.File,
+        ): Array<t.Identifier | t.JSXIdentifier>
+}
+
+/**
+ * Type inference service interface
+ */
+export interface ITypeService {
+        inferTypes(
+                fileName: string,
+                code: string,
+                ranges: Record<string, TextRange>,
+        ): Record<string, string>
 }
 
 /**
  * Component generator factory interface
  */
 export interface IComponentGeneratorFactory {
-        create(type: ComponentType): ComponentGenerator
+        create(
+                type: ComponentType,
+                fileName?: string,
+                templatesDirectory?: string,
+        ): ComponentGenerator
 }
 
 /**
@@ -167,6 +428,19 @@ export enum ErrorCode {
         PARSER_ERROR = 'PARSER_ERROR',
         EXTRACTION_ERROR = 'EXTRACTION_ERROR',
         FILE_SYSTEM_ERROR = 'FILE_SYSTEM_ERROR',
+        UNSUPPORTED_CONSTRUCT = 'UNSUPPORTED_CONSTRUCT',
+        INVALID_OUTPUT = 'INVALID_OUTPUT',
+        INVALID_ARGUMENT = 'INVALID_ARGUMENT',
+        INVALID_CONFIG = 'INVALID_CONFIG',
+}
+
+/**
+ * Position of a problem in a document, with 1-based line and column
+ */
+export interface ErrorLocation {
+        fileName?: string
+        line: number
+        column: number
 }
 
 /**
@@ -177,6 +451,7 @@ export class RefactoringError extends Error {
                 public readonly code: ErrorCode,
                 message: string,
                 public readonly originalError?: Error,
+                public readonly location?: ErrorLocation,
         ) {
                 super(message)
                 this.name = 'RefactoringError'
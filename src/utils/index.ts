@@ -2,17 +2,8 @@
  * Utility Functions
  */
 
-import * as vscode from 'vscode'
-
-export const askForName = async () => {
-	const name = await vscode.window.showInputBox({
-		prompt: 'Component name',
-	})
-	if (!name) {
-		return false
-	}
-	return normalizeComponentName(name)
-}
+import { DEFAULT_INDENT, indentLines } from '../lib/indentation'
+import type { FileNamingConvention } from '../types'
 
 export const normalizeComponentName = (name: string) =>
 	name
@@ -20,43 +11,95 @@ export const normalizeComponentName = (name: string) =>
 		.map(capitalizeFirstLetter)
 		.join('')
 
+export const normalizeHookName = (name: string) => {
+	const baseName = normalizeComponentName(name.replace(/^use(?=[A-Z\s\-_]|$)/, ''))
+	return `use${baseName}`
+}
+
 export const capitalizeFirstLetter = (string: string) =>
 	string.charAt(0).toUpperCase() + string.slice(1)
 
 export const lowerCaseFirstLetter = (string: string) =>
 	string.charAt(0).toLowerCase() + string.slice(1)
 
+export const formatFileName = (
+	name: string,
+	convention: FileNamingConvention,
+): string => {
+	switch (convention) {
+		case 'camelCase':
+			// Leading acronyms are lowercased whole, like `htmlView`
+			return name.replace(/^[A-Z]+(?=[A-Z][a-z]|\d|$)|^[A-Z]/, (prefix) =>
+				prefix.toLowerCase(),
+			)
+		case 'kebab-case':
+			return name
+				.replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+				.replace(/([A-Z])([A-Z][a-z])/g, '$1-$2')
+				.toLowerCase()
+		default:
+			return name
+	}
+}
+
+export const propsParam = (renderCode: string, propsType?: string): string => {
+	if (!renderCode.match(/props/)) {
+		return ''
+	}
+	return propsType ? `props: ${propsType}` : 'props'
+}
+
+export const generatePropsInterface = (
+	propsType: string,
+	types: Record<string, string>,
+	indent: string = DEFAULT_INDENT,
+): string => `
+interface ${propsType} {
+${Object.entries(types)
+	.map(([prop, type]) => `${indent}${prop}: ${type}`)
+	.join('\n')}
+}
+`
+
 export const generateClassComponent = (
 	name: string,
 	renderCode: string,
+	propsType?: string,
+	indent: string = DEFAULT_INDENT,
 ): string => `
-class ${name} extends React.Component {
-    constructor(props) {
-        super(props);
-    }
-
-    render() {
-        return (
-            ${renderCode}
-        );
-    }
+class ${name} extends React.Component${propsType ? `<${propsType}>` : ''} {
+${indent}constructor(${propsType ? `props: ${propsType}` : 'props'}) {
+${indent.repeat(2)}super(props);
+${indent}}
+
+${indent}render() {
+${indent.repeat(2)}return (
+${indent.repeat(3)}${indentLines(renderCode, indent.repeat(3))}
+${indent.repeat(2)});
+${indent}}
 }
 `
 
 export const generateFunctionalComponent = (
 	name: string,
 	renderCode: string,
+	propsType?: string,
+	indent: string = DEFAULT_INDENT,
 ): string => `
-function ${name}(${renderCode.match(/props/) ? 'props' : ''}) {
-    return (${renderCode});
+function ${name}(${propsParam(renderCode, propsType)}) {
+${indent}return (
+${indent.repeat(2)}${indentLines(renderCode, indent.repeat(2))}
+${indent});
 }
 `
 
 export const generateArrowFunctionComponent = (
 	name: string,
 	renderCode: string,
+	propsType?: string,
+	indent: string = DEFAULT_INDENT,
 ): string => `
-const ${name} = (${renderCode.match(/props/) ? 'props' : ''}) => (
-    ${renderCode}
+const ${name} = (${propsParam(renderCode, propsType)}) => (
+${indent}${indentLines(renderCode, indent)}
 );
 `
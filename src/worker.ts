@@ -0,0 +1,11 @@
+/**
+ * Engine Worker Entry - Run refactorings in a worker thread of the extension
+ * host
+ */
+
+import { parentPort } from 'node:worker_threads'
+import { startEngineWorker } from './worker/engine-worker'
+
+if (parentPort) {
+        startEngineWorker(parentPort)
+}
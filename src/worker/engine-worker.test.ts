@@ -0,0 +1,119 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import { MessageChannel } from 'node:worker_threads'
+import { DEFAULT_ENGINE_OPTIONS } from '../core/engine'
+import { ErrorCode } from '../types'
+import { startEngineWorker } from './engine-worker'
+import type {
+        EngineWorkerApi,
+        EngineWorkerMethod,
+        EngineWorkerRequest,
+        EngineWorkerResponse,
+} from './protocol'
+
+const { babelPlugins: _, ...defaults } = DEFAULT_ENGINE_OPTIONS
+
+const { port1: client, port2: worker } = new MessageChannel()
+startEngineWorker(worker)
+afterAll(() => client.close())
+
+let nextId = 1
+
+function send<M extends EngineWorkerMethod>(
+        method: M,
+        params: Parameters<EngineWorkerApi[M]>,
+        parserOptions?: EngineWorkerRequest['parserOptions'],
+): Promise<EngineWorkerResponse> {
+        const request: EngineWorkerRequest<M> = {
+                id: nextId++,
+                method,
+                params,
+                parserOptions,
+        }
+        return new Promise((resolve) => {
+                const onMessage = (response: EngineWorkerResponse) => {
+                        if (response.id === request.id) {
+                                client.off('message', onMessage)
+                                resolve(response)
+                        }
+                }
+                client.on('message', onMessage)
+                client.postMessage(request)
+        })
+}
+
+describe('startEngineWorker', () => {
+        test('answers the requests with the computed edits', async () => {
+                const code = 'const App = () => <main><h1>Hi</h1></main>\n'
+                const start = code.indexOf('<h1>')
+                const response = await send('run', [
+                        'extract',
+                        {
+                                name: 'Heading',
+                                code,
+                                start,
+                                end: code.indexOf('</main>'),
+                                produceClass: false,
+                                options: { ...defaults, propsTyping: 'none' },
+                        },
+                ])
+
+                expect(response).toMatchObject({
+                        result: {
+                                edits: expect.arrayContaining([
+                                        expect.objectContaining({
+                                                range: {
+                                                        start,
+                                                        end: code.indexOf(
+                                                                '</main>',
+                                                        ),
+                                                },
+                                                newText: '<Heading></Heading>',
+                                        }),
+                                ]),
+                        },
+                })
+        })
+
+        test('parses with the options of the request, the previous ones by default', async () => {
+                const code = 'const a = (value: any) => value'
+
+                expect(
+                        await send('findCursorTargets', [code, 0], {
+                                plugins: ['jsx'],
+                                sourceType: 'module',
+                        }),
+                ).toMatchObject({ result: { componentTag: false } })
+                expect(
+                        await send('validate', [code, [], 'a.js']),
+                ).toMatchObject({
+                        error: { code: ErrorCode.PARSER_ERROR },
+                })
+                expect(
+                        await send('validate', [code, [], 'a.ts'], {
+                                plugins: ['typescript'],
+                                sourceType: 'module',
+                        }),
+                ).toEqual({ id: nextId - 1, result: undefined })
+        })
+
+        test('returns the errors of the requests', async () => {
+                expect(
+                        await send('run', [
+                                'extract',
+                                {
+                                        name: 'Heading',
+                                        code: 'const a = 1',
+                                        start: 0,
+                                        end: 11,
+                                        produceClass: false,
+                                        options: defaults,
+                                },
+                        ]),
+                ).toMatchObject({
+                        error: {
+                                code: ErrorCode.INVALID_JSX,
+                                message: 'Invalid JSX selected',
+                        },
+                })
+        })
+})
@@ -0,0 +1,145 @@
+/**
+ * Engine Worker - Parse documents and run refactorings off the extension
+ * host thread, answering the requests of the worker client
+ */
+
+import type { MessagePort } from 'node:worker_threads'
+import * as t from '@babel/types'
+import { NO_CURSOR_TARGETS } from '../core/code-actions'
+import { ServiceContainer, ServiceKeys } from '../core/di/container'
+import { type RefactoringEngine, registerEngineServices } from '../core/engine'
+import { suggestComponentNames, validateComponentName } from '../core/naming'
+import { detectParserPlugins } from '../lib/parser-plugins'
+import type { IASTService, ParserOptions } from '../types'
+import { ErrorCode, RefactoringError } from '../types'
+import type {
+        EngineWorkerApi,
+        EngineWorkerError,
+        EngineWorkerRequest,
+        EngineWorkerResponse,
+} from './protocol'
+
+/**
+ * Answer the requests received on a port, one at a time so each one is
+ * parsed with its own parser options
+ */
+export function startEngineWorker(port: MessagePort): void {
+        let parserOptions: ParserOptions = {
+                plugins: detectParserPlugins({}).plugins,
+                sourceType: 'module',
+        }
+        const container = new ServiceContainer()
+        registerEngineServices(container, () => parserOptions)
+        const api = createEngineWorkerApi(
+                container.get<IASTService>(ServiceKeys.ASTService),
+                container.get<RefactoringEngine>(ServiceKeys.RefactoringEngine),
+        )
+
+        let queue = Promise.resolve()
+        port.on('message', (request: EngineWorkerRequest) => {
+                queue = queue.then(async () => {
+                        parserOptions = request.parserOptions ?? parserOptions
+                        let response: EngineWorkerResponse
+                        try {
+                                const method = api[request.method] as (
+                                        ...params: unknown[]
+                                ) => unknown
+                                response = {
+                                        id: request.id,
+                                        result: await method(...request.params),
+                                }
+                        } catch (error) {
+                                response = {
+                                        id: request.id,
+                                        error: toWorkerError(error),
+                                }
+                        }
+                        port.postMessage(response)
+                })
+        })
+}
+
+/**
+ * Operations of the worker, on the services of its own engine
+ */
+function createEngineWorkerApi(
+        astService: IASTService,
+        engine: RefactoringEngine,
+): EngineWorkerApi {
+        return {
+                run: (type, context) => engine.run(type, context),
+                validate: (code, edits, fileName) =>
+                        engine.validate(code, edits, fileName),
+                analyzeSelection: (code) => ({
+                        jsx: astService.isJSX(code),
+                        jsxCondition: astService.isJSXCondition(code),
+                        hookCall: astService.containsHookCall(code),
+                }),
+                suggestComponentNames: (code, start, end, document) =>
+                        suggestComponentNames(
+                                astService,
+                                code,
+                                start,
+                                end,
+                                document,
+                        ),
+                validateComponentName: (code, name, document) =>
+                        validateComponentName(astService, code, name, document),
+                findJSXChildren: (code, start, end, document) => {
+                        const element = astService.findSelectedJSXElement(
+                                astService.codeToAst(code, document),
+                                start,
+                                end,
+                        )
+                        return (element?.node.children ?? [])
+                                .filter(
+                                        (child) =>
+                                                !t.isJSXText(child) ||
+                                                child.value.trim() !== '',
+                                )
+                                .map((child) => ({
+                                        start: child.start ?? 0,
+                                        end: child.end ?? 0,
+                                }))
+                },
+                expandSelection: (code, start, end, document) => {
+                        let ast: t.File
+                        try {
+                                ast = astService.codeToAst(code, document)
+                        } catch {
+                                // Nothing to expand to while the document does not parse
+                                return undefined
+                        }
+                        return astService.expandJSXSelection(ast, start, end)
+                },
+                findCursorTargets: (code, offset, document) => {
+                        let ast: t.File
+                        try {
+                                ast = astService.codeToAst(code, document)
+                        } catch {
+                                return NO_CURSOR_TARGETS
+                        }
+                        return astService.findCursorTargets(ast, offset)
+                },
+                evictDocument: (uri) => astService.evictDocument(uri),
+                getCacheStats: () => astService.getCacheStats(),
+        }
+}
+
+/**
+ * Copy the fields of an error that survive structured cloning
+ */
+function toWorkerError(error: unknown): EngineWorkerError {
+        if (error instanceof RefactoringError) {
+                return {
+                        code: error.code,
+                        message: error.message,
+                        location: error.location,
+                        cause: error.originalError?.message,
+                }
+        }
+        return {
+                code: ErrorCode.EXTRACTION_ERROR,
+                message: error instanceof Error ? error.message : String(error),
+        }
+}
@@ -0,0 +1,101 @@
+/**
+ * Engine Worker Protocol - Structured-cloneable messages between the
+ * extension host and the worker parsing documents
+ */
+
+import type { NameValidation } from '../core/naming'
+import type {
+        ASTCacheStats,
+        CursorTargets,
+        DocumentVersion,
+        EngineResult,
+        ErrorCode,
+        ErrorLocation,
+        ExtractionContext,
+        JSXSelection,
+        ParserOptions,
+        RefactoringType,
+        TextEdit,
+        TextRange,
+} from '../types'
+
+/**
+ * Kinds of code a selection holds, deciding the refactorings offered
+ */
+export interface SelectionAnalysis {
+        jsx: boolean
+        jsxCondition: boolean
+        hookCall: boolean
+}
+
+/**
+ * Operations run by the worker, each with the parser options of the request
+ */
+export interface EngineWorkerApi {
+        run(
+                type: RefactoringType,
+                context: ExtractionContext,
+        ): Promise<EngineResult>
+        validate(code: string, edits: TextEdit[], fileName?: string): void
+        analyzeSelection(code: string): SelectionAnalysis
+        suggestComponentNames(
+                code: string,
+                start: number,
+                end: number,
+                document?: DocumentVersion,
+        ): string[]
+        validateComponentName(
+                code: string,
+                name: string,
+                document?: DocumentVersion,
+        ): NameValidation
+        /** Ranges of the children of the selected JSX element */
+        findJSXChildren(
+                code: string,
+                start: number,
+                end: number,
+                document?: DocumentVersion,
+        ): TextRange[]
+        /** Extractable JSX around the selection or the cursor */
+        expandSelection(
+                code: string,
+                start: number,
+                end: number,
+                document?: DocumentVersion,
+        ): JSXSelection | undefined
+        /** Refactorings targeted by the cursor */
+        findCursorTargets(
+                code: string,
+                offset: number,
+                document?: DocumentVersion,
+        ): CursorTargets
+        evictDocument(uri: string): void
+        getCacheStats(): ASTCacheStats
+}
+
+export type EngineWorkerMethod = keyof EngineWorkerApi
+
+export interface EngineWorkerRequest<
+        M extends EngineWorkerMethod = EngineWorkerMethod,
+> {
+        id: number
+        method: M
+        params: Parameters<EngineWorkerApi[M]>
+        /** Options parsing the code of the request, the previous ones by default */
+        parserOptions?: ParserOptions
+}
+
+/**
+ * Refactoring error thrown in the worker
+ */
+export interface EngineWorkerError {
+        code: ErrorCode
+        message: string
+        location?: ErrorLocation
+        /** Message of the error causing it */
+        cause?: string
+}
+
+export type EngineWorkerResponse =
+        | { id: number; result: unknown }
+        | { id: number; error: EngineWorkerError }
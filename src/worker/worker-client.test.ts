@@ -0,0 +1,90 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { ErrorCode } from '../types'
+import { EngineWorkerClient } from './worker-client'
+
+const directory = mkdtempSync(path.join(os.tmpdir(), 'worker-client-'))
+afterAll(() => rmSync(directory, { recursive: true, force: true }))
+
+/**
+ * Error of a request. Bun does not deliver the messages of the worker while
+ * `expect(promise).rejects` waits, so the error is caught instead.
+ */
+const failure = (request: Promise<unknown>) =>
+        request.then(
+                () => undefined,
+                (error: unknown) => error,
+        )
+
+describe('EngineWorkerClient', () => {
+        test('runs the requests in the engine worker', async () => {
+                const client = new EngineWorkerClient(
+                        path.join(__dirname, '../worker.ts'),
+                )
+                try {
+                        expect(
+                                await client.call('analyzeSelection', [
+                                        '<h1>Title</h1>',
+                                ]),
+                        ).toEqual({
+                                jsx: true,
+                                jsxCondition: false,
+                                hookCall: false,
+                        })
+                        expect(
+                                await failure(
+                                        client.call('validate', [
+                                                'const a = <p>',
+                                                [],
+                                        ]),
+                                ),
+                        ).toMatchObject({ code: ErrorCode.PARSER_ERROR })
+                } finally {
+                        client.dispose()
+                }
+                expect(
+                        await failure(client.call('getCacheStats', [])),
+                ).toMatchObject({
+                        message: 'The refactoring worker is stopped',
+                })
+        })
+
+        test('fails the pending requests of a crashed worker and restarts it', async () => {
+                const workerPath = path.join(directory, 'crashing-worker.js')
+                writeFileSync(
+                        workerPath,
+                        `const { parentPort } = require('node:worker_threads')
+parentPort.on('message', ({ id, params }) => {
+  if (params[0] === 'crash') process.exit(3)
+  parentPort.postMessage({ id, result: { jsx: true, jsxCondition: false, hookCall: false } })
+})
+`,
+                )
+                const client = new EngineWorkerClient(workerPath)
+                try {
+                        expect(
+                                await failure(
+                                        client.call('analyzeSelection', [
+                                                'crash',
+                                        ]),
+                                ),
+                        ).toMatchObject({
+                                code: ErrorCode.EXTRACTION_ERROR,
+                                message: 'The refactoring worker exited with code 3',
+                        })
+                        expect(
+                                await client.call('analyzeSelection', [
+                                        '<p></p>',
+                                ]),
+                        ).toEqual({
+                                jsx: true,
+                                jsxCondition: false,
+                                hookCall: false,
+                        })
+                } finally {
+                        client.dispose()
+                }
+        })
+})
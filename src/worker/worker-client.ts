@@ -0,0 +1,160 @@
+/**
+ * Engine Worker Client - Send the requests of the extension host to the
+ * engine worker, restarting the worker when it stops
+ */
+
+import { Worker } from 'node:worker_threads'
+import type { ParserOptions } from '../types'
+import { ErrorCode, RefactoringError } from '../types'
+import type {
+        EngineWorkerApi,
+        EngineWorkerMethod,
+        EngineWorkerRequest,
+        EngineWorkerResponse,
+} from './protocol'
+
+type EngineWorkerResult<M extends EngineWorkerMethod> = Awaited<
+        ReturnType<EngineWorkerApi[M]>
+>
+
+interface PendingRequest {
+        resolve: (result: unknown) => void
+        reject: (error: Error) => void
+}
+
+/**
+ * Client of the engine worker, started on the first request
+ */
+export class EngineWorkerClient {
+        private worker: Worker | undefined
+        private nextId = 1
+        private readonly pending = new Map<number, PendingRequest>()
+        private disposed = false
+
+        /**
+         * @param workerPath script of the worker, `dist/worker.js` once bundled
+         */
+        constructor(private readonly workerPath: string) {}
+
+        /**
+         * Start the worker and load the parser ahead of the first request
+         */
+        warm(parserOptions: ParserOptions): void {
+                this.call('analyzeSelection', ['<></>'], parserOptions).catch(
+                        () => {
+                                // The next request reports the failure
+                        },
+                )
+        }
+
+        /**
+         * Run an operation in the worker, parsing with the given options
+         */
+        call<M extends EngineWorkerMethod>(
+                method: M,
+                params: Parameters<EngineWorkerApi[M]>,
+                parserOptions?: ParserOptions,
+        ): Promise<EngineWorkerResult<M>> {
+                if (this.disposed) {
+                        return Promise.reject(
+                                new RefactoringError(
+                                        ErrorCode.EXTRACTION_ERROR,
+                                        'The refactoring worker is stopped',
+                                ),
+                        )
+                }
+
+                const worker = this.getWorker()
+                const id = this.nextId++
+                const request: EngineWorkerRequest<M> = {
+                        id,
+                        method,
+                        params,
+                        parserOptions,
+                }
+                return new Promise((resolve, reject) => {
+                        this.pending.set(id, {
+                                resolve: resolve as (result: unknown) => void,
+                                reject,
+                        })
+                        worker.postMessage(request)
+                })
+        }
+
+        dispose(): void {
+                this.disposed = true
+                const worker = this.worker
+                this.stop('The refactoring worker is stopped')
+                worker?.terminate()
+        }
+
+        /**
+         * Running worker, started again after a crash
+         */
+        private getWorker(): Worker {
+                if (this.worker) {
+                        return this.worker
+                }
+
+                const worker = new Worker(this.workerPath)
+                worker.on('message', (response: EngineWorkerResponse) => {
+                        this.settle(response)
+                })
+                worker.on('error', (error) => {
+                        if (this.worker === worker) {
+                                this.stop(
+                                        `The refactoring worker crashed: ${error.message}`,
+                                )
+                        }
+                })
+                worker.on('exit', (exitCode) => {
+                        if (this.worker === worker) {
+                                this.stop(
+                                        `The refactoring worker exited with code ${exitCode}`,
+                                )
+                        }
+                })
+                this.worker = worker
+                return worker
+        }
+
+        private settle(response: EngineWorkerResponse): void {
+                const request = this.pending.get(response.id)
+                if (!request) {
+                        return
+                }
+                this.pending.delete(response.id)
+                if ('error' in response) {
+                        const { code, message, location, cause } =
+                                response.error
+                        request.reject(
+                                new RefactoringError(
+                                        code,
+                                        message,
+                                        cause ? new Error(cause) : undefined,
+                                        location,
+                                ),
+                        )
+                } else {
+                        request.resolve(response.result)
+                }
+        }
+
+        /**
+         * Forget the worker, failing its pending requests; the next request
+         * starts a new one
+         */
+        private stop(message: string): void {
+                this.worker = undefined
+                const pending = Array.from(this.pending.values())
+                this.pending.clear()
+                pending.forEach(({ reject }) => {
+                        reject(
+                                new RefactoringError(
+                                        ErrorCode.EXTRACTION_ERROR,
+                                        message,
+                                ),
+                        )
+                })
+        }
+}
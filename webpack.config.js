@@ -3,6 +3,7 @@
 import { resolve as _resolve, dirname } from 'node:path'
 import { fileURLToPath } from 'node:url'
 import TerserPlugin from 'terser-webpack-plugin'
+import webpack from 'webpack'
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
 
@@ -10,10 +11,15 @@ const __dirname = dirname(fileURLToPath(import.meta.url))
 const config = {
         target: 'node',
 
-        entry: './src/extension.ts',
+        entry: {
+                extension: './src/extension.ts',
+                cli: './src/cli.ts',
+                server: './src/server.ts',
+                worker: './src/worker.ts',
+        },
         output: {
                 path: _resolve(__dirname, 'dist'),
-                filename: 'extension.js',
+                filename: '[name].js',
                 libraryTarget: 'commonjs2',
                 devtoolModuleFilenameTemplate: '../[resource-path]',
         },
@@ -24,6 +30,14 @@ const config = {
         resolve: {
                 extensions: ['.ts', '.js'],
         },
+        plugins: [
+                new webpack.BannerPlugin({
+                        banner: '#!/usr/bin/env node',
+                        raw: true,
+                        entryOnly: true,
+                        include: /^(cli|server)\.js$/,
+                }),
+        ],
         module: {
                 rules: [
                         {